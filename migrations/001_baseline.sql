@@ -0,0 +1,75 @@
+-- Schema the server started from: devices, raw packets and parsed positions.
+--
+-- Migrations run in file name order, each once. Every file is written to be
+-- safe to run again, so a database created before migrations existed can
+-- apply them from the start: what it already has is left as it is.
+
+CREATE TABLE IF NOT EXISTS tracker_devices (
+  imei         text PRIMARY KEY,
+  label        text,
+  status       text CONSTRAINT tracker_devices_status_check CHECK (status IN ('online', 'offline')),
+  last_seen_at timestamptz,
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+
+-- Every AVL packet as received, kept so it can be reprocessed (src/reprocess.ts)
+CREATE TABLE IF NOT EXISTS tracker_packets_raw (
+  id          bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  imei        text NOT NULL,
+  remote_ip   text,
+  packet_hex  text NOT NULL,
+  packet_len  integer NOT NULL,
+  parsed      boolean NOT NULL DEFAULT false,
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_packets_raw_unparsed_idx ON tracker_packets_raw (id) WHERE NOT parsed;
+
+-- One row per AVL record. Every IO element is kept in io_data; the columns
+-- after it are the elements base.json promotes (promoteAs).
+CREATE TABLE IF NOT EXISTS tracker_positions (
+  id                 bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  imei               text NOT NULL,
+  gps_time           timestamptz NOT NULL,
+  latitude           double precision NOT NULL,
+  longitude          double precision NOT NULL,
+  speed              integer NOT NULL,
+  angle              integer NOT NULL,
+  satellites         integer NOT NULL,
+  altitude           integer NOT NULL,
+  priority           integer NOT NULL,
+  raw_packet_id      bigint NOT NULL REFERENCES tracker_packets_raw (id),
+  event_io_id        integer NOT NULL,
+  io_data            jsonb NOT NULL DEFAULT '{}',
+  din1               boolean,
+  din2               boolean,
+  din3               boolean,
+  din4               boolean,
+  dout1              boolean,
+  dout2              boolean,
+  ain1               integer,
+  external_voltage_v numeric,
+  battery_voltage_v  numeric,
+  battery_current_ma integer,
+  battery_level_pct  integer,
+  gsm_signal         integer,
+  gsm_operator       integer,
+  gnss_status        integer,
+  gnss_pdop          numeric,
+  gnss_hdop          numeric,
+  ignition           boolean,
+  movement           boolean,
+  sleep_mode         integer,
+  over_speeding      integer,
+  total_odometer_m   bigint,
+  trip_odometer_m    bigint,
+  crash_detection    integer,
+  jamming            integer,
+  green_driving_type integer,
+  eco_score          integer,
+  bt_status          integer,
+  created_at         timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_positions_imei_time_idx ON tracker_positions (imei, gps_time, id);
+CREATE INDEX IF NOT EXISTS tracker_positions_raw_packet_idx ON tracker_positions (raw_packet_id);
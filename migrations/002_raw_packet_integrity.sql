@@ -0,0 +1,6 @@
+-- Integrity outcome of every raw packet (CRC-16/IBM and record counts).
+-- Corrupted packets are kept for diagnosis but never parsed.
+
+ALTER TABLE tracker_packets_raw
+  ADD COLUMN IF NOT EXISTS crc_valid   boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS parse_error text;
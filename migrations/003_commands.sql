@@ -0,0 +1,15 @@
+-- Codec 12 command queue and history (see src/commands.ts).
+
+CREATE TABLE IF NOT EXISTS tracker_commands (
+  id          bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  imei        text NOT NULL,
+  command     text NOT NULL,
+  status      text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'answered', 'timed_out')),
+  response    text,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  sent_at     timestamptz,
+  answered_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS tracker_commands_imei_idx ON tracker_commands (imei, id);
+CREATE INDEX IF NOT EXISTS tracker_commands_queued_idx ON tracker_commands (imei, id) WHERE status = 'queued';
@@ -0,0 +1,9 @@
+-- Codec of each packet and record (8, 8E or 16), and the Codec 16
+-- generation type. Null on rows stored before this migration.
+
+ALTER TABLE tracker_packets_raw
+  ADD COLUMN IF NOT EXISTS codec integer;
+
+ALTER TABLE tracker_positions
+  ADD COLUMN IF NOT EXISTS codec           integer,
+  ADD COLUMN IF NOT EXISTS generation_type integer;
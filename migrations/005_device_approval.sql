@@ -0,0 +1,6 @@
+-- Handshake policy (see src/handshake.ts): devices already known stay
+-- approved; auto-provisioned ones wait as "pending".
+
+ALTER TABLE tracker_devices
+  ADD COLUMN IF NOT EXISTS approval_status text NOT NULL DEFAULT 'approved'
+    CHECK (approval_status IN ('approved', 'pending', 'blocked'));
@@ -0,0 +1,41 @@
+-- Geofences, their enter / exit / dwell events and the per device × fence
+-- state they are derived from (see src/geofence.ts).
+
+CREATE TABLE IF NOT EXISTS tracker_geofences (
+  id         bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  name       text NOT NULL,
+  kind       text NOT NULL CHECK (kind IN ('circle', 'polygon')),
+  latitude   double precision,
+  longitude  double precision,
+  radius_m   double precision,
+  polygon    jsonb,
+  dwell_s    integer,
+  imeis      jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tracker_geofence_events (
+  id          bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  geofence_id bigint NOT NULL REFERENCES tracker_geofences (id),
+  imei        text NOT NULL,
+  event       text NOT NULL CHECK (event IN ('enter', 'exit', 'dwell')),
+  gps_time    timestamptz NOT NULL,
+  latitude    double precision NOT NULL,
+  longitude   double precision NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_geofence_events_imei_idx ON tracker_geofence_events (imei, gps_time);
+CREATE INDEX IF NOT EXISTS tracker_geofence_events_geofence_idx ON tracker_geofence_events (geofence_id, gps_time);
+
+CREATE TABLE IF NOT EXISTS tracker_geofence_state (
+  imei           text NOT NULL,
+  geofence_id    bigint NOT NULL REFERENCES tracker_geofences (id),
+  inside         boolean NOT NULL,
+  since          timestamptz NOT NULL,
+  last_gps_time  timestamptz NOT NULL,
+  dwell_reported boolean NOT NULL DEFAULT false,
+  PRIMARY KEY (imei, geofence_id)
+);
+
+CREATE INDEX IF NOT EXISTS tracker_geofence_state_geofence_idx ON tracker_geofence_state (geofence_id);
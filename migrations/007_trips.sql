@@ -0,0 +1,22 @@
+-- Trips segmented from positions (see src/trips.ts). A device's trips are
+-- upserted on their start time while the last one is still open.
+
+CREATE TABLE IF NOT EXISTS tracker_trips (
+  id              bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  imei            text NOT NULL,
+  status          text NOT NULL CHECK (status IN ('open', 'closed')),
+  start_time      timestamptz NOT NULL,
+  end_time        timestamptz NOT NULL,
+  start_latitude  double precision NOT NULL,
+  start_longitude double precision NOT NULL,
+  end_latitude    double precision NOT NULL,
+  end_longitude   double precision NOT NULL,
+  distance_m      double precision NOT NULL,
+  max_speed_kmh   double precision NOT NULL,
+  avg_speed_kmh   double precision NOT NULL,
+  duration_s      integer NOT NULL,
+  idle_s          integer NOT NULL,
+  point_count     integer NOT NULL,
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (imei, start_time)
+);
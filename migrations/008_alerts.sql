@@ -0,0 +1,33 @@
+-- Alert rules on record fields and the alerts they open (see src/alerts.ts).
+
+CREATE TABLE IF NOT EXISTS tracker_alert_rules (
+  id          bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  name        text NOT NULL,
+  field       text NOT NULL,
+  operator    text NOT NULL CHECK (operator IN ('lt', 'lte', 'gt', 'gte', 'eq', 'neq')),
+  threshold   double precision NOT NULL,
+  duration_s  integer NOT NULL DEFAULT 0,
+  hysteresis  double precision NOT NULL DEFAULT 0,
+  cooldown_s  integer NOT NULL DEFAULT 0,
+  imeis       jsonb,
+  enabled     boolean NOT NULL DEFAULT true,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tracker_alerts (
+  id              bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  rule_id         bigint NOT NULL REFERENCES tracker_alert_rules (id),
+  imei            text NOT NULL,
+  status          text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  value           double precision NOT NULL,
+  opened_at       timestamptz NOT NULL,
+  latitude        double precision NOT NULL,
+  longitude       double precision NOT NULL,
+  acknowledged_at timestamptz,
+  resolved_at     timestamptz,
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_alerts_imei_idx ON tracker_alerts (imei, opened_at);
+CREATE INDEX IF NOT EXISTS tracker_alerts_rule_idx ON tracker_alerts (rule_id, opened_at);
+CREATE INDEX IF NOT EXISTS tracker_alerts_active_idx ON tracker_alerts (opened_at) WHERE status <> 'resolved';
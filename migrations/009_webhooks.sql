@@ -0,0 +1,30 @@
+-- Webhook subscriptions and their delivery queue / log (see src/webhooks.ts).
+
+CREATE TABLE IF NOT EXISTS tracker_webhooks (
+  id           bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  url          text NOT NULL,
+  secret       text NOT NULL,
+  events       jsonb NOT NULL,
+  event_io_ids jsonb,
+  imeis        jsonb,
+  enabled      boolean NOT NULL DEFAULT true,
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tracker_webhook_deliveries (
+  id               bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  webhook_id       bigint NOT NULL REFERENCES tracker_webhooks (id),
+  event            text NOT NULL CHECK (event IN ('position', 'status', 'io_event')),
+  imei             text NOT NULL,
+  payload          jsonb NOT NULL,
+  status           text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts         integer NOT NULL DEFAULT 0,
+  next_attempt_at  timestamptz NOT NULL DEFAULT now(),
+  last_status_code integer,
+  last_error       text,
+  delivered_at     timestamptz,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_webhook_deliveries_webhook_idx ON tracker_webhook_deliveries (webhook_id, id);
+CREATE INDEX IF NOT EXISTS tracker_webhook_deliveries_due_idx ON tracker_webhook_deliveries (next_attempt_at) WHERE status = 'pending';
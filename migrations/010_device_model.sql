@@ -0,0 +1,5 @@
+-- AVL dictionary each device is parsed with (dictionaries/); null means
+-- AVL_DEFAULT_MODEL.
+
+ALTER TABLE tracker_devices
+  ADD COLUMN IF NOT EXISTS model text;
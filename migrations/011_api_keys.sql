@@ -0,0 +1,30 @@
+-- Scoped API keys, stored hashed, and the audit log of write requests
+-- (see src/auth.ts).
+
+CREATE TABLE IF NOT EXISTS tracker_api_keys (
+  id           bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  name         text NOT NULL,
+  key_prefix   text NOT NULL,
+  key_hash     text NOT NULL UNIQUE,
+  scopes       jsonb NOT NULL,
+  imeis        jsonb,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at   timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS tracker_audit_log (
+  id         bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  api_key_id bigint REFERENCES tracker_api_keys (id),
+  actor      text NOT NULL,
+  method     text NOT NULL,
+  path       text NOT NULL,
+  status     integer NOT NULL,
+  imei       text,
+  remote_ip  text,
+  body       jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_audit_log_api_key_idx ON tracker_audit_log (api_key_id, id);
+CREATE INDEX IF NOT EXISTS tracker_audit_log_imei_idx ON tracker_audit_log (imei, id);
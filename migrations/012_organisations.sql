@@ -0,0 +1,35 @@
+-- Organisations, nested device groups and organisation-scoped API keys.
+-- Existing devices and keys stay unassigned (null), visible to platform
+-- keys only.
+
+CREATE TABLE IF NOT EXISTS tracker_organisations (
+  id         bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  name       text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tracker_groups (
+  id              bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  organisation_id bigint NOT NULL REFERENCES tracker_organisations (id),
+  parent_id       bigint REFERENCES tracker_groups (id),
+  name            text NOT NULL,
+  created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tracker_groups_organisation_idx ON tracker_groups (organisation_id);
+
+CREATE TABLE IF NOT EXISTS tracker_group_members (
+  group_id   bigint NOT NULL REFERENCES tracker_groups (id),
+  imei       text NOT NULL REFERENCES tracker_devices (imei),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, imei)
+);
+
+CREATE INDEX IF NOT EXISTS tracker_group_members_imei_idx ON tracker_group_members (imei);
+
+ALTER TABLE tracker_devices
+  ADD COLUMN IF NOT EXISTS organisation_id bigint REFERENCES tracker_organisations (id);
+
+-- A key must not outlive its organisation as a platform key
+ALTER TABLE tracker_api_keys
+  ADD COLUMN IF NOT EXISTS organisation_id bigint REFERENCES tracker_organisations (id);
@@ -0,0 +1,17 @@
+-- TCP session history (see src/sessionHistory.ts). Sessions left open by a
+-- crash keep a null disconnected_at.
+
+CREATE TABLE IF NOT EXISTS tracker_sessions (
+  id                bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  imei              text NOT NULL,
+  remote_ip         text NOT NULL,
+  connected_at      timestamptz NOT NULL,
+  disconnected_at   timestamptz,
+  disconnect_reason text CHECK (disconnect_reason IN ('end', 'error', 'timeout', 'replaced', 'closed', 'shutdown')),
+  bytes_in          bigint NOT NULL DEFAULT 0,
+  bytes_out         bigint NOT NULL DEFAULT 0,
+  packets           integer NOT NULL DEFAULT 0,
+  records           integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS tracker_sessions_imei_idx ON tracker_sessions (imei, connected_at);
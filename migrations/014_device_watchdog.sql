@@ -0,0 +1,9 @@
+-- Status watchdog (see src/watchdog.ts): stale and sleeping states, the
+-- receive time of each device's newest data and its expected reporting
+-- interval (null = DEVICE_REPORT_INTERVAL_S).
+
+ALTER TABLE tracker_devices
+  DROP CONSTRAINT IF EXISTS tracker_devices_status_check,
+  ADD CONSTRAINT tracker_devices_status_check CHECK (status IN ('online', 'stale', 'sleeping', 'offline')),
+  ADD COLUMN IF NOT EXISTS last_data_at      timestamptz,
+  ADD COLUMN IF NOT EXISTS report_interval_s integer CHECK (report_interval_s > 0);
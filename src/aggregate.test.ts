@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { saveRawPacket, savePositions } from "./db.js";
+import { aggregateSensor, parseBucket } from "./aggregate.js";
+import type { AvlRecord, IoData } from "./teltonika.js";
+
+function record(time: string, ioData: IoData): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(time), priority: 0,
+    latitude: 54.6872, longitude: 25.2797, altitude: 0, angle: 0, satellites: 8,
+    speed: 0, eventIoId: 0, generationType: null, ioData,
+  };
+}
+
+async function store(imei: string, records: AvlRecord[]): Promise<void> {
+  const rawId = await saveRawPacket(imei, undefined, Buffer.alloc(12));
+  await savePositions(imei, records, rawId);
+}
+
+test("parseBucket accepts minutes, hours and days up to 31 days", () => {
+  assert.equal(parseBucket("5m"), 300_000);
+  assert.equal(parseBucket("1h"), 3_600_000);
+  assert.equal(parseBucket("31d"), 31 * 86_400_000);
+  for (const bad of ["32d", "0h", "1w", "h", "1.5h"]) assert.equal(parseBucket(bad), null, bad);
+});
+
+test("daily buckets start at local midnight across a DST change", async () => {
+  const imei = "356307046452001";
+  // Vilnius moves from UTC+2 to UTC+3 on 2025-03-30, a 23-hour day
+  await store(imei, [
+    record("2025-03-29T21:30:00Z", { external_voltage: 12 }), // 23:30 on the 29th
+    record("2025-03-30T20:30:00Z", { external_voltage: 13 }), // 23:30 on the 30th
+    record("2025-03-30T20:45:00Z", { external_voltage: 14 }),
+    record("2025-03-30T21:30:00Z", { external_voltage: 11 }), // 00:30 on the 31st
+  ]);
+
+  const series = await aggregateSensor(imei, { column: "external_voltage_v" }, {}, parseBucket("1d")!, "Europe/Vilnius");
+  assert.deepEqual(series, {
+    type: "numeric",
+    buckets: [
+      { bucket: "2025-03-28T22:00:00.000Z", count: 1, min: 12, max: 12, avg: 12, last: 12 },
+      { bucket: "2025-03-29T22:00:00.000Z", count: 2, min: 13, max: 14, avg: 13.5, last: 14 },
+      { bucket: "2025-03-30T21:00:00.000Z", count: 1, min: 11, max: 11, avg: 11, last: 11 },
+    ],
+  });
+});
+
+test("boolean time in state is split at bucket boundaries and skips long gaps", async () => {
+  const imei = "356307046452002";
+  await store(imei, [
+    record("2025-01-01T10:45:00Z", { ignition: true }),
+    record("2025-01-01T11:15:00Z", { ignition: false }),
+    record("2025-01-01T11:30:00Z", { ignition: true }),
+    // 2.5 h without data: longer than SENSOR_STATE_GAP_S
+    record("2025-01-01T14:00:00Z", { ignition: false }),
+  ]);
+
+  const series = await aggregateSensor(imei, { column: "ignition" }, {}, parseBucket("1h")!, "UTC");
+  assert.deepEqual(series, {
+    type: "boolean",
+    buckets: [
+      { bucket: "2025-01-01T10:00:00.000Z", count: 1, true_s: 900, false_s: 0, last: true },
+      { bucket: "2025-01-01T11:00:00.000Z", count: 2, true_s: 900, false_s: 900, last: true },
+      { bucket: "2025-01-01T14:00:00.000Z", count: 1, true_s: 0, false_s: 0, last: false },
+    ],
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Bucketed aggregation of sensor time series.
+ *
+ * A series is split into fixed buckets (`5m`, `1h`, `1d`, …) aligned to the
+ * wall clock of a time zone, so daily buckets start at local midnight and
+ * follow DST changes. Per bucket:
+ *
+ *   numeric fields — count, min, max, avg and last value
+ *   boolean fields — time spent true / false (true_s, false_s), count, last
+ *                    (buckets the state merely runs through are included)
+ *
+ * Time-in-state assigns each interval between two consecutive points to the
+ * earlier point's state, split at bucket boundaries. Intervals longer than
+ * STATE_GAP_S (device off or out of coverage) are not counted for either
+ * state.
+ *
+ * The series is read page by page through sensorPages, so only the running
+ * aggregates are held in memory regardless of the range.
+ */
+
+import { sensorPages, type SensorSource, type TimeRange } from "./db.js";
+
+const PAGE_SIZE = 5000;
+const STATE_GAP_S = Number(process.env.SENSOR_STATE_GAP_S || 7200);
+
+const UNIT_MS = { m: 60_000, h: 3_600_000, d: 86_400_000 } as const;
+const MAX_BUCKET_MS = 31 * UNIT_MS.d;
+
+type NumericBucket = { bucket: string; count: number; min: number; max: number; avg: number; last: number };
+/** `last` is null for buckets the state only carried over into, with no points of their own. */
+type BooleanBucket = { bucket: string; count: number; true_s: number; false_s: number; last: boolean | null };
+
+export type AggregatedSeries =
+  | { type: "numeric"; buckets: NumericBucket[] }
+  | { type: "boolean"; buckets: BooleanBucket[] }
+  | { type: "empty"; buckets: [] };
+
+/** `5m` / `1h` / `1d` → milliseconds, or null if malformed or out of range. */
+export function parseBucket(value: string): number | null {
+  const m = /^(\d+)([mhd])$/.exec(value);
+  if (!m) return null;
+  const ms = Number(m[1]) * UNIT_MS[m[2] as keyof typeof UNIT_MS];
+  return ms > 0 && ms <= MAX_BUCKET_MS ? ms : null;
+}
+
+export function isTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * UTC offset of a time zone at a given instant, in ms. Offsets only change
+ * on quarter-hour boundaries, so results are memoised per quarter hour.
+ */
+function offsetFn(tz: string): (t: number) => number {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric", month: "numeric", day: "numeric",
+    hour: "numeric", minute: "numeric", second: "numeric",
+  });
+  const cache = new Map<number, number>();
+
+  return (t) => {
+    const key = Math.floor(t / 900_000);
+    let offset = cache.get(key);
+    if (offset === undefined) {
+      const probe = key * 900_000;
+      const parts = Object.fromEntries(format.formatToParts(probe).map((p) => [p.type, p.value]));
+      const wall = Date.UTC(
+        Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+        Number(parts.hour), Number(parts.minute), Number(parts.second)
+      );
+      offset = wall - probe;
+      cache.set(key, offset);
+    }
+    return offset;
+  };
+}
+
+/** Maps an instant to the [start, end) of its bucket, both in UTC ms. */
+export function bucketFn(sizeMs: number, tz: string): (t: number) => { start: number; end: number } {
+  const offset = offsetFn(tz);
+  // Local wall-clock time → UTC instant (second pass settles DST edges)
+  const toUtc = (local: number, hint: number) => {
+    const guess = local - offset(hint);
+    return local - offset(guess);
+  };
+
+  return (t) => {
+    const local = t + offset(t);
+    const startLocal = Math.floor(local / sizeMs) * sizeMs;
+    const start = toUtc(startLocal, t);
+    const end = toUtc(startLocal + sizeMs, t + sizeMs);
+    // A DST change can leave t just outside the computed start
+    return t < start ? { start: start - sizeMs, end: start } : { start, end };
+  };
+}
+
+export async function aggregateSensor(
+  imei: string,
+  source: SensorSource,
+  range: TimeRange,
+  bucketMs: number,
+  tz: string
+): Promise<AggregatedSeries> {
+  const bucketOf = bucketFn(bucketMs, tz);
+  const iso = (t: number) => new Date(t).toISOString();
+
+  let type: "numeric" | "boolean" | null = null;
+  const numeric: NumericBucket[] = [];
+  const boolean: BooleanBucket[] = [];
+  let sum = 0;
+  let current: { start: number; end: number } | null = null;
+  let prev: { t: number; value: boolean } | null = null;
+
+  const booleanBucketAt = (t: number): BooleanBucket => {
+    const b = bucketOf(t);
+    const last = boolean[boolean.length - 1];
+    if (last && Date.parse(last.bucket) === b.start) return last;
+    const bucket = { bucket: iso(b.start), count: 0, true_s: 0, false_s: 0, last: null };
+    boolean.push(bucket);
+    return bucket;
+  };
+
+  for await (const page of sensorPages(imei, source, range, PAGE_SIZE)) {
+    for (const point of page) {
+      const v = point.value;
+      if (typeof v !== "number" && typeof v !== "boolean") continue;
+      type ??= typeof v === "boolean" ? "boolean" : "numeric";
+
+      const t = Date.parse(point.gps_time);
+
+      if (type === "numeric") {
+        if (typeof v !== "number") continue;
+        if (!current || t >= current.end) {
+          current = bucketOf(t);
+          sum = 0;
+          numeric.push({ bucket: iso(current.start), count: 0, min: v, max: v, avg: 0, last: v });
+        }
+        const b = numeric[numeric.length - 1];
+        b.count++;
+        b.min = Math.min(b.min, v);
+        b.max = Math.max(b.max, v);
+        b.last = v;
+        sum += v;
+        b.avg = sum / b.count;
+        continue;
+      }
+
+      if (typeof v !== "boolean") continue;
+
+      // Credit [prev.t, t) to prev's state, split across bucket boundaries
+      if (prev && t > prev.t && t - prev.t <= STATE_GAP_S * 1000) {
+        let from = prev.t;
+        while (from < t) {
+          const b = bucketOf(from);
+          const to = Math.min(t, b.end);
+          const bucket = booleanBucketAt(from);
+          if (prev.value) bucket.true_s += (to - from) / 1000;
+          else bucket.false_s += (to - from) / 1000;
+          from = to;
+        }
+      }
+
+      const bucket = booleanBucketAt(t);
+      bucket.count++;
+      bucket.last = v;
+      prev = { t, value: v };
+    }
+  }
+
+  if (type === "numeric") {
+    return { type, buckets: numeric.map((b) => ({ ...b, avg: Math.round(b.avg * 1000) / 1000 })) };
+  }
+  if (type === "boolean") {
+    return {
+      type,
+      buckets: boolean.map((b) => ({ ...b, true_s: Math.round(b.true_s), false_s: Math.round(b.false_s) })),
+    };
+  }
+  return { type: "empty", buckets: [] };
+}
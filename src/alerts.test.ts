@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createAlertRule, getAlert, listAlerts, updateAlert, type AlertRuleInput } from "./db.js";
+import { evaluateAlerts, forgetAlert, invalidateAlertRules, isAlertField } from "./alerts.js";
+import type { AvlRecord, IoData } from "./teltonika.js";
+
+const START = Date.parse("2025-01-01T08:00:00Z");
+
+function record(second: number, speed: number, ioData: IoData = {}): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(START + second * 1000), priority: 0,
+    latitude: 54.6872, longitude: 25.2797, altitude: 0, angle: 0, satellites: 8,
+    speed, eventIoId: 0, generationType: null, ioData,
+  };
+}
+
+const rule = (input: Partial<AlertRuleInput>) =>
+  createAlertRule({
+    name: "rule", field: "speed", operator: "gt", threshold: 0, duration_s: 0,
+    hysteresis: 0, cooldown_s: 0, imeis: null, enabled: true, ...input,
+  });
+
+const alerts = async (imei: string) =>
+  (await listAlerts({ imei }, {}, 100)).reverse().map((a) => ({
+    status: a.status,
+    opened: (Date.parse(a.opened_at) - START) / 1000,
+    resolved: a.resolved_at && (Date.parse(a.resolved_at) - START) / 1000,
+  }));
+
+test("isAlertField accepts record fields, dictionary names and promoted columns", () => {
+  assert.equal(isAlertField("speed"), true);
+  assert.equal(isAlertField("external_voltage"), true);
+  assert.equal(isAlertField("external_voltage_v"), true);
+  assert.equal(isAlertField("no_such_field"), false);
+});
+
+test("opens after the duration, resolves past the hysteresis band, then cools down", async () => {
+  const imei = "356307046452001";
+  await rule({ name: "speeding", imeis: [imei], threshold: 100, duration_s: 60, hysteresis: 10, cooldown_s: 600 });
+  invalidateAlertRules();
+
+  await evaluateAlerts(imei, [record(0, 110), record(30, 120)]);
+  assert.deepEqual(await alerts(imei), []);
+
+  // Held for 60 s; 95 is still inside the hysteresis band, 85 is not
+  await evaluateAlerts(imei, [record(60, 115), record(90, 95), record(120, 85)]);
+  assert.deepEqual(await alerts(imei), [{ status: "resolved", opened: 60, resolved: 120 }]);
+
+  // Cooling down until 720 s: matching earlier opens nothing
+  await evaluateAlerts(imei, [record(150, 120), record(300, 130), record(700, 90)]);
+  await evaluateAlerts(imei, [record(800, 120), record(900, 120)]);
+  assert.deepEqual(await alerts(imei), [
+    { status: "resolved", opened: 60, resolved: 120 },
+    { status: "open", opened: 900, resolved: null },
+  ]);
+});
+
+test("records without the field leave the state alone; closing by hand allows a new alert", async () => {
+  const imei = "356307046452002";
+  await rule({ name: "low battery", imeis: [imei], field: "external_voltage", operator: "lt", threshold: 11.5 });
+  invalidateAlertRules();
+
+  await evaluateAlerts(imei, [record(0, 0, { external_voltage: 11 }), record(10, 0), record(20, 0)]);
+  const [open] = await listAlerts({ imei }, {}, 10);
+  assert.equal(open.status, "open");
+  assert.equal(open.value, 11);
+
+  const resolved = await updateAlert(open.id, { status: "resolved", resolved_at: new Date().toISOString() });
+  forgetAlert(resolved!, 0);
+  await evaluateAlerts(imei, [record(30, 0, { external_voltage: 11.2 })]);
+
+  const statuses = (await listAlerts({ imei }, {}, 10)).map((a) => a.status);
+  assert.deepEqual(statuses, ["open", "resolved"]);
+  assert.equal((await getAlert(open.id))?.status, "resolved");
+});
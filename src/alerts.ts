@@ -0,0 +1,202 @@
+/**
+ * Rules-based alerting.
+ *
+ * Every parsed record is evaluated against the enabled rules that apply to
+ * its device (assigned IMEIs, or fleet-wide when `imeis` is null). A rule
+ * compares one field to a threshold:
+ *
+ *   field     — record field (speed, altitude, angle, satellites), AVL
+ *               dictionary name (`external_voltage`) or promoted column
+ *               (`external_voltage_v`); booleans compare as 0 / 1
+ *   duration  — the condition must hold for duration_s before an alert opens
+ *   hysteresis — an open alert resolves only once the value is back past the
+ *               threshold by this margin (ignored for eq / neq)
+ *   cooldown  — no new alert for cooldown_s after one resolves
+ *
+ * Alerts open as "open", can be acknowledged or resolved through the API, and
+ * are resolved automatically when the condition clears. Records that do not
+ * carry the rule's field (event-only IOs such as crash_detection) leave the
+ * rule's state untouched, so such alerts stay open until resolved by hand or
+ * until the device reports the IO back at a clearing value.
+ *
+ * Which alert is active per device × rule is recovered from storage after a
+ * restart; pending durations and cooldowns are kept in memory only.
+ */
+
+import {
+  listAlertRules, listAlerts, insertAlert, updateAlert,
+  type AlertOperator, type AlertRow, type AlertRuleRow,
+} from "./db.js";
+import { PROMOTED_FIELDS, avlModels } from "./avlDictionary.js";
+import type { AvlRecord } from "./teltonika.js";
+
+// Rules change rarely; the API invalidates the cache on every write
+const RULE_CACHE_MS = 60_000;
+
+const RECORD_FIELDS = ["speed", "altitude", "angle", "satellites"] as const;
+
+// Promoted column → io_data key, so rules can use either name
+const COLUMN_TO_KEY = new Map(PROMOTED_FIELDS.map(({ key, column }) => [column, key]));
+// IO names of every model's dictionary
+const DICT_NAMES = new Set(avlModels().flatMap((m) => Object.values(m.dictionary).map((meta) => meta.name)));
+
+type RuleState = {
+  /** Active (open or acknowledged) alert, if any. */
+  alertId: number | null;
+  /** Time (ms) the condition started holding, while waiting for duration_s. */
+  matchingSince: number | null;
+  /** Last record time (ms) evaluated for this rule. */
+  lastTime: number;
+  cooldownUntil: number;
+};
+
+let ruleCache: { rules: AlertRuleRow[]; expires: number } | null = null;
+
+// imei → rule id → state, seeded from the device's active alerts on first use
+const deviceStates = new Map<string, Map<number, RuleState>>();
+
+/** Forces the next evaluation to reload rules (call after any rule change). */
+export function invalidateAlertRules(): void {
+  ruleCache = null;
+}
+
+/** True if `field` names something a rule can be evaluated against. */
+export function isAlertField(field: string): boolean {
+  return (RECORD_FIELDS as readonly string[]).includes(field) || COLUMN_TO_KEY.has(field) || DICT_NAMES.has(field);
+}
+
+/**
+ * Drops the engine's handle on an alert closed through the API, so the rule
+ * can open a new one for the device (after its cooldown).
+ */
+export function forgetAlert(alert: AlertRow, cooldownS: number): void {
+  const state = deviceStates.get(alert.imei)?.get(alert.rule_id);
+  if (!state || state.alertId !== alert.id) return;
+  state.alertId = null;
+  state.matchingSince = null;
+  state.cooldownUntil = state.lastTime + cooldownS * 1000;
+}
+
+async function rulesFor(imei: string): Promise<AlertRuleRow[]> {
+  if (!ruleCache || ruleCache.expires <= Date.now()) {
+    ruleCache = { rules: await listAlertRules(), expires: Date.now() + RULE_CACHE_MS };
+  }
+  return ruleCache.rules.filter((r) => r.enabled && (r.imeis === null || r.imeis.includes(imei)));
+}
+
+async function statesFor(imei: string): Promise<Map<number, RuleState>> {
+  let states = deviceStates.get(imei);
+  if (!states) {
+    const active = await listAlerts({ imei, statuses: ["open", "acknowledged"] }, {}, 1000);
+    states = new Map();
+    for (const alert of active) {
+      if (states.has(alert.rule_id)) continue; // newest first — keep the latest
+      states.set(alert.rule_id, {
+        alertId: alert.id,
+        matchingSince: null,
+        lastTime: Date.parse(alert.opened_at),
+        cooldownUntil: 0,
+      });
+    }
+    deviceStates.set(imei, states);
+  }
+  return states;
+}
+
+function fieldValue(record: AvlRecord, field: string): number | undefined {
+  if ((RECORD_FIELDS as readonly string[]).includes(field)) {
+    return record[field as (typeof RECORD_FIELDS)[number]];
+  }
+  const v = record.ioData[COLUMN_TO_KEY.get(field) ?? field];
+  if (typeof v === "boolean") return v ? 1 : 0;
+  return typeof v === "number" ? v : undefined;
+}
+
+function compare(value: number, op: AlertOperator, threshold: number): boolean {
+  switch (op) {
+    case "lt":  return value < threshold;
+    case "lte": return value <= threshold;
+    case "gt":  return value > threshold;
+    case "gte": return value >= threshold;
+    case "eq":  return value === threshold;
+    case "neq": return value !== threshold;
+  }
+}
+
+/** Whether an active alert's condition has cleared, honouring the hysteresis band. */
+function cleared(rule: AlertRuleRow, value: number): boolean {
+  switch (rule.operator) {
+    case "lt":
+    case "lte":
+      return !compare(value, rule.operator, rule.threshold + rule.hysteresis);
+    case "gt":
+    case "gte":
+      return !compare(value, rule.operator, rule.threshold - rule.hysteresis);
+    default:
+      return !compare(value, rule.operator, rule.threshold);
+  }
+}
+
+/**
+ * Evaluates a batch of records for one device, opening and resolving alerts.
+ * Each state change is applied only after its database write succeeds, so a
+ * retried batch resumes where the failed attempt stopped.
+ */
+export async function evaluateAlerts(imei: string, records: AvlRecord[]): Promise<void> {
+  const rules = await rulesFor(imei);
+  if (rules.length === 0) return;
+
+  const states = await statesFor(imei);
+  const ordered = [...records].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const record of ordered) {
+    const t = record.timestamp.getTime();
+
+    for (const rule of rules) {
+      const value = fieldValue(record, rule.field);
+      if (value === undefined) continue;
+
+      let state = states.get(rule.id);
+      if (!state) {
+        state = { alertId: null, matchingSince: null, lastTime: 0, cooldownUntil: 0 };
+        states.set(rule.id, state);
+      }
+      if (t <= state.lastTime) continue;
+
+      if (state.alertId === null) {
+        if (!compare(value, rule.operator, rule.threshold)) {
+          state.matchingSince = null;
+        } else {
+          const since = state.matchingSince ?? t;
+          if (t - since >= rule.duration_s * 1000 && t >= state.cooldownUntil) {
+            const alert = await insertAlert({
+              rule_id: rule.id,
+              imei,
+              status: "open",
+              value,
+              opened_at: record.timestamp.toISOString(),
+              latitude: record.latitude,
+              longitude: record.longitude,
+              acknowledged_at: null,
+              resolved_at: null,
+            });
+            state.alertId = alert.id;
+            state.matchingSince = null;
+            console.warn(
+              `[!] IMEI: ${imei} — alert #${alert.id} "${rule.name}": ${rule.field} = ${value} (${rule.operator} ${rule.threshold})`
+            );
+          } else {
+            state.matchingSince = since;
+          }
+        }
+      } else if (cleared(rule, value)) {
+        await updateAlert(state.alertId, { status: "resolved", resolved_at: record.timestamp.toISOString() });
+        console.log(`[✓] IMEI: ${imei} — alert #${state.alertId} "${rule.name}" resolved (${rule.field} = ${value})`);
+        state.alertId = null;
+        state.cooldownUntil = t + rule.cooldown_s * 1000;
+      }
+
+      state.lastTime = t;
+    }
+  }
+}
@@ -1,105 +1,559 @@
-import { Hono } from "hono";
+import crypto from "node:crypto";
+import { Hono, type Context, type MiddlewareHandler } from "hono";
+import { stream, streamSSE } from "hono/streaming";
 import { serve } from "@hono/node-server";
-import { supabase } from "./db.js";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  listDevices, getDevice, updateDeviceLabel, updateDeviceModel, updateDeviceReportInterval, setDeviceApproval,
+  latestPosition,
+  listPositions, sensorSeries, recentIoData, listCommands, listGeofences, getGeofence, createGeofence,
+  updateGeofence, deleteGeofence, listGeofenceEvents, listTrips, getTrip, trackPages, listAlertRules,
+  getAlertRule, createAlertRule, updateAlertRule, deleteAlertRule, getAlert, updateAlert, listAlerts,
+  listWebhooks, getWebhook, createWebhook, updateWebhook, deleteWebhook, listWebhookDeliveries, listApiKeys,
+  createApiKey, updateApiKey, insertAuditLog, listAuditLog, setDeviceOrganisation, listOrganisations,
+  getOrganisation, createOrganisation, updateOrganisation, deleteOrganisation, listGroups, getGroup, createGroup,
+  updateGroup, deleteGroup, listGroupMembers, addGroupMembers, removeGroupMember, listSessions,
+} from "./db.js";
+import { queueCommand } from "./commands.js";
+import { isDeviceConnected, disconnectDevice } from "./sessions.js";
+import { forgetApproval } from "./handshake.js";
+import type {
+  AlertPatch, AlertRuleInput, AlertStatus, ApiKeyRow, ApiScope, ApprovalStatus, GeofenceInput, GroupRow,
+  WebhookDeliveryStatus, WebhookInput, WebhookRow,
+} from "./db.js";
+import { invalidateGeofences } from "./geofence.js";
+import { forgetAlert, invalidateAlertRules, isAlertField } from "./alerts.js";
+import { invalidateWebhooks } from "./webhooks.js";
+import { spoolStats } from "./spool.js";
+import { renderMetrics } from "./metrics.js";
+import { openEventStream } from "./events.js";
+import { EXPORT_FORMATS, exportTrack, type ExportFormat } from "./export.js";
+import { downsampleTrack } from "./simplify.js";
+import { aggregateSensor, isTimeZone, parseBucket } from "./aggregate.js";
+import { mileageCsv, mileageReport } from "./reports.js";
+import { DEFAULT_MODEL, avlModels, dictionaryFor, isAvlModel } from "./avlDictionary.js";
+import { invalidateDeviceModel } from "./deviceModels.js";
+import { sessionSummary } from "./sessionHistory.js";
+import { deviceHealth } from "./health.js";
+import {
+  API_SCOPES, FLEET_WIDE_SCOPES, authDisabled, authenticate, canSeeImei, canSeeOrganisation, generateApiKey,
+  hasScope, invalidateApiKeys, type Principal,
+} from "./auth.js";
+import { createsCycle, groupImeis } from "./groups.js";
 
-const app = new Hono();
+type ApiEnv = {
+  Variables: {
+    principal: Principal;
+    /** Devices selected by the `group` query param; null when absent. */
+    groupImeis: Set<string> | null;
+  };
+};
 
+const app = new Hono<ApiEnv>();
+
+// Comma-separated origins allowed to call the API from a browser; "*" (the
+// default) allows any. Keys travel in headers, not cookies, so "*" does not
+// expose them — the list only narrows which web apps may use the API.
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || "*").split(",").map((s) => s.trim()).filter(Boolean);
+
+app.use("*", async (c, next) => {
+  const origin = c.req.header("Origin");
+  if (CORS_ORIGINS.includes("*")) {
+    c.header("Access-Control-Allow-Origin", "*");
+  } else if (origin && CORS_ORIGINS.includes(origin)) {
+    c.header("Access-Control-Allow-Origin", origin);
+  }
+  c.header("Vary", "Origin");
+  c.header("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS");
+  c.header("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key, Last-Event-ID");
+  if (c.req.method === "OPTIONS") return c.body(null, 204);
+  await next();
+});
+
+// ── Authentication / audit ────────────────────────────────────────────────────
+
+/**
+ * The key presented with a request. `api_key` in the query string is only
+ * read where browsers cannot set headers (EventSource, WebSocket).
+ */
+function presentedKey(headers: { authorization?: string | null; apiKey?: string | null }, query: string | null): string | null {
+  const bearer = headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? headers.apiKey ?? query ?? null;
+}
+
+app.use("*", async (c, next) => {
+  if (c.req.path === "/health") return next();
+
+  const key = presentedKey(
+    { authorization: c.req.header("Authorization"), apiKey: c.req.header("X-API-Key") },
+    c.req.path === "/fleet/stream" ? c.req.query("api_key") ?? null : null
+  );
+  let principal: Principal | null;
+  try {
+    principal = await authenticate(key);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+  if (!principal) return c.json({ error: "Missing or invalid API key" }, 401);
+
+  c.set("principal", principal);
+  await next();
+});
+
+// Request body fields never written to the audit log
+const REDACTED_FIELDS = /secret|password|token|key$/i;
+
+/** Writes every non-GET request to tracker_audit_log once it has been answered. */
 app.use("*", async (c, next) => {
-  c.header("Access-Control-Allow-Origin", "*");
-  c.header("Access-Control-Allow-Methods", "GET, PATCH, OPTIONS");
-  c.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
-  if (c.req.method === "OPTIONS") return new Response(null, { status: 204 });
+  if (c.req.method === "GET" || c.req.method === "HEAD" || c.req.method === "OPTIONS") return next();
+
+  // Hono caches the parsed body, so the route handler can still read it
+  let body: Record<string, unknown> | null = null;
+  if (c.req.header("Content-Type")?.includes("application/json")) {
+    const parsed = await c.req.json().catch(() => null);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      body = Object.fromEntries(
+        Object.entries(parsed).map(([k, v]) => [k, REDACTED_FIELDS.test(k) ? "[redacted]" : v])
+      );
+    }
+  }
+
   await next();
+
+  const principal = c.get("principal");
+  if (!principal) return;
+  insertAuditLog({
+    api_key_id: principal.keyId,
+    actor: principal.name,
+    method: c.req.method,
+    path: c.req.path,
+    status: c.res.status,
+    imei: c.req.path.match(/^\/devices\/([^/]+)/)?.[1] ?? null,
+    remote_ip: getConnInfo(c).remote.address ?? null,
+    body,
+  }).catch((err) => console.error(`[✗] Failed to write audit log (${c.req.method} ${c.req.path}):`, err.message));
 });
 
+/**
+ * Devices in the group named by a `group` query value, subgroups included;
+ * null when no group was asked for, undefined when the caller cannot see it.
+ */
+async function groupFilter(principal: Principal, value: string | null | undefined): Promise<Set<string> | null | undefined> {
+  if (value === null || value === undefined) return null;
+  if (!/^\d+$/.test(value)) return undefined;
+  const group = await getGroup(Number(value));
+  if (!group || !(await canSeeGroup(principal, group))) return undefined;
+  return groupImeis(group);
+}
+
+/**
+ * Whether the caller may see a group. Besides the organisation check, a
+ * platform key limited to some devices only sees groups that hold one of
+ * them, subgroups included; it would otherwise list every organisation's.
+ */
+async function canSeeGroup(principal: Principal, group: GroupRow): Promise<boolean> {
+  if (!canSeeOrganisation(principal, group.organisation_id)) return false;
+  if (principal.organisationId !== null || principal.imeis === null) return true;
+  const members = await groupImeis(group);
+  return [...principal.imeis].some((imei) => members.has(imei));
+}
+
+/**
+ * Route guard: the caller's key must hold `scope`, and an `:imei` in the
+ * route must be one of the key's devices. Also resolves the `group` filter
+ * every read route accepts; an `:imei` outside the group is not found.
+ */
+function requireScope(scope: ApiScope): MiddlewareHandler<ApiEnv> {
+  return async (c, next) => {
+    const principal = c.get("principal");
+    if (!hasScope(principal, scope)) return c.json({ error: `API key lacks the ${scope} scope` }, 403);
+
+    const imei = c.req.param("imei");
+    if (imei !== undefined && !canSeeImei(principal, imei)) {
+      return c.json({ error: "API key is not allowed to access this device" }, 403);
+    }
+
+    let members;
+    try {
+      members = await groupFilter(principal, c.req.query("group"));
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 500);
+    }
+    if (members === undefined) return c.json({ error: "Group not found" }, 404);
+    if (imei !== undefined && members !== null && !members.has(imei)) {
+      return c.json({ error: "Device not found in group" }, 404);
+    }
+    c.set("groupImeis", members);
+    await next();
+  };
+}
+
+/** `requested` (null = all) narrowed by every non-null limit. */
+function narrowImeis(requested: Set<string> | null, ...limits: Array<Set<string> | null>): Set<string> | null {
+  let imeis = requested;
+  for (const limit of limits) {
+    if (limit === null) continue;
+    imeis = imeis === null ? limit : new Set([...imeis].filter((imei) => limit.has(imei)));
+  }
+  return imeis;
+}
+
+/** `requested` (null = all) narrowed to the devices the caller may see and the `group` filter. */
+function visibleImeis(c: Context<ApiEnv>, requested: Set<string> | null): Set<string> | null {
+  return narrowImeis(requested, c.get("principal").imeis, c.get("groupImeis"));
+}
+
+/**
+ * The request body, or null if it is missing, malformed or not a JSON object.
+ * Routes answer 400 for null instead of letting the parse error become a 500.
+ */
+async function jsonBody<T = Record<string, unknown>>(c: Context<ApiEnv>): Promise<T | null> {
+  try {
+    const body: unknown = await c.req.json();
+    return body !== null && typeof body === "object" && !Array.isArray(body) ? (body as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A geofence or alert rule as the caller may see it: `imeis` narrowed to the
+ * visible devices, or null if it only targets other devices. Whole-fleet
+ * rows (imeis null) also apply to the caller's devices and stay visible.
+ */
+function visibleTargets<T extends { imeis: string[] | null }>(c: Context<ApiEnv>, row: T): T | null {
+  const imeis = visibleImeis(c, null);
+  if (imeis === null || row.imeis === null) return row;
+  const targets = row.imeis.filter((imei) => imeis.has(imei));
+  return targets.length > 0 ? { ...row, imeis: targets } : null;
+}
+
 // ── Health ────────────────────────────────────────────────────────────────────
 
 app.get("/health", (c) => c.json({ status: "ok" }));
 
+/**
+ * GET /health/spool
+ * Ingestion spool backlog: entries ACKed to devices but not yet written to
+ * the database. A growing depth / age means the database is falling behind;
+ * dead_lettered counts entries given up on (see spool.ts). Needs
+ * metrics:read: last_error carries raw database errors.
+ */
+app.get("/health/spool", requireScope("metrics:read"), (c) => c.json(spoolStats()));
+
+/**
+ * GET /metrics
+ * Ingestion metrics in the Prometheus text format (see metrics.ts). Scrape
+ * with a key holding metrics:read, sent as a bearer token.
+ */
+app.get("/metrics", requireScope("metrics:read"), (c) => {
+  c.header("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  return c.body(renderMetrics());
+});
+
 // ── Fleet ─────────────────────────────────────────────────────────────────────
 
 /**
  * GET /fleet/latest
  * Returns every device with its single most-recent position (or null).
  * Used by the dashboard overview to show all vehicles on the map at once.
+ *
+ * Query params: group (device group id; its subgroups are included).
  */
-app.get("/fleet/latest", async (c) => {
-  const { data: devices, error: devErr } = await supabase
-    .from("tracker_devices")
-    .select("imei, label, status, last_seen_at")
-    .order("last_seen_at", { ascending: false });
-
-  if (devErr) return c.json({ error: devErr.message }, 500);
+app.get("/fleet/latest", requireScope("positions:read"), async (c) => {
+  const imeis = visibleImeis(c, null);
+  let devices;
+  try {
+    devices = (await listDevices()).filter((d) => imeis === null || imeis.has(d.imei));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
 
   const fleet = await Promise.all(
-    (devices ?? []).map(async (d) => {
-      const { data: pos } = await supabase
-        .from("tracker_positions")
-        .select("*")
-        .eq("imei", d.imei)
-        .order("gps_time", { ascending: false })
-        .limit(1)
-        .single();
-
-      return { ...d, position: pos ?? null };
+    devices.map(async ({ imei, label, status, last_seen_at }) => {
+      const pos = await latestPosition(imei).catch(() => null);
+      return { imei, label, status, last_seen_at, position: pos };
     })
   );
 
   return c.json(fleet);
 });
 
+/** `imeis=a,b,c` query value → set, or null (every device) when absent. */
+function parseImeiList(value: string | null | undefined): Set<string> | null {
+  const imeis = (value ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  return imeis.length > 0 ? new Set(imeis) : null;
+}
+
+// SSE comment sent while idle so proxies keep the connection open
+const SSE_HEARTBEAT_MS = 25_000;
+
+/**
+ * GET /fleet/stream
+ * Server-Sent Events: every newly stored position ("position") and device
+ * status change ("status": online / stale / sleeping / offline), as JSON
+ * { id, type, imei, at, data }.
+ *
+ * Query params: imeis (comma-separated; default all devices), group,
+ * api_key (for EventSource, which cannot send headers).
+ * Resume: EventSource sends Last-Event-ID on reconnect (or pass
+ * ?last_event_id=). If that id can no longer be resumed a "reset" event is
+ * sent first — reload /fleet/latest, then carry on with the stream.
+ */
+app.get("/fleet/stream", requireScope("positions:read"), (c) => {
+  const imeis = visibleImeis(c, parseImeiList(c.req.query("imeis")));
+  const lastEventId = c.req.header("Last-Event-ID") ?? c.req.query("last_event_id");
+
+  return streamSSE(c, async (stream) => {
+    const events = openEventStream(lastEventId, imeis);
+    stream.onAbort(() => events.close());
+    const heartbeat = setInterval(() => {
+      stream.write(": ping\n\n").catch(() => events.close());
+    }, SSE_HEARTBEAT_MS);
+
+    try {
+      if (events.reset) await stream.writeSSE({ event: "reset", data: "{}" });
+      for (let e = await events.next(); e; e = await events.next()) {
+        await stream.writeSSE({ id: String(e.id), event: e.type, data: JSON.stringify(e) });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      events.close();
+    }
+  });
+});
+
 // ── Devices ───────────────────────────────────────────────────────────────────
 
 /**
  * GET /devices
  * List all known devices with their current connection status.
+ *
+ * Query params: group (device group id; its subgroups are included).
  */
-app.get("/devices", async (c) => {
-  const { data, error } = await supabase
-    .from("tracker_devices")
-    .select("imei, label, status, last_seen_at, created_at")
-    .order("last_seen_at", { ascending: false });
-
-  if (error) return c.json({ error: error.message }, 500);
-  return c.json(data);
+app.get("/devices", requireScope("devices:read"), async (c) => {
+  try {
+    const imeis = visibleImeis(c, null);
+    return c.json((await listDevices()).filter((d) => imeis === null || imeis.has(d.imei)));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
 });
 
 /**
  * GET /devices/:imei
  * Single device details.
  */
-app.get("/devices/:imei", async (c) => {
+app.get("/devices/:imei", requireScope("devices:read"), async (c) => {
   const imei = c.req.param("imei");
 
-  const { data, error } = await supabase
-    .from("tracker_devices")
-    .select("imei, label, status, last_seen_at, created_at")
-    .eq("imei", imei)
-    .single();
+  const device = await getDevice(imei).catch(() => null);
+  if (!device) return c.json({ error: "Device not found" }, 404);
+  return c.json(device);
+});
 
-  if (error) return c.json({ error: "Device not found" }, 404);
-  return c.json(data);
+/**
+ * GET /devices/:imei/health
+ * Status and connectivity at a glance: { status, derived_status, connected,
+ * last_seen_at, last_data_at, silent_s, thresholds, last_fix: { gps_time,
+ * age_s, satellites }, gnss_status / gsm_signal / sleep_mode: { value,
+ * label?, gps_time }, external_voltage / battery_voltage: { current, min,
+ * max, slope_v_per_h, samples }, unplugged, unplugged_since }. Voltage
+ * trends cover the last HEALTH_TREND_H hours.
+ */
+app.get("/devices/:imei/health", requireScope("devices:read"), async (c) => {
+  try {
+    const device = await getDevice(c.req.param("imei"));
+    if (!device) return c.json({ error: "Device not found" }, 404);
+    return c.json(await deviceHealth(device));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
 });
 
 /**
  * PATCH /devices/:imei
- * Update label or other editable fields.
+ * Update label or other editable fields. Only fields present in the body
+ * change.
+ *
+ * Body: { "label"?: string | null, "model"?: string | null,
+ *         "report_interval_s"?: number | null,
+ *         "organisation_id"?: number | null }
+ *   model — AVL dictionary to parse the device's packets with (see
+ *           GET /dictionaries); null reverts to the default. Applies to
+ *           packets flushed from now on; run `reprocess --all` to re-decode
+ *           stored history.
+ *   report_interval_s — how often the device is configured to send, which
+ *           the status watchdog measures silence against; null reverts to
+ *           DEVICE_REPORT_INTERVAL_S.
+ *   organisation_id — customer the device belongs to (admin only). Moving a
+ *           device removes it from all its groups.
  */
-app.patch("/devices/:imei", async (c) => {
+app.patch("/devices/:imei", requireScope("devices:write"), async (c) => {
   const imei = c.req.param("imei");
-  const { label } = await c.req.json<{ label?: string }>();
+  const body = await jsonBody<{
+    label?: string | null;
+    model?: string | null;
+    report_interval_s?: number | null;
+    organisation_id?: number | null;
+  }>(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+
+  if (body.model !== undefined && body.model !== null && !isAvlModel(body.model)) {
+    return c.json({ error: `Unknown model "${body.model}"` }, 400);
+  }
+  if (body.report_interval_s !== undefined && body.report_interval_s !== null &&
+      !(Number.isInteger(body.report_interval_s) && body.report_interval_s > 0)) {
+    return c.json({ error: "report_interval_s must be a positive integer or null" }, 400);
+  }
+  if (body.organisation_id !== undefined && !hasScope(c.get("principal"), "admin")) {
+    return c.json({ error: "API key lacks the admin scope" }, 403);
+  }
 
-  const { error } = await supabase
-    .from("tracker_devices")
-    .update({ label: label ?? null })
-    .eq("imei", imei);
+  try {
+    if (body.organisation_id !== undefined && body.organisation_id !== null &&
+        !(await getOrganisation(body.organisation_id))) {
+      return c.json({ error: "organisation_id does not exist" }, 400);
+    }
 
-  if (error) return c.json({ error: error.message }, 500);
+    if (body.label !== undefined) await updateDeviceLabel(imei, body.label ?? null);
+    if (body.model !== undefined) {
+      await updateDeviceModel(imei, body.model);
+      invalidateDeviceModel(imei);
+    }
+    if (body.report_interval_s !== undefined) await updateDeviceReportInterval(imei, body.report_interval_s);
+    if (body.organisation_id !== undefined) {
+      await setDeviceOrganisation(imei, body.organisation_id);
+      invalidateApiKeys();
+    }
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
   return c.json({ success: true });
 });
 
+/**
+ * GET /devices/:imei/dictionary
+ * The AVL dictionary in effect for a device — its model's, after inheritance
+ * — as { model, entries: [{ id, name, scale?, signed?, boolean?, unit?,
+ * promoteAs? }] } ordered by IO id.
+ */
+app.get("/devices/:imei/dictionary", requireScope("devices:read"), async (c) => {
+  const device = await getDevice(c.req.param("imei")).catch(() => null);
+  if (!device) return c.json({ error: "Device not found" }, 404);
+
+  const model = device.model ?? DEFAULT_MODEL;
+  const entries = Object.entries(dictionaryFor(model))
+    .map(([id, meta]) => ({ id: Number(id), ...meta }))
+    .sort((a, b) => a.id - b.id);
+  return c.json({ model, entries });
+});
+
+/**
+ * GET /dictionaries
+ * Device models with an AVL dictionary: [{ model, description, extends,
+ * entries }] (entries = number of IO ids after inheritance).
+ */
+app.get("/dictionaries", requireScope("devices:read"), (c) =>
+  c.json(avlModels().map(({ model, description, extends: parent, dictionary }) => ({
+    model,
+    description,
+    extends: parent,
+    entries: Object.keys(dictionary).length,
+  })))
+);
+
+// ── Device access ─────────────────────────────────────────────────────────────
+
+/**
+ * POST /devices/:imei/approve | /block | /unblock
+ * Changes whether a device may connect (see HANDSHAKE_POLICY). Approving an
+ * unknown IMEI pre-registers it, which is how devices are added to the
+ * allowlist. Blocking also drops the device's current connection.
+ */
+const ACCESS_ACTIONS: Record<string, ApprovalStatus> = {
+  approve: "approved",
+  block: "blocked",
+  unblock: "approved",
+};
+
+app.post("/devices/:imei/:action{approve|block|unblock}", requireScope("devices:write"), async (c) => {
+  const imei = c.req.param("imei");
+  const approval = ACCESS_ACTIONS[c.req.param("action")];
+
+  if (!/^\d{15,17}$/.test(imei)) return c.json({ error: "Invalid IMEI" }, 400);
+
+  try {
+    await setDeviceApproval(imei, approval);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+
+  forgetApproval(imei);
+  const disconnected = approval === "blocked" && disconnectDevice(imei);
+
+  return c.json({ imei, approval_status: approval, disconnected });
+});
+
+// ── Sessions ──────────────────────────────────────────────────────────────────
+
+/**
+ * GET /devices/:imei/sessions
+ * TCP connection history, newest first: remote_ip, connected_at,
+ * disconnected_at, disconnect_reason (end | error | timeout | replaced |
+ * closed | shutdown; null while connected), bytes_in / bytes_out, packets,
+ * records.
+ *
+ * Query params: limit (default 100, max 1000), from, to (applied to connected_at).
+ */
+app.get("/devices/:imei/sessions", requireScope("devices:read"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+
+  try {
+    return c.json(await listSessions(c.req.param("imei"), range, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+const SESSION_SUMMARY_DAYS = 30;
+
+/**
+ * GET /devices/:imei/sessions/summary
+ * Connectivity over a period: { sessions, median_duration_s, connected_h,
+ * disconnect_reasons: { end: n, … }, remote_ips, days: [{ date, sessions,
+ * median_duration_s }] }. Medians only cover sessions that have ended.
+ *
+ * Query params: from, to (default the last 30 days, at most 366 days
+ * apart), tz (IANA name, default UTC — sets where days start).
+ */
+app.get("/devices/:imei/sessions/summary", requireScope("devices:read"), async (c) => {
+  const to = c.req.query("to") ?? new Date().toISOString();
+  const from = c.req.query("from") ?? new Date(Date.parse(to) - SESSION_SUMMARY_DAYS * 86_400_000).toISOString();
+  const tz = c.req.query("tz") ?? "UTC";
+
+  if (Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return c.json({ error: "from and to must be ISO 8601 timestamps" }, 400);
+  }
+  if (Date.parse(to) - Date.parse(from) > REPORT_MAX_DAYS * 86_400_000) {
+    return c.json({ error: `Range may span at most ${REPORT_MAX_DAYS} days` }, 400);
+  }
+  if (!isTimeZone(tz)) return c.json({ error: `Unknown time zone "${tz}"` }, 400);
+
+  try {
+    const rows = await listSessions(c.req.param("imei"), { from, to }, null);
+    return c.json(sessionSummary(rows, { from, to }, tz));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
 // ── Positions ─────────────────────────────────────────────────────────────────
 
+const DOWNSAMPLE_MAX_DAYS = 31;
+
 /**
  * GET /devices/:imei/positions
  * Paginated position history. Newest first.
@@ -108,47 +562,97 @@ app.patch("/devices/:imei", async (c) => {
  *   limit  – max rows to return (default 100, max 1000)
  *   from   – ISO 8601 timestamp, filter gps_time >= from
  *   to     – ISO 8601 timestamp, filter gps_time <= to
+ *   simplify – Douglas-Peucker tolerance in metres
+ *   every    – keep one position per this many seconds
+ *
+ * With simplify and/or every the whole range is thinned server-side (limit
+ * is ignored; see simplify.ts) and the response becomes
+ * { original_count, returned_count, positions }. Thinning reads the range
+ * twice, so it needs both from and to, at most 31 days apart.
  */
-app.get("/devices/:imei/positions", async (c) => {
+app.get("/devices/:imei/positions", requireScope("positions:read"), async (c) => {
   const imei = c.req.param("imei");
   const limitParam = Number(c.req.query("limit") ?? 100);
   const from = c.req.query("from");
   const to = c.req.query("to");
+  const simplify = c.req.query("simplify");
+  const every = c.req.query("every");
 
-  let query = supabase
-    .from("tracker_positions")
-    .select("*")
-    .eq("imei", imei)
-    .order("gps_time", { ascending: false });
+  if (simplify !== undefined || every !== undefined) {
+    const toleranceM = simplify !== undefined ? Number(simplify) : null;
+    const everyS = every !== undefined ? Number(every) : null;
+    if (toleranceM !== null && !(toleranceM > 0)) return c.json({ error: "simplify must be a positive number of metres" }, 400);
+    if (everyS !== null && !(everyS > 0)) return c.json({ error: "every must be a positive number of seconds" }, 400);
+    if (!from || !to || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+      return c.json({ error: "simplify and every need from and to as ISO 8601 timestamps" }, 400);
+    }
+    if (Date.parse(to) - Date.parse(from) > DOWNSAMPLE_MAX_DAYS * 86_400_000) {
+      return c.json({ error: `Range may span at most ${DOWNSAMPLE_MAX_DAYS} days with simplify or every` }, 400);
+    }
 
-  // limit=0 means no limit (returns all rows up to Supabase's max)
-  if (limitParam > 0) query = query.limit(Math.min(limitParam, 10_000));
+    try {
+      return c.json(await downsampleTrack(imei, { from, to }, { toleranceM, everyS }));
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 500);
+    }
+  }
 
-  if (from) query = query.gte("gps_time", from);
-  if (to) query = query.lte("gps_time", to);
+  // limit=0 means no limit (returns all rows up to the backend's max)
+  const limit = limitParam > 0 ? Math.min(limitParam, 10_000) : null;
 
-  const { data, error } = await query;
-  if (error) return c.json({ error: error.message }, 500);
-  return c.json(data);
+  try {
+    return c.json(await listPositions(imei, { from, to }, limit));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
 });
 
 /**
  * GET /devices/:imei/positions/latest
  * The single most recent position for a device.
  */
-app.get("/devices/:imei/positions/latest", async (c) => {
+app.get("/devices/:imei/positions/latest", requireScope("positions:read"), async (c) => {
   const imei = c.req.param("imei");
 
-  const { data, error } = await supabase
-    .from("tracker_positions")
-    .select("*")
-    .eq("imei", imei)
-    .order("gps_time", { ascending: false })
-    .limit(1)
-    .single();
+  const position = await latestPosition(imei).catch(() => null);
+  if (!position) return c.json({ error: "No positions found" }, 404);
+  return c.json(position);
+});
 
-  if (error) return c.json({ error: "No positions found" }, 404);
-  return c.json(data);
+/**
+ * GET /devices/:imei/export
+ * Downloads the track as a file, streamed so long ranges are never built in
+ * memory (see export.ts).
+ *
+ * Query params: format (geojson | gpx | kml | csv, required), from, to,
+ * columns (CSV only: comma-separated promoted columns or io_data keys,
+ * e.g. columns=ignition,external_voltage_v,avl_387).
+ */
+app.get("/devices/:imei/export", requireScope("positions:read"), (c) => {
+  const imei = c.req.param("imei");
+  const format = c.req.query("format") ?? "";
+  if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+    return c.json({ error: "format must be geojson, gpx, kml or csv" }, 400);
+  }
+  const { contentType, extension } = EXPORT_FORMATS[format as ExportFormat];
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+  const columns = (c.req.query("columns") ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+
+  c.header("Content-Type", contentType);
+  c.header("Content-Disposition", `attachment; filename="${imei}.${extension}"`);
+
+  return stream(
+    c,
+    async (out) => {
+      for await (const chunk of exportTrack(imei, range, format as ExportFormat, columns)) {
+        if (out.aborted) break;
+        await out.write(chunk);
+      }
+    },
+    async (err) => {
+      console.error(`[✗] Export failed (${imei}, ${format}):`, err.message);
+    }
+  );
 });
 
 // ── Sensors ───────────────────────────────────────────────────────────────────
@@ -162,6 +666,12 @@ app.get("/devices/:imei/positions/latest", async (c) => {
  * Returns [{ gps_time, value }] newest-first.
  *
  * Query params: limit (default 500, max 10_000), from, to.
+ *
+ * With bucket=<n>m|h|d (e.g. 5m, 1h, 1d) the whole range is aggregated
+ * instead and limit is ignored: { field, bucket, tz, type, buckets } with
+ * min / max / avg / last / count per bucket for numeric fields and
+ * true_s / false_s time-in-state for boolean ones (see aggregate.ts).
+ * tz (IANA name, default UTC) sets where bucket boundaries fall.
  */
 const PROMOTED_COLUMNS = new Set([
   "ignition", "movement", "gsm_signal", "sleep_mode", "gnss_status",
@@ -169,42 +679,38 @@ const PROMOTED_COLUMNS = new Set([
   "battery_current_ma", "battery_level_pct", "total_odometer_m",
   "trip_odometer_m", "dout1", "dout2", "din1", "din2", "din3", "din4",
   "ain1", "gsm_operator", "eco_score", "green_driving_type", "over_speeding",
-  "crash_detection", "jamming", "bt_status", "event_io_id",
+  "crash_detection", "jamming", "bt_status", "event_io_id", "generation_type",
 ]);
 
-app.get("/devices/:imei/sensors/:field", async (c) => {
+app.get("/devices/:imei/sensors/:field", requireScope("positions:read"), async (c) => {
   const imei = c.req.param("imei");
   const field = c.req.param("field");
   const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 500), 1), 10_000);
   const from = c.req.query("from");
   const to = c.req.query("to");
 
-  const isPromoted = PROMOTED_COLUMNS.has(field);
-  const selector = isPromoted ? `gps_time, value:${field}` : `gps_time, io_data`;
+  const source = PROMOTED_COLUMNS.has(field) ? { column: field } : { ioKey: field };
 
-  let query = supabase
-    .from("tracker_positions")
-    .select(selector)
-    .eq("imei", imei)
-    .order("gps_time", { ascending: false })
-    .limit(limitParam);
+  const bucket = c.req.query("bucket");
+  if (bucket !== undefined) {
+    const bucketMs = parseBucket(bucket);
+    const tz = c.req.query("tz") ?? "UTC";
+    if (bucketMs === null) return c.json({ error: "bucket must look like 5m, 1h or 1d (at most 31d)" }, 400);
+    if (!isTimeZone(tz)) return c.json({ error: `Unknown time zone "${tz}"` }, 400);
 
-  if (from) query = query.gte("gps_time", from);
-  if (to)   query = query.lte("gps_time", to);
-
-  const { data, error } = await query;
-  if (error) return c.json({ error: error.message }, 500);
-
-  const series = isPromoted
-    ? (data ?? [])
-    : (data ?? [])
-        .map((row: any) => ({
-          gps_time: row.gps_time,
-          value: row.io_data?.[field] ?? null,
-        }))
-        .filter((row) => row.value !== null);
+    try {
+      const result = await aggregateSensor(imei, source, { from, to }, bucketMs, tz);
+      return c.json({ field, bucket, tz, ...result });
+    } catch (err) {
+      return c.json({ error: (err as Error).message }, 500);
+    }
+  }
 
-  return c.json(series);
+  try {
+    return c.json(await sensorSeries(imei, source, { from, to }, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
 });
 
 /**
@@ -212,31 +718,1206 @@ app.get("/devices/:imei/sensors/:field", async (c) => {
  * Distinct set of io_data JSONB keys this device has emitted across its most
  * recent 1000 records. Used to populate a frontend sensor picker.
  */
-app.get("/devices/:imei/io-keys", async (c) => {
+app.get("/devices/:imei/io-keys", requireScope("positions:read"), async (c) => {
   const imei = c.req.param("imei");
 
-  const { data, error } = await supabase
-    .from("tracker_positions")
-    .select("io_data")
-    .eq("imei", imei)
-    .order("gps_time", { ascending: false })
-    .limit(1000);
-
-  if (error) return c.json({ error: error.message }, 500);
+  let ioRows;
+  try {
+    ioRows = await recentIoData(imei, 1000);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
 
   const keys = new Set<string>();
-  for (const row of data ?? []) {
-    const io = (row as { io_data: Record<string, unknown> | null }).io_data;
-    if (io) for (const k of Object.keys(io)) keys.add(k);
+  for (const io of ioRows) {
+    for (const k of Object.keys(io)) keys.add(k);
   }
 
   return c.json([...keys].sort());
 });
 
+// ── Commands ──────────────────────────────────────────────────────────────────
+
+/**
+ * POST /devices/:imei/commands
+ * Queue a Codec 12 GPRS command, e.g. { "command": "getinfo" }. Sent at once
+ * if the device is connected, otherwise on its next connection.
+ */
+app.post("/devices/:imei/commands", requireScope("commands:send"), async (c) => {
+  const imei = c.req.param("imei");
+  const body = await jsonBody<{ command?: string }>(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const { command } = body;
+
+  if (typeof command !== "string" || command.trim() === "") {
+    return c.json({ error: "command is required" }, 400);
+  }
+  if (!/^[\x20-\x7e]+$/.test(command)) {
+    return c.json({ error: "command must be printable ASCII" }, 400);
+  }
+
+  const device = await getDevice(imei).catch(() => null);
+  if (!device) return c.json({ error: "Device not found" }, 404);
+
+  try {
+    const row = await queueCommand(imei, command.trim());
+    return c.json({ ...row, device_connected: isDeviceConnected(imei) }, 202);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /devices/:imei/commands
+ * Command history for a device, newest first.
+ *
+ * Query params: limit (default 100, max 1000), status.
+ */
+app.get("/devices/:imei/commands", requireScope("commands:read"), async (c) => {
+  const imei = c.req.param("imei");
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const status = c.req.query("status");
+
+  try {
+    return c.json(await listCommands(imei, { status, limit: limitParam }));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── Geofences ────────────────────────────────────────────────────────────────
+
+const isLat = (v: unknown): v is number => typeof v === "number" && v >= -90 && v <= 90;
+const isLng = (v: unknown): v is number => typeof v === "number" && v >= -180 && v <= 180;
+
+/**
+ * Validates a geofence body. With `partial`, only the fields present are
+ * checked (PATCH); the merged result is validated again as a whole.
+ */
+function parseGeofence(body: Record<string, unknown>, partial: boolean): Partial<GeofenceInput> | string {
+  const out: Partial<GeofenceInput> = {};
+  const has = (k: string) => body[k] !== undefined;
+
+  if (has("name") || !partial) {
+    if (typeof body.name !== "string" || body.name.trim() === "") return "name is required";
+    out.name = body.name.trim();
+  }
+  if (has("kind") || !partial) {
+    if (body.kind !== "circle" && body.kind !== "polygon") return "kind must be circle or polygon";
+    out.kind = body.kind;
+  }
+  for (const key of ["latitude", "longitude", "radius_m", "dwell_s"] as const) {
+    if (!has(key)) continue;
+    const v = body[key];
+    if (v !== null && typeof v !== "number") return `${key} must be a number or null`;
+    out[key] = v as number | null;
+  }
+  if (out.latitude != null && !isLat(out.latitude)) return "latitude out of range";
+  if (out.longitude != null && !isLng(out.longitude)) return "longitude out of range";
+  if (out.radius_m != null && out.radius_m <= 0) return "radius_m must be positive";
+  if (out.dwell_s != null && out.dwell_s <= 0) return "dwell_s must be positive";
+
+  if (has("polygon")) {
+    const poly = body.polygon;
+    if (poly !== null) {
+      if (!Array.isArray(poly) || !poly.every((p) => isLat(p?.latitude) && isLng(p?.longitude))) {
+        return "polygon must be an array of { latitude, longitude }";
+      }
+      out.polygon = poly.map((p) => ({ latitude: p.latitude, longitude: p.longitude }));
+    } else {
+      out.polygon = null;
+    }
+  }
+  if (has("imeis")) {
+    const imeis = body.imeis;
+    if (imeis !== null && !(Array.isArray(imeis) && imeis.every((i) => typeof i === "string"))) {
+      return "imeis must be an array of IMEIs or null (whole fleet)";
+    }
+    out.imeis = imeis as string[] | null;
+  }
+
+  return out;
+}
+
+/** Shape check on a complete fence: circles need a centre and radius, polygons ≥ 3 vertices. */
+function checkGeofenceShape(g: GeofenceInput): string | null {
+  if (g.kind === "circle") {
+    if (g.latitude === null || g.longitude === null || g.radius_m === null) {
+      return "circle needs latitude, longitude and radius_m";
+    }
+  } else if (!g.polygon || g.polygon.length < 3) {
+    return "polygon needs at least 3 vertices";
+  }
+  return null;
+}
+
+/**
+ * GET /geofences
+ * All geofences that apply to the caller's devices; `imeis` only lists
+ * devices the caller may see.
+ *
+ * Query params: group.
+ */
+app.get("/geofences", requireScope("geofences:read"), async (c) => {
+  try {
+    return c.json((await listGeofences()).flatMap((g) => visibleTargets(c, g) ?? []));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * POST /geofences
+ * Create a fence. Circle: { name, kind: "circle", latitude, longitude,
+ * radius_m }. Polygon: { name, kind: "polygon", polygon: [{ latitude,
+ * longitude }, …] }. Optional: dwell_s, imeis (omit / null = whole fleet).
+ */
+app.post("/geofences", requireScope("geofences:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = parseGeofence(body, false);
+  if (typeof parsed === "string") return c.json({ error: parsed }, 400);
+
+  const input: GeofenceInput = {
+    name: parsed.name!,
+    kind: parsed.kind!,
+    latitude: parsed.latitude ?? null,
+    longitude: parsed.longitude ?? null,
+    radius_m: parsed.radius_m ?? null,
+    polygon: parsed.polygon ?? null,
+    dwell_s: parsed.dwell_s ?? null,
+    imeis: parsed.imeis ?? null,
+  };
+  const shapeError = checkGeofenceShape(input);
+  if (shapeError) return c.json({ error: shapeError }, 400);
+
+  try {
+    const row = await createGeofence(input);
+    invalidateGeofences();
+    return c.json(row, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /geofences/:id
+ * Single geofence.
+ */
+app.get("/geofences/:id{[0-9]+}", requireScope("geofences:read"), async (c) => {
+  const row = await getGeofence(Number(c.req.param("id"))).catch(() => null);
+  const fence = row && visibleTargets(c, row);
+  if (!fence) return c.json({ error: "Geofence not found" }, 404);
+  return c.json(fence);
+});
+
+/**
+ * PATCH /geofences/:id
+ * Update any subset of the fields accepted by POST.
+ */
+app.patch("/geofences/:id{[0-9]+}", requireScope("geofences:write"), async (c) => {
+  const id = Number(c.req.param("id"));
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = parseGeofence(body, true);
+  if (typeof parsed === "string") return c.json({ error: parsed }, 400);
+
+  const existing = await getGeofence(id).catch(() => null);
+  if (!existing) return c.json({ error: "Geofence not found" }, 404);
+
+  const shapeError = checkGeofenceShape({ ...existing, ...parsed });
+  if (shapeError) return c.json({ error: shapeError }, 400);
+
+  try {
+    const row = await updateGeofence(id, parsed);
+    invalidateGeofences();
+    if (!row) return c.json({ error: "Geofence not found" }, 404);
+    return c.json(row);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * DELETE /geofences/:id
+ * Removes the fence together with its events and device state.
+ */
+app.delete("/geofences/:id{[0-9]+}", requireScope("geofences:write"), async (c) => {
+  try {
+    const existed = await deleteGeofence(Number(c.req.param("id")));
+    invalidateGeofences();
+    if (!existed) return c.json({ error: "Geofence not found" }, 404);
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /geofences/:id/events
+ * GET /devices/:imei/geofence-events
+ * Enter / exit / dwell events, newest first.
+ *
+ * Query params: limit (default 100, max 1000), from, to.
+ */
+app.get("/geofences/:id{[0-9]+}/events", requireScope("geofences:read"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+
+  try {
+    const imeis = visibleImeis(c, null);
+    const filter = { geofenceId: Number(c.req.param("id")), imeis: imeis ? [...imeis] : undefined };
+    return c.json(await listGeofenceEvents(filter, range, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.get("/devices/:imei/geofence-events", requireScope("geofences:read"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+
+  try {
+    return c.json(await listGeofenceEvents({ imei: c.req.param("imei") }, range, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── Trips ─────────────────────────────────────────────────────────────────────
+
+/**
+ * GET /devices/:imei/trips
+ * Trips segmented from ignition / movement / speed (see trips.ts), newest
+ * first. The trip in progress, if any, has status "open".
+ *
+ * Query params: limit (default 50, max 1000), from, to (applied to start_time).
+ */
+app.get("/devices/:imei/trips", requireScope("positions:read"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 50), 1), 1000);
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+
+  try {
+    return c.json(await listTrips(c.req.param("imei"), range, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /trips/:id
+ * One trip plus its track: every position between start and end, oldest
+ * first.
+ */
+app.get("/trips/:id{[0-9]+}", requireScope("positions:read"), async (c) => {
+  try {
+    const trip = await getTrip(Number(c.req.param("id")));
+    const imeis = visibleImeis(c, null);
+    if (!trip || (imeis !== null && !imeis.has(trip.imei))) return c.json({ error: "Trip not found" }, 404);
+
+    const track = [];
+    const range = { from: trip.start_time, to: trip.end_time };
+    for await (const page of trackPages(trip.imei, range, 1000)) {
+      for (const p of page) {
+        track.push({ gps_time: p.gps_time, latitude: p.latitude, longitude: p.longitude, speed: p.speed, angle: p.angle });
+      }
+    }
+
+    return c.json({ ...trip, track });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── Reports ───────────────────────────────────────────────────────────────────
+
+const REPORT_MAX_DAYS = 366;
+
+/**
+ * Shared handler for the mileage report routes. `imei` null means the whole
+ * fleet (optionally narrowed with imeis=a,b,c).
+ */
+async function mileageResponse(c: Context<ApiEnv>, imei: string | null) {
+  const from = c.req.query("from");
+  const to = c.req.query("to");
+  const tz = c.req.query("tz") ?? "UTC";
+  const format = c.req.query("format") ?? "json";
+
+  if (!from || !to || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return c.json({ error: "from and to must be ISO 8601 timestamps" }, 400);
+  }
+  if (Date.parse(to) - Date.parse(from) > REPORT_MAX_DAYS * 86_400_000) {
+    return c.json({ error: `Range may span at most ${REPORT_MAX_DAYS} days` }, 400);
+  }
+  if (!isTimeZone(tz)) return c.json({ error: `Unknown time zone "${tz}"` }, 400);
+  if (format !== "json" && format !== "csv") return c.json({ error: "format must be json or csv" }, 400);
+
+  try {
+    let devices;
+    if (imei !== null) {
+      const device = await getDevice(imei);
+      if (!device) return c.json({ error: "Device not found" }, 404);
+      devices = [device];
+    } else {
+      const imeis = visibleImeis(c, parseImeiList(c.req.query("imeis")));
+      devices = (await listDevices()).filter((d) => imeis === null || imeis.has(d.imei));
+    }
+
+    const report = await mileageReport(devices, { from, to }, tz);
+    if (format === "json") return c.json(report);
+
+    c.header("Content-Type", "text/csv; charset=utf-8");
+    c.header("Content-Disposition", `attachment; filename="mileage-${imei ?? "fleet"}.csv"`);
+    return c.body(mileageCsv(report));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+}
+
+/**
+ * GET /reports/mileage
+ * Daily distance, engine hours and idle hours per device (see reports.ts):
+ * { from, to, tz, totals: [per device], days: [per device and local day] }.
+ *
+ * Query params: from, to (required, at most 366 days apart), tz (IANA name,
+ * default UTC — sets where days start), imeis (comma-separated, default all
+ * devices), group, format (json | csv; CSV has one row per device and day).
+ */
+app.get("/reports/mileage", requireScope("positions:read"), (c) => mileageResponse(c, null));
+
+/**
+ * GET /devices/:imei/reports/mileage
+ * The mileage report for a single device. Same query params and response as
+ * /reports/mileage.
+ */
+app.get("/devices/:imei/reports/mileage", requireScope("positions:read"), (c) => mileageResponse(c, c.req.param("imei")));
+
+// ── Alerts ────────────────────────────────────────────────────────────────────
+
+const ALERT_OPERATORS = new Set(["lt", "lte", "gt", "gte", "eq", "neq"]);
+const ALERT_STATUSES = new Set<AlertStatus>(["open", "acknowledged", "resolved"]);
+
+/**
+ * Validates an alert rule body. With `partial`, only the fields present are
+ * checked (PATCH).
+ */
+function parseAlertRule(body: Record<string, unknown>, partial: boolean): Partial<AlertRuleInput> | string {
+  const out: Partial<AlertRuleInput> = {};
+  const has = (k: string) => body[k] !== undefined;
+
+  if (has("name") || !partial) {
+    if (typeof body.name !== "string" || body.name.trim() === "") return "name is required";
+    out.name = body.name.trim();
+  }
+  if (has("field") || !partial) {
+    if (typeof body.field !== "string" || !isAlertField(body.field)) {
+      return "field must be a record field, AVL dictionary name or promoted column";
+    }
+    out.field = body.field;
+  }
+  if (has("operator") || !partial) {
+    if (typeof body.operator !== "string" || !ALERT_OPERATORS.has(body.operator)) {
+      return "operator must be one of lt, lte, gt, gte, eq, neq";
+    }
+    out.operator = body.operator as AlertRuleInput["operator"];
+  }
+  if (has("threshold") || !partial) {
+    if (typeof body.threshold === "boolean") out.threshold = body.threshold ? 1 : 0;
+    else if (typeof body.threshold === "number") out.threshold = body.threshold;
+    else return "threshold must be a number or boolean";
+  }
+  for (const key of ["duration_s", "hysteresis", "cooldown_s"] as const) {
+    if (!has(key)) continue;
+    const v = body[key];
+    if (typeof v !== "number" || v < 0) return `${key} must be a non-negative number`;
+    out[key] = v;
+  }
+  if (has("enabled")) {
+    if (typeof body.enabled !== "boolean") return "enabled must be a boolean";
+    out.enabled = body.enabled;
+  }
+  if (has("imeis")) {
+    const imeis = body.imeis;
+    if (imeis !== null && !(Array.isArray(imeis) && imeis.every((i) => typeof i === "string"))) {
+      return "imeis must be an array of IMEIs or null (whole fleet)";
+    }
+    out.imeis = imeis as string[] | null;
+  }
+
+  return out;
+}
+
+/**
+ * GET /alert-rules
+ * All alert rules that apply to the caller's devices; `imeis` only lists
+ * devices the caller may see.
+ *
+ * Query params: group.
+ */
+app.get("/alert-rules", requireScope("alerts:read"), async (c) => {
+  try {
+    return c.json((await listAlertRules()).flatMap((r) => visibleTargets(c, r) ?? []));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * POST /alert-rules
+ * Create a rule: { name, field, operator, threshold }. Optional: duration_s,
+ * hysteresis, cooldown_s (default 0), enabled (default true), imeis (omit /
+ * null = whole fleet). See alerts.ts for the semantics.
+ */
+app.post("/alert-rules", requireScope("alerts:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = parseAlertRule(body, false);
+  if (typeof parsed === "string") return c.json({ error: parsed }, 400);
+
+  const input: AlertRuleInput = {
+    name: parsed.name!,
+    field: parsed.field!,
+    operator: parsed.operator!,
+    threshold: parsed.threshold!,
+    duration_s: parsed.duration_s ?? 0,
+    hysteresis: parsed.hysteresis ?? 0,
+    cooldown_s: parsed.cooldown_s ?? 0,
+    imeis: parsed.imeis ?? null,
+    enabled: parsed.enabled ?? true,
+  };
+
+  try {
+    const row = await createAlertRule(input);
+    invalidateAlertRules();
+    return c.json(row, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /alert-rules/:id
+ * PATCH /alert-rules/:id — any subset of the POST fields
+ * DELETE /alert-rules/:id — also deletes the rule's alerts
+ */
+app.get("/alert-rules/:id{[0-9]+}", requireScope("alerts:read"), async (c) => {
+  const row = await getAlertRule(Number(c.req.param("id"))).catch(() => null);
+  const rule = row && visibleTargets(c, row);
+  if (!rule) return c.json({ error: "Alert rule not found" }, 404);
+  return c.json(rule);
+});
+
+app.patch("/alert-rules/:id{[0-9]+}", requireScope("alerts:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = parseAlertRule(body, true);
+  if (typeof parsed === "string") return c.json({ error: parsed }, 400);
+
+  try {
+    const row = await updateAlertRule(Number(c.req.param("id")), parsed);
+    invalidateAlertRules();
+    if (!row) return c.json({ error: "Alert rule not found" }, 404);
+    return c.json(row);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.delete("/alert-rules/:id{[0-9]+}", requireScope("alerts:write"), async (c) => {
+  try {
+    const existed = await deleteAlertRule(Number(c.req.param("id")));
+    invalidateAlertRules();
+    if (!existed) return c.json({ error: "Alert rule not found" }, 404);
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /alerts
+ * Alerts, newest first.
+ *
+ * Query params: imei, group, rule_id, status (comma-separated, e.g.
+ * open,acknowledged), limit (default 100, max 1000), from, to (applied to
+ * opened_at).
+ */
+app.get("/alerts", requireScope("alerts:read"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+  const ruleId = c.req.query("rule_id");
+  const status = c.req.query("status");
+
+  const statuses = status?.split(",").map((s) => s.trim()) as AlertStatus[] | undefined;
+  if (statuses?.some((s) => !ALERT_STATUSES.has(s))) {
+    return c.json({ error: "status must be open, acknowledged and/or resolved" }, 400);
+  }
+
+  const imei = c.req.query("imei");
+  const principal = c.get("principal");
+  if (imei && !canSeeImei(principal, imei)) return c.json({ error: "API key is not allowed to access this device" }, 403);
+  const imeis = visibleImeis(c, null);
+
+  try {
+    const filter = {
+      imei,
+      imeis: imeis ? [...imeis] : undefined,
+      ruleId: ruleId ? Number(ruleId) : undefined,
+      statuses,
+    };
+    return c.json(await listAlerts(filter, range, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * PATCH /alerts/:id
+ * Body: { status: "acknowledged" | "resolved" }. Resolved alerts are final;
+ * resolving by hand lets the rule fire again for the device after its
+ * cooldown.
+ */
+app.patch("/alerts/:id{[0-9]+}", requireScope("alerts:write"), async (c) => {
+  const id = Number(c.req.param("id"));
+  const body = await jsonBody<{ status?: string }>(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const { status } = body;
+  if (status !== "acknowledged" && status !== "resolved") {
+    return c.json({ error: "status must be acknowledged or resolved" }, 400);
+  }
+
+  try {
+    const alert = await getAlert(id);
+    if (!alert) return c.json({ error: "Alert not found" }, 404);
+    if (alert.status === "resolved") return c.json({ error: "Alert is already resolved" }, 409);
+    if (alert.status === status) return c.json(alert);
+
+    const now = new Date().toISOString();
+    const patch: AlertPatch = status === "acknowledged"
+      ? { status, acknowledged_at: now }
+      : { status, resolved_at: now };
+
+    const row = await updateAlert(id, patch);
+    if (!row) return c.json({ error: "Alert not found" }, 404);
+
+    if (status === "resolved") {
+      const rule = await getAlertRule(row.rule_id);
+      forgetAlert(row, rule?.cooldown_s ?? 0);
+    }
+    return c.json(row);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── Webhooks ──────────────────────────────────────────────────────────────────
+
+const WEBHOOK_EVENTS = new Set(["position", "status", "io_event"]);
+const DELIVERY_STATUSES = new Set(["pending", "delivered", "failed"]);
+
+/** Subscriptions as returned by the API — the secret is only shown on create. */
+function publicWebhook({ secret: _secret, ...rest }: WebhookRow) {
+  return rest;
+}
+
+/**
+ * Validates a webhook body. With `partial`, only the fields present are
+ * checked (PATCH).
+ */
+function parseWebhook(body: Record<string, unknown>, partial: boolean): Partial<WebhookInput> | string {
+  const out: Partial<WebhookInput> = {};
+  const has = (k: string) => body[k] !== undefined;
+
+  if (has("url") || !partial) {
+    let url: URL | null = null;
+    try {
+      url = new URL(String(body.url));
+    } catch {
+      // fall through
+    }
+    if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) return "url must be an http(s) URL";
+    out.url = url.toString();
+  }
+  if (has("events") || !partial) {
+    const events = body.events;
+    if (!Array.isArray(events) || events.length === 0 || !events.every((e) => WEBHOOK_EVENTS.has(e))) {
+      return "events must be a non-empty array of position, status, io_event";
+    }
+    out.events = [...new Set(events)] as WebhookInput["events"];
+  }
+  if (has("secret")) {
+    if (typeof body.secret !== "string" || body.secret.length < 16) return "secret must be at least 16 characters";
+    out.secret = body.secret;
+  }
+  if (has("event_io_ids")) {
+    const ids = body.event_io_ids;
+    if (ids !== null && !(Array.isArray(ids) && ids.every((i) => Number.isInteger(i) && i > 0))) {
+      return "event_io_ids must be an array of AVL IO ids or null";
+    }
+    out.event_io_ids = ids as number[] | null;
+  }
+  if (has("imeis")) {
+    const imeis = body.imeis;
+    if (imeis !== null && !(Array.isArray(imeis) && imeis.every((i) => typeof i === "string"))) {
+      return "imeis must be an array of IMEIs or null (whole fleet)";
+    }
+    out.imeis = imeis as string[] | null;
+  }
+  if (has("enabled")) {
+    if (typeof body.enabled !== "boolean") return "enabled must be a boolean";
+    out.enabled = body.enabled;
+  }
+
+  return out;
+}
+
+/**
+ * GET /webhooks
+ * All subscriptions (without secrets).
+ */
+app.get("/webhooks", requireScope("webhooks:read"), async (c) => {
+  try {
+    return c.json((await listWebhooks()).map(publicWebhook));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * POST /webhooks
+ * Subscribe: { url, events: ["position" | "status" | "io_event", …] }.
+ * Optional: event_io_ids (for io_event), imeis (omit / null = whole fleet),
+ * enabled, secret (generated when omitted). The response is the only place
+ * the secret is returned.
+ */
+app.post("/webhooks", requireScope("webhooks:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = parseWebhook(body, false);
+  if (typeof parsed === "string") return c.json({ error: parsed }, 400);
+
+  const input: WebhookInput = {
+    url: parsed.url!,
+    secret: parsed.secret ?? crypto.randomBytes(24).toString("hex"),
+    events: parsed.events!,
+    event_io_ids: parsed.event_io_ids ?? null,
+    imeis: parsed.imeis ?? null,
+    enabled: parsed.enabled ?? true,
+  };
+
+  try {
+    const row = await createWebhook(input);
+    invalidateWebhooks();
+    return c.json(row, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /webhooks/:id
+ * PATCH /webhooks/:id — any subset of the POST fields
+ * DELETE /webhooks/:id — also deletes the delivery log
+ */
+app.get("/webhooks/:id{[0-9]+}", requireScope("webhooks:read"), async (c) => {
+  const webhook = await getWebhook(Number(c.req.param("id"))).catch(() => null);
+  if (!webhook) return c.json({ error: "Webhook not found" }, 404);
+  return c.json(publicWebhook(webhook));
+});
+
+app.patch("/webhooks/:id{[0-9]+}", requireScope("webhooks:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const parsed = parseWebhook(body, true);
+  if (typeof parsed === "string") return c.json({ error: parsed }, 400);
+
+  try {
+    const row = await updateWebhook(Number(c.req.param("id")), parsed);
+    invalidateWebhooks();
+    if (!row) return c.json({ error: "Webhook not found" }, 404);
+    return c.json(publicWebhook(row));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.delete("/webhooks/:id{[0-9]+}", requireScope("webhooks:write"), async (c) => {
+  try {
+    const existed = await deleteWebhook(Number(c.req.param("id")));
+    invalidateWebhooks();
+    if (!existed) return c.json({ error: "Webhook not found" }, 404);
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /webhooks/:id/deliveries
+ * Delivery log, newest first: attempts, last HTTP status / error, payload.
+ *
+ * Query params: status (pending | delivered | failed), limit (default 100, max 1000).
+ */
+app.get("/webhooks/:id{[0-9]+}/deliveries", requireScope("webhooks:read"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const status = c.req.query("status");
+  if (status && !DELIVERY_STATUSES.has(status)) {
+    return c.json({ error: "status must be pending, delivered or failed" }, 400);
+  }
+
+  try {
+    const filter = { webhookId: Number(c.req.param("id")), status: status as WebhookDeliveryStatus | undefined };
+    return c.json(await listWebhookDeliveries(filter, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── Organisations ─────────────────────────────────────────────────────────────
+
+/**
+ * GET /organisations
+ * POST /organisations — { name }
+ * PATCH /organisations/:id — { name }
+ * DELETE /organisations/:id — only once it has no devices, groups or API keys
+ *   left. Revoked keys count too: their rows stay for the audit log, so an
+ *   organisation that ever had a key is kept.
+ *
+ * Devices are assigned with PATCH /devices/:imei { organisation_id }; keys
+ * for a customer are created with POST /api-keys { organisation_id }.
+ */
+app.get("/organisations", requireScope("admin"), async (c) => {
+  try {
+    return c.json(await listOrganisations());
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.post("/organisations", requireScope("admin"), async (c) => {
+  const body = await jsonBody<{ name?: unknown }>(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const { name } = body;
+  if (typeof name !== "string" || name.trim() === "") return c.json({ error: "name is required" }, 400);
+
+  try {
+    return c.json(await createOrganisation(name.trim()), 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.patch("/organisations/:id{[0-9]+}", requireScope("admin"), async (c) => {
+  const body = await jsonBody<{ name?: unknown }>(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const { name } = body;
+  if (typeof name !== "string" || name.trim() === "") return c.json({ error: "name is required" }, 400);
+
+  try {
+    const row = await updateOrganisation(Number(c.req.param("id")), name.trim());
+    if (!row) return c.json({ error: "Organisation not found" }, 404);
+    return c.json(row);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.delete("/organisations/:id{[0-9]+}", requireScope("admin"), async (c) => {
+  const id = Number(c.req.param("id"));
+  try {
+    const devices = (await listDevices()).filter((d) => d.organisation_id === id).length;
+    const groups = (await listGroups(id)).length;
+    const keys = (await listApiKeys()).filter((k) => k.organisation_id === id).length;
+    if (devices > 0 || groups > 0 || keys > 0) {
+      return c.json({ error: `Organisation still has ${devices} device(s), ${groups} group(s) and ${keys} API key(s)` }, 409);
+    }
+    if (!(await deleteOrganisation(id))) return c.json({ error: "Organisation not found" }, 404);
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── Groups ────────────────────────────────────────────────────────────────────
+
+/** The group behind an `:id` param, or null if it does not exist or belongs to another organisation. */
+async function visibleGroup(c: Context<ApiEnv>): Promise<GroupRow | null> {
+  const group = await getGroup(Number(c.req.param("id")));
+  return group && (await canSeeGroup(c.get("principal"), group)) ? group : null;
+}
+
+/**
+ * Checks that `parentId` can enclose a group of `organisationId` (and, for an
+ * existing group `id`, that it is not the group itself or one of its
+ * subgroups). Returns an error message, or null if it can.
+ */
+async function checkParent(organisationId: number, parentId: number, id?: number): Promise<string | null> {
+  const groups = await listGroups(organisationId);
+  if (!groups.some((g) => g.id === parentId)) return "parent_id must be a group of the same organisation";
+  if (id !== undefined && createsCycle(groups, id, parentId)) return "parent_id cannot be the group itself or one of its subgroups";
+  return null;
+}
+
+/**
+ * GET /groups
+ * Device groups, oldest first. Organisation keys see their own organisation's
+ * groups only; platform keys limited to some devices see the groups holding
+ * one of them.
+ *
+ * Query params: organisation_id.
+ */
+app.get("/groups", requireScope("groups:read"), async (c) => {
+  const principal = c.get("principal");
+  const requested = c.req.query("organisation_id");
+  const organisationId = principal.organisationId ?? (requested ? Number(requested) : undefined);
+
+  try {
+    const groups = await listGroups(organisationId);
+    const visible = await Promise.all(groups.map((g) => canSeeGroup(principal, g)));
+    return c.json(groups.filter((_, i) => visible[i]));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * POST /groups
+ * Body: { name: string, parent_id?: number | null, organisation_id?: number }
+ *
+ * organisation_id is required for platform keys and implied for organisation
+ * keys. A parent must belong to the same organisation.
+ */
+app.post("/groups", requireScope("groups:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const principal = c.get("principal");
+
+  if (typeof body.name !== "string" || body.name.trim() === "") return c.json({ error: "name is required" }, 400);
+  const organisationId = principal.organisationId ?? body.organisation_id;
+  if (!Number.isInteger(organisationId)) return c.json({ error: "organisation_id is required" }, 400);
+  if (body.organisation_id !== undefined && body.organisation_id !== organisationId) {
+    return c.json({ error: "API key cannot create groups for another organisation" }, 403);
+  }
+  const parentId = body.parent_id ?? null;
+  if (parentId !== null && !Number.isInteger(parentId)) return c.json({ error: "parent_id must be a group id or null" }, 400);
+
+  try {
+    if (!(await getOrganisation(organisationId as number))) return c.json({ error: "organisation_id does not exist" }, 400);
+    const parentError = parentId === null ? null : await checkParent(organisationId as number, parentId as number);
+    if (parentError) return c.json({ error: parentError }, 400);
+
+    const row = await createGroup({
+      organisation_id: organisationId as number,
+      parent_id: parentId as number | null,
+      name: body.name.trim(),
+    });
+    return c.json(row, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /groups/:id — the group plus its direct members ("imeis"); use
+ *   GET /devices?group=:id for every device including subgroups
+ * PATCH /groups/:id — { name?, parent_id? }
+ * DELETE /groups/:id — only once it has no subgroups; memberships go with it
+ */
+app.get("/groups/:id{[0-9]+}", requireScope("groups:read"), async (c) => {
+  try {
+    const group = await visibleGroup(c);
+    if (!group) return c.json({ error: "Group not found" }, 404);
+
+    const imeis = visibleImeis(c, null);
+    const members = (await listGroupMembers([group.id])).filter((m) => imeis === null || imeis.has(m.imei));
+    return c.json({ ...group, imeis: members.map((m) => m.imei) });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.patch("/groups/:id{[0-9]+}", requireScope("groups:write"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const patch: Partial<Pick<GroupRow, "name" | "parent_id">> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || body.name.trim() === "") return c.json({ error: "name must be a non-empty string" }, 400);
+    patch.name = body.name.trim();
+  }
+  if (body.parent_id !== undefined) {
+    if (body.parent_id !== null && !Number.isInteger(body.parent_id)) {
+      return c.json({ error: "parent_id must be a group id or null" }, 400);
+    }
+    patch.parent_id = body.parent_id as number | null;
+  }
+
+  try {
+    const group = await visibleGroup(c);
+    if (!group) return c.json({ error: "Group not found" }, 404);
+    if (patch.parent_id !== undefined && patch.parent_id !== null) {
+      const parentError = await checkParent(group.organisation_id, patch.parent_id, group.id);
+      if (parentError) return c.json({ error: parentError }, 400);
+    }
+
+    return c.json(await updateGroup(group.id, patch));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+app.delete("/groups/:id{[0-9]+}", requireScope("groups:write"), async (c) => {
+  try {
+    const group = await visibleGroup(c);
+    if (!group) return c.json({ error: "Group not found" }, 404);
+    if ((await listGroups(group.organisation_id)).some((g) => g.parent_id === group.id)) {
+      return c.json({ error: "Group still has subgroups" }, 409);
+    }
+
+    await deleteGroup(group.id);
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * POST /groups/:id/devices
+ * Body: { imeis: string[] }. Adds devices to the group; they must belong to
+ * the group's organisation. Devices already in the group are left as they are.
+ */
+app.post("/groups/:id{[0-9]+}/devices", requireScope("groups:write"), async (c) => {
+  const body = await jsonBody<{ imeis?: unknown }>(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+  const { imeis } = body;
+  if (!Array.isArray(imeis) || imeis.length === 0 || !imeis.every((i) => typeof i === "string")) {
+    return c.json({ error: "imeis must be a non-empty array of IMEI strings" }, 400);
+  }
+
+  try {
+    const group = await visibleGroup(c);
+    if (!group) return c.json({ error: "Group not found" }, 404);
+
+    const principal = c.get("principal");
+    const owned = new Set(
+      (await listDevices())
+        .filter((d) => d.organisation_id === group.organisation_id && canSeeImei(principal, d.imei))
+        .map((d) => d.imei)
+    );
+    const foreign = imeis.filter((imei) => !owned.has(imei));
+    if (foreign.length > 0) {
+      return c.json({ error: `Not devices of the group's organisation: ${foreign.join(", ")}` }, 400);
+    }
+
+    await addGroupMembers(group.id, [...new Set(imeis as string[])]);
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * DELETE /groups/:id/devices/:imei
+ * Removes a device from the group (not from its subgroups).
+ */
+app.delete("/groups/:id{[0-9]+}/devices/:imei", requireScope("groups:write"), async (c) => {
+  try {
+    const group = await visibleGroup(c);
+    if (!group) return c.json({ error: "Group not found" }, 404);
+    if (!(await removeGroupMember(group.id, c.req.param("imei")))) {
+      return c.json({ error: "Device is not in this group" }, 404);
+    }
+    return c.json({ success: true });
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+// ── API keys ──────────────────────────────────────────────────────────────────
+
+/** API key row without its hash. */
+function publicApiKey({ key_hash: _hash, ...rest }: ApiKeyRow) {
+  return rest;
+}
+
+/**
+ * GET /api-keys
+ * Every key, revoked ones included. Hashes are never returned.
+ */
+app.get("/api-keys", requireScope("admin"), async (c) => {
+  try {
+    return c.json((await listApiKeys()).map(publicApiKey));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * POST /api-keys
+ * Body: { name: string, scopes: string[], imeis?: string[] | null,
+ *         organisation_id?: number | null }
+ *
+ * The response is the only time the key itself is shown ("key" field) —
+ * store it then. See auth.ts for the scopes.
+ */
+app.post("/api-keys", requireScope("admin"), async (c) => {
+  const body = await jsonBody(c);
+  if (!body) return c.json({ error: "Request body must be a JSON object" }, 400);
+
+  if (typeof body.name !== "string" || body.name.trim() === "") return c.json({ error: "name is required" }, 400);
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0 ||
+      !body.scopes.every((s) => API_SCOPES.includes(s as ApiScope))) {
+    return c.json({ error: `scopes must be a non-empty array of: ${API_SCOPES.join(", ")}` }, 400);
+  }
+  const imeis = body.imeis ?? null;
+  if (imeis !== null && (!Array.isArray(imeis) || imeis.length === 0 || !imeis.every((i) => typeof i === "string"))) {
+    return c.json({ error: "imeis must be a non-empty array of IMEI strings or null" }, 400);
+  }
+  const organisationId = body.organisation_id ?? null;
+  if (organisationId !== null && !Number.isInteger(organisationId)) {
+    return c.json({ error: "organisation_id must be an integer or null" }, 400);
+  }
+  const scopes = [...new Set(body.scopes as ApiScope[])];
+  const fleetWide = scopes.filter((s) => FLEET_WIDE_SCOPES.has(s));
+  if (imeis !== null && (fleetWide.length > 0 || scopes.includes("groups:write"))) {
+    const denied = [...fleetWide, ...scopes.filter((s) => s === "groups:write")];
+    return c.json({ error: `${denied.join(", ")} cannot be granted to a key limited to imeis` }, 400);
+  }
+  if (organisationId !== null && fleetWide.length > 0) {
+    return c.json({ error: `${fleetWide.join(", ")} cannot be granted to an organisation key` }, 400);
+  }
+
+  const { key, prefix, hash } = generateApiKey();
+  try {
+    if (organisationId !== null && !(await getOrganisation(organisationId as number))) {
+      return c.json({ error: "organisation_id does not exist" }, 400);
+    }
+    const row = await createApiKey({
+      name: body.name.trim(),
+      key_prefix: prefix,
+      key_hash: hash,
+      scopes,
+      imeis: imeis as string[] | null,
+      organisation_id: organisationId as number | null,
+    });
+    return c.json({ ...publicApiKey(row), key }, 201);
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * DELETE /api-keys/:id
+ * Revokes a key. The row stays (with revoked_at set) so the audit log keeps
+ * its name.
+ */
+app.delete("/api-keys/:id{[0-9]+}", requireScope("admin"), async (c) => {
+  try {
+    const row = await updateApiKey(Number(c.req.param("id")), { revoked_at: new Date().toISOString() });
+    if (!row) return c.json({ error: "API key not found" }, 404);
+    invalidateApiKeys();
+    return c.json(publicApiKey(row));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
+/**
+ * GET /audit-log
+ * Write requests (POST / PATCH / DELETE) made through the API, newest first:
+ * who (api_key_id, actor), what (method, path, body with secrets redacted)
+ * and the response status.
+ *
+ * Query params: api_key_id, imei, limit (default 100, max 1000), from, to.
+ */
+app.get("/audit-log", requireScope("admin"), async (c) => {
+  const limitParam = Math.min(Math.max(Number(c.req.query("limit") ?? 100), 1), 1000);
+  const range = { from: c.req.query("from"), to: c.req.query("to") };
+  const apiKeyId = c.req.query("api_key_id");
+
+  try {
+    const filter = { apiKeyId: apiKeyId ? Number(apiKeyId) : undefined, imei: c.req.query("imei") };
+    return c.json(await listAuditLog(filter, range, limitParam));
+  } catch (err) {
+    return c.json({ error: (err as Error).message }, 500);
+  }
+});
+
 // ── Start ─────────────────────────────────────────────────────────────────────
 
 const HTTP_PORT = Number(process.env.HTTP_PORT || 3000);
 
-serve({ fetch: app.fetch, port: HTTP_PORT, hostname: "0.0.0.0" }, () => {
+// Unsent bytes allowed per WebSocket client before it is dropped as too slow
+const WS_MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+
+const httpServer = serve({ fetch: app.fetch, port: HTTP_PORT, hostname: "0.0.0.0" }, () => {
   console.log(`[*] HTTP API listening on port ${HTTP_PORT}`);
+  if (authDisabled) console.warn("[!] API_AUTH=off — the HTTP API accepts requests without a key");
 });
+
+/**
+ * WS /fleet/ws
+ * WebSocket equivalent of GET /fleet/stream: one JSON message per event, the
+ * same { id, type, imei, at, data } shape. Query params: imeis, group,
+ * last_event_id, api_key (browsers cannot set headers on WebSocket requests).
+ * A { type: "reset" } message is sent first when last_event_id cannot be
+ * resumed. Clients that fall behind are closed with code 1013 and should
+ * reconnect with the last id they received.
+ */
+const wss = new WebSocketServer({ noServer: true });
+
+httpServer.on("upgrade", async (req, socket, head) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (url.pathname !== "/fleet/ws") {
+    socket.destroy();
+    return;
+  }
+
+  const reject = (status: string) => {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  };
+  const header = req.headers["x-api-key"];
+  const key = presentedKey(
+    { authorization: req.headers.authorization, apiKey: Array.isArray(header) ? header[0] : header },
+    url.searchParams.get("api_key")
+  );
+  const principal = await authenticate(key).catch(() => null);
+  if (!principal) return reject("401 Unauthorized");
+  if (!hasScope(principal, "positions:read")) return reject("403 Forbidden");
+  let members;
+  try {
+    members = await groupFilter(principal, url.searchParams.get("group"));
+  } catch {
+    return reject("500 Internal Server Error");
+  }
+  if (members === undefined) return reject("404 Not Found");
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    const events = openEventStream(
+      url.searchParams.get("last_event_id") ?? undefined,
+      narrowImeis(parseImeiList(url.searchParams.get("imeis")), principal.imeis, members)
+    );
+    ws.on("close", () => events.close());
+    ws.on("error", () => events.close());
+
+    (async () => {
+      if (events.reset) ws.send(JSON.stringify({ type: "reset" }));
+      for (let e = await events.next(); e; e = await events.next()) {
+        if (ws.readyState !== WebSocket.OPEN) break;
+        if (ws.bufferedAmount > WS_MAX_BUFFERED_BYTES) break;
+        ws.send(JSON.stringify(e));
+      }
+      events.close();
+      if (ws.readyState === WebSocket.OPEN) ws.close(1013, "client fell behind");
+    })();
+  });
+});
+
+/**
+ * Stops accepting HTTP requests and closes live WebSocket clients (they
+ * reconnect and resume with their last event id).
+ */
+export function stopApi(): void {
+  httpServer.close();
+  for (const ws of wss.clients) ws.close(1001, "server shutting down");
+}
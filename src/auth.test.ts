@@ -0,0 +1,90 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { ApiScope } from "./db.js";
+
+// Read when the module loads
+process.env.API_AUTH = "keys";
+process.env.API_ADMIN_KEY = "bootstrap-secret";
+
+let auth: typeof import("./auth.js");
+let db: typeof import("./db.js");
+
+before(async () => {
+  db = await import("./db.js");
+  auth = await import("./auth.js");
+});
+
+async function createKey(scopes: ApiScope[], imeis: string[] | null, organisationId: number | null = null) {
+  const { key, prefix, hash } = auth.generateApiKey();
+  const row = await db.createApiKey({
+    name: "test", key_prefix: prefix, key_hash: hash, scopes, imeis, organisation_id: organisationId,
+  });
+  return { key, row };
+}
+
+test("keys are stored hashed and resolve to their scopes and devices", async () => {
+  const { key, row } = await createKey(["positions:read"], ["356307046452001"]);
+  assert.match(key, /^tk_/);
+  assert.equal(row.key_hash, auth.hashApiKey(key));
+  assert.ok(key.startsWith(row.key_prefix));
+
+  const principal = await auth.authenticate(key);
+  assert.equal(principal?.keyId, row.id);
+  assert.equal(auth.hasScope(principal!, "positions:read"), true);
+  assert.equal(auth.hasScope(principal!, "devices:write"), false);
+  assert.equal(auth.canSeeImei(principal!, "356307046452001"), true);
+  assert.equal(auth.canSeeImei(principal!, "356307046452002"), false);
+});
+
+test("admin keys hold every scope and see every device", async () => {
+  const admin = await auth.authenticate("bootstrap-secret");
+  assert.equal(admin?.name, "bootstrap-admin");
+  assert.equal(auth.hasScope(admin!, "webhooks:write"), true);
+  assert.equal(auth.canSeeImei(admin!, "356307046452002"), true);
+});
+
+test("organisation keys see their organisation's devices, narrowed by imeis", async () => {
+  const org = await db.createOrganisation("Acme");
+  for (const imei of ["356307046452011", "356307046452012", "356307046452013"]) await db.upsertDevice(imei);
+  await db.setDeviceOrganisation("356307046452011", org.id);
+  await db.setDeviceOrganisation("356307046452012", org.id);
+
+  const whole = await auth.authenticate((await createKey(["devices:read"], null, org.id)).key);
+  assert.deepEqual([...whole!.imeis!].sort(), ["356307046452011", "356307046452012"]);
+  assert.equal(auth.canSeeOrganisation(whole!, org.id), true);
+  assert.equal(auth.canSeeOrganisation(whole!, org.id + 1), false);
+
+  const narrowed = await auth.authenticate((await createKey(["devices:read"], ["356307046452012", "356307046452013"], org.id)).key);
+  assert.deepEqual([...narrowed!.imeis!], ["356307046452012"]);
+
+  const platform = await auth.authenticate((await createKey(["devices:read"], null)).key);
+  assert.equal(platform!.imeis, null);
+  assert.equal(auth.canSeeOrganisation(platform!, org.id), true);
+});
+
+test("missing, unknown and revoked keys are rejected", async () => {
+  assert.equal(await auth.authenticate(null), null);
+  assert.equal(await auth.authenticate("tk_unknown"), null);
+
+  // A miss is not cached: a key created right after a failed attempt works
+  const { key: late, prefix, hash } = auth.generateApiKey();
+  assert.equal(await auth.authenticate(late), null);
+  await db.createApiKey({
+    name: "late", key_prefix: prefix, key_hash: hash, scopes: ["devices:read"], imeis: null, organisation_id: null,
+  });
+  assert.equal((await auth.authenticate(late))?.name, "late");
+
+  const { key, row } = await createKey(["devices:read"], null);
+  assert.ok(await auth.authenticate(key));
+
+  await db.updateApiKey(row.id, { revoked_at: new Date().toISOString() });
+  auth.invalidateApiKeys();
+  assert.equal(await auth.authenticate(key), null);
+});
+
+test("fleet-wide scopes are the ones an IMEI-limited key cannot hold", () => {
+  for (const scope of ["admin", "geofences:write", "alerts:write", "webhooks:read", "webhooks:write"] as const) {
+    assert.equal(auth.FLEET_WIDE_SCOPES.has(scope), true, scope);
+  }
+  assert.equal(auth.FLEET_WIDE_SCOPES.has("positions:read"), false);
+});
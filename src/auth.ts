@@ -0,0 +1,168 @@
+/**
+ * API authentication.
+ *
+ * Every API request (except GET /health) carries an API key, either as
+ * `Authorization: Bearer <key>` or `X-API-Key: <key>`. Keys are random
+ * `tk_…` strings shown once when created; tracker_api_keys only stores their
+ * SHA-256 hash and a short prefix to tell them apart. Each key has:
+ *
+ *   scopes — what it may do:
+ *     devices:read / devices:write     — device list and details / label,
+ *                                        model, approve / block
+ *     positions:read                   — positions, exports, sensors, trips,
+ *                                        reports, live streams
+ *     commands:read / commands:send    — command history / queue commands
+ *     geofences:read / geofences:write
+ *     alerts:read / alerts:write       — alerts and rules / rule changes,
+ *                                        acknowledge / resolve
+ *     webhooks:read / webhooks:write
+ *     groups:read / groups:write       — device groups / group changes and
+ *                                        membership
+ *     metrics:read                     — GET /metrics (Prometheus scraping),
+ *                                        GET /health/spool
+ *     admin                            — everything, plus API keys,
+ *                                        organisations and the audit log
+ *   imeis  — optional list of devices the key is limited to. Fleet-wide
+ *            configuration scopes (geofences:write, alerts:write, webhooks:*,
+ *            metrics:read, admin) cannot be combined with it, nor can
+ *            groups:write.
+ *   organisation_id — optional customer the key acts for. The key then only
+ *            sees that organisation's devices (further narrowed by imeis, if
+ *            set) and groups, and cannot hold the fleet-wide scopes. Keys
+ *            without one are platform keys and see every organisation.
+ *
+ * API_ADMIN_KEY, if set, is accepted as an admin key without a database row,
+ * to create the first real keys. API_AUTH=off disables authentication (local
+ * development only): every request then acts as admin.
+ */
+
+import crypto from "node:crypto";
+import { getApiKeyByHash, listDevices, updateApiKey, type ApiKeyRow, type ApiScope } from "./db.js";
+
+type AuthMode = "keys" | "off";
+
+const MODE = parseMode(process.env.API_AUTH || "keys");
+const ADMIN_KEY = process.env.API_ADMIN_KEY || null;
+
+// Key lookups are cached briefly; revoking through the API clears the cache
+const KEY_CACHE_MS = 30_000;
+
+// last_used_at is written at most this often per key
+const TOUCH_INTERVAL_MS = 60_000;
+
+function parseMode(value: string): AuthMode {
+  if (value === "keys" || value === "off") return value;
+  throw new Error(`Unknown API_AUTH "${value}" (expected keys or off)`);
+}
+
+export const API_SCOPES: ApiScope[] = [
+  "devices:read", "devices:write",
+  "positions:read",
+  "commands:read", "commands:send",
+  "geofences:read", "geofences:write",
+  "alerts:read", "alerts:write",
+  "webhooks:read", "webhooks:write",
+  "groups:read", "groups:write",
+  "metrics:read",
+  "admin",
+];
+
+/** Scopes over fleet-wide configuration, which IMEI-limited and organisation keys cannot hold. */
+export const FLEET_WIDE_SCOPES = new Set<ApiScope>([
+  "geofences:write", "alerts:write", "webhooks:read", "webhooks:write", "metrics:read", "admin",
+]);
+
+export type Principal = {
+  /** Null for the bootstrap admin key and with API_AUTH=off. */
+  keyId: number | null;
+  name: string;
+  scopes: Set<ApiScope>;
+  /** Devices the caller may see; null means the whole fleet. */
+  imeis: Set<string> | null;
+  /** Organisation the caller acts for; null means every organisation. */
+  organisationId: number | null;
+};
+
+const ADMIN: Omit<Principal, "name"> = { keyId: null, scopes: new Set(["admin"]), imeis: null, organisationId: null };
+
+export const authDisabled = MODE === "off";
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** A new random key with the prefix and hash to store for it. */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = "tk_" + crypto.randomBytes(24).toString("base64url");
+  return { key, prefix: key.slice(0, 10), hash: hashApiKey(key) };
+}
+
+// Only keys that resolved are cached: unknown keys cost a lookup each, but
+// cannot grow the map (it holds at most one entry per key in the database)
+const keyCache = new Map<string, { principal: Principal; expires: number }>();
+const lastTouched = new Map<number, number>();
+
+/**
+ * Forgets cached keys so a revocation — or a device moving between
+ * organisations — applies to the next request.
+ */
+export function invalidateApiKeys(): void {
+  keyCache.clear();
+}
+
+function touch(keyId: number): void {
+  const now = Date.now();
+  if ((lastTouched.get(keyId) ?? 0) + TOUCH_INTERVAL_MS > now) return;
+  lastTouched.set(keyId, now);
+  updateApiKey(keyId, { last_used_at: new Date(now).toISOString() }).catch((err) =>
+    console.error(`[✗] Failed to update API key ${keyId} last use:`, err.message)
+  );
+}
+
+async function principalFor(row: ApiKeyRow): Promise<Principal> {
+  let imeis = row.imeis && new Set(row.imeis);
+  if (row.organisation_id !== null) {
+    const owned = (await listDevices())
+      .filter((d) => d.organisation_id === row.organisation_id && (imeis === null || imeis.has(d.imei)));
+    imeis = new Set(owned.map((d) => d.imei));
+  }
+  return { keyId: row.id, name: row.name, scopes: new Set(row.scopes), imeis, organisationId: row.organisation_id };
+}
+
+/** The caller behind a presented key, or null if the key is missing, unknown or revoked. */
+export async function authenticate(key: string | null): Promise<Principal | null> {
+  if (MODE === "off") return { ...ADMIN, name: "anonymous" };
+  if (!key) return null;
+
+  const hash = hashApiKey(key);
+  if (ADMIN_KEY && crypto.timingSafeEqual(Buffer.from(hash, "hex"), Buffer.from(hashApiKey(ADMIN_KEY), "hex"))) {
+    return { ...ADMIN, name: "bootstrap-admin" };
+  }
+
+  let cached = keyCache.get(hash);
+  if (!cached || cached.expires <= Date.now()) {
+    const row = await getApiKeyByHash(hash);
+    if (!row || row.revoked_at) {
+      keyCache.delete(hash);
+      return null;
+    }
+    cached = { principal: await principalFor(row), expires: Date.now() + KEY_CACHE_MS };
+    keyCache.set(hash, cached);
+  }
+
+  if (cached.principal.keyId) touch(cached.principal.keyId);
+  return cached.principal;
+}
+
+export function hasScope(principal: Principal, scope: ApiScope): boolean {
+  return principal.scopes.has("admin") || principal.scopes.has(scope);
+}
+
+/** Whether the caller may see an organisation's groups. */
+export function canSeeOrganisation(principal: Principal, organisationId: number): boolean {
+  return principal.organisationId === null || principal.organisationId === organisationId;
+}
+
+export function canSeeImei(principal: Principal, imei: string): boolean {
+  return principal.imeis === null || principal.imeis.has(imei);
+}
@@ -0,0 +1,74 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Dictionaries are loaded when the module loads: point it at a scratch
+// directory with a two-level chain, base → fleet → truck
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "avl-dict-test-"));
+process.env.AVL_DICT_DIR = dir;
+process.env.AVL_DEFAULT_MODEL = "fleet";
+
+const files = {
+  base: {
+    ids: {
+      "10": { name: "ain2", unit: "mV" },
+      "11": { name: "ain3", unit: "mV" },
+      "66": { name: "external_voltage", scale: 0.001, promoteAs: "external_voltage_v", unit: "V" },
+    },
+  },
+  fleet: {
+    description: "Fleet devices",
+    extends: "base",
+    ids: { "11": null, "72": { name: "dallas_temp_1", signed: true, scale: 0.1 } },
+  },
+  truck: {
+    extends: "fleet",
+    ids: { "10": { name: "fuel_level", scale: 0.1, unit: "l" }, "81": { name: "can_vehicle_speed" } },
+  },
+};
+
+let avl: typeof import("./avlDictionary.js");
+
+before(async () => {
+  for (const [model, file] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, `${model}.json`), JSON.stringify(file));
+  }
+  fs.writeFileSync(path.join(dir, "README.txt"), "not a dictionary");
+  avl = await import("./avlDictionary.js");
+});
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test("models inherit, override and remove entries along the extends chain", () => {
+  const truck = avl.dictionaryFor("truck");
+  assert.equal(truck[10].name, "fuel_level");
+  assert.equal(truck[11], undefined);
+  assert.equal(truck[66].promoteAs, "external_voltage_v");
+  assert.equal(truck[72].name, "dallas_temp_1");
+  assert.equal(truck[81].name, "can_vehicle_speed");
+
+  // The parent is unaffected by its children
+  const fleet = avl.dictionaryFor("fleet");
+  assert.equal(fleet[10].name, "ain2");
+  assert.equal(fleet[81], undefined);
+
+  assert.deepEqual(
+    avl.avlModels().map((m) => [m.model, m.extends]).sort(),
+    [["base", null], ["fleet", "base"], ["truck", "fleet"]]
+  );
+});
+
+test("devices without a known model use AVL_DEFAULT_MODEL", () => {
+  assert.equal(avl.DEFAULT_MODEL, "fleet");
+  assert.equal(avl.dictionaryFor(null), avl.AVL_DICT);
+  assert.equal(avl.dictionaryFor("fmx999"), avl.AVL_DICT);
+  assert.equal(avl.isAvlModel("truck"), true);
+  assert.equal(avl.isAvlModel("fmx999"), false);
+});
+
+test("unknown IO ids fall back to avl_<id>; promoted columns come from base.json", () => {
+  assert.deepEqual(avl.metaFor(999, avl.dictionaryFor("truck")), { name: "avl_999" });
+  assert.deepEqual(avl.PROMOTED_FIELDS, [{ key: "external_voltage", column: "external_voltage_v" }]);
+});
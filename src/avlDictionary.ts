@@ -1,16 +1,37 @@
 /**
- * Teltonika AVL ID dictionary — focused on FMC920 firmware capabilities.
+ * Teltonika AVL ID dictionaries, one per device model.
  *
  * Each entry tells the parser how to interpret a raw IO value (signed/unsigned,
  * scale factor, boolean conversion) and tells the DB layer which IDs to lift
  * into named columns on tracker_positions.
  *
+ * Dictionaries are JSON files in AVL_DICT_DIR (default: dictionaries/ at the
+ * project root), named after the model:
+ *
+ *   { "description": "…", "extends": "base", "ids": { "66": { "name": … }, "245": null } }
+ *
+ * A model starts from the dictionary it extends; its own entries replace the
+ * inherited ones for the same ID, and null removes an ID. Devices pick their
+ * model through tracker_devices.model; devices without one use
+ * AVL_DEFAULT_MODEL (fmc920).
+ *
  * Reference: https://wiki.teltonika-gps.com/view/FMC920_Teltonika_Data_Sending_Parameters_ID
  *
- * Anything not in this dictionary is still captured — the parser falls back to
+ * Promoted columns are shared by every model, so base.json defines them: a
+ * model may only promote into a column base.json promotes, under the same
+ * name and unit. Files are loaded and checked at startup; a broken
+ * dictionary stops the process rather than mis-decoding data.
+ *
+ * IDs with a decoder in ioDecoders.ts (BLE sensors, VIN, crash trace, …)
+ * are decoded there rather than by scale / boolean.
+ *
+ * Anything not in a dictionary is still captured — the parser falls back to
  * key "avl_<id>" with the raw integer value, so unknown IOs are never dropped.
  */
 
+import fs from "node:fs";
+import path from "node:path";
+
 export type AvlMeta = {
   name: string;
   signed?: boolean;
@@ -20,107 +41,149 @@ export type AvlMeta = {
   unit?: string;
 };
 
-export const AVL_DICT: Record<number, AvlMeta> = {
-  // ── Digital I/O ──────────────────────────────────────────────────────────
-  1:   { name: "din1",  boolean: true, promoteAs: "din1" },
-  2:   { name: "din2",  boolean: true, promoteAs: "din2" },
-  3:   { name: "din3",  boolean: true, promoteAs: "din3" },
-  4:   { name: "din4",  boolean: true, promoteAs: "din4" },
-  179: { name: "dout1", boolean: true, promoteAs: "dout1" },
-  180: { name: "dout2", boolean: true, promoteAs: "dout2" },
-
-  // ── Analog inputs (mV) ───────────────────────────────────────────────────
-  9:   { name: "ain1", promoteAs: "ain1", unit: "mV" },
-  10:  { name: "ain2", unit: "mV" },
-  11:  { name: "ain3", unit: "mV" },
-  245: { name: "ain4", unit: "mV" },
-
-  // ── Power / battery ──────────────────────────────────────────────────────
-  66:  { name: "external_voltage", scale: 0.001, promoteAs: "external_voltage_v", unit: "V" },
-  67:  { name: "battery_voltage",  scale: 0.001, promoteAs: "battery_voltage_v",  unit: "V" },
-  68:  { name: "battery_current", promoteAs: "battery_current_ma", unit: "mA" },
-  113: { name: "battery_level",   promoteAs: "battery_level_pct",  unit: "%" },
-
-  // ── GSM / network ────────────────────────────────────────────────────────
-  21:  { name: "gsm_signal", promoteAs: "gsm_signal" },
-  241: { name: "active_gsm_operator", promoteAs: "gsm_operator" },
-  205: { name: "gsm_cell_id" },
-  206: { name: "gsm_area_code" },
-  238: { name: "user_id" },
-
-  // ── GNSS quality ─────────────────────────────────────────────────────────
-  69:  { name: "gnss_status",  promoteAs: "gnss_status" },
-  181: { name: "gnss_pdop", scale: 0.1, promoteAs: "gnss_pdop" },
-  182: { name: "gnss_hdop", scale: 0.1, promoteAs: "gnss_hdop" },
-
-  // ── Movement / motion ────────────────────────────────────────────────────
-  239: { name: "ignition", boolean: true, promoteAs: "ignition" },
-  240: { name: "movement", boolean: true, promoteAs: "movement" },
-  80:  { name: "data_mode" },
-  200: { name: "sleep_mode", promoteAs: "sleep_mode" },
-  255: { name: "over_speeding", promoteAs: "over_speeding" },
-
-  // ── Odometer / trip ──────────────────────────────────────────────────────
-  16:  { name: "total_odometer", promoteAs: "total_odometer_m", unit: "m" },
-  199: { name: "trip_odometer",  promoteAs: "trip_odometer_m",  unit: "m" },
-  24:  { name: "speed_io", unit: "km/h" },
-
-  // ── Eco / safety ─────────────────────────────────────────────────────────
-  247: { name: "crash_detection", promoteAs: "crash_detection" },
-  252: { name: "jamming",         promoteAs: "jamming" },
-  253: { name: "green_driving_type",  promoteAs: "green_driving_type" },
-  254: { name: "green_driving_value" },
-  258: { name: "eco_score", promoteAs: "eco_score" },
-
-  // ── Bluetooth / BLE sensors (raw — semantic decoding is sensor-specific) ─
-  263: { name: "bt_status", promoteAs: "bt_status" },
-  264: { name: "barcode_id" },
-
-  // BLE temperature / humidity / battery — values carry sign and 0.01 scale
-  // for temperature on most BLE sensors, but the FMC920 emits them as raw
-  // 16-bit ints; we leave scaling to the consumer.
-  25:  { name: "ble_temp_1", signed: true },
-  26:  { name: "ble_temp_2", signed: true },
-  27:  { name: "ble_temp_3", signed: true },
-  28:  { name: "ble_temp_4", signed: true },
-  86:  { name: "ble_humidity_1" },
-  104: { name: "ble_humidity_2" },
-  106: { name: "ble_humidity_3" },
-  108: { name: "ble_humidity_4" },
-
-  // ── iButton / RFID / driver ID ───────────────────────────────────────────
-  78:  { name: "ibutton" },
-  207: { name: "rfid" },
-
-  // ── Misc FMC920 specifics ────────────────────────────────────────────────
-  17:  { name: "axis_x", signed: true },
-  18:  { name: "axis_y", signed: true },
-  19:  { name: "axis_z", signed: true },
-  72:  { name: "dallas_temp_1", signed: true },
-  73:  { name: "dallas_temp_2", signed: true },
-  74:  { name: "dallas_temp_3", signed: true },
-  75:  { name: "dallas_temp_4", signed: true },
-
-  // ── Variable-length (Codec 8 Extended only) ──────────────────────────────
-  237: { name: "network_type" },
-  256: { name: "vin" },
-  257: { name: "crash_trace_data" },
-  636: { name: "umts_lte_cell_id" },
+export type AvlDictionary = Record<number, AvlMeta>;
+
+export type AvlModel = {
+  model: string;
+  description: string | null;
+  extends: string | null;
+  dictionary: AvlDictionary;
 };
 
+type DictionaryFile = {
+  description?: string;
+  extends?: string;
+  ids: Record<string, AvlMeta | null>;
+};
+
+const DICT_DIR = process.env.AVL_DICT_DIR || path.join(__dirname, "..", "dictionaries");
+const BASE_MODEL = "base";
+
+export const DEFAULT_MODEL = process.env.AVL_DEFAULT_MODEL || "fmc920";
+
+function readFiles(): Map<string, DictionaryFile> {
+  const files = new Map<string, DictionaryFile>();
+  for (const file of fs.readdirSync(DICT_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    const model = file.slice(0, -".json".length);
+    try {
+      const parsed = JSON.parse(fs.readFileSync(path.join(DICT_DIR, file), "utf8"));
+      if (typeof parsed !== "object" || parsed === null || typeof parsed.ids !== "object") {
+        throw new Error(`"ids" object missing`);
+      }
+      files.set(model, parsed);
+    } catch (err) {
+      throw new Error(`AVL dictionary ${file}: ${(err as Error).message}`);
+    }
+  }
+  return files;
+}
+
+function checkEntry(model: string, id: string, meta: AvlMeta): void {
+  if (!/^\d+$/.test(id)) throw new Error(`AVL dictionary ${model}: invalid IO id "${id}"`);
+  if (typeof meta.name !== "string" || meta.name === "") {
+    throw new Error(`AVL dictionary ${model}: IO ${id} has no name`);
+  }
+  if (meta.scale !== undefined && typeof meta.scale !== "number") {
+    throw new Error(`AVL dictionary ${model}: IO ${id} scale must be a number`);
+  }
+}
+
+function loadModels(): Map<string, AvlModel> {
+  const files = readFiles();
+  const models = new Map<string, AvlModel>();
+
+  const resolve = (model: string, chain: string[]): AvlModel => {
+    const done = models.get(model);
+    if (done) return done;
+
+    const file = files.get(model);
+    if (!file) throw new Error(`AVL dictionary ${chain[chain.length - 1]}: extends unknown model "${model}"`);
+    if (chain.includes(model)) throw new Error(`AVL dictionary ${model}: circular "extends"`);
+
+    const parent = file.extends ? resolve(file.extends, [...chain, model]) : null;
+    const dictionary: AvlDictionary = { ...parent?.dictionary };
+    for (const [id, meta] of Object.entries(file.ids)) {
+      if (meta === null) {
+        delete dictionary[Number(id)];
+        continue;
+      }
+      checkEntry(model, id, meta);
+      dictionary[Number(id)] = meta;
+    }
+
+    const resolved = {
+      model,
+      description: file.description ?? null,
+      extends: file.extends ?? null,
+      dictionary,
+    };
+    models.set(model, resolved);
+    return resolved;
+  };
+
+  for (const model of files.keys()) resolve(model, []);
+
+  if (!models.has(BASE_MODEL)) throw new Error(`AVL dictionary ${BASE_MODEL}.json not found in ${DICT_DIR}`);
+  if (!models.has(DEFAULT_MODEL)) throw new Error(`AVL_DEFAULT_MODEL "${DEFAULT_MODEL}" has no dictionary`);
+  return models;
+}
+
+const MODELS = loadModels();
+
+/** Dictionary of the default model. */
+export const AVL_DICT: AvlDictionary = MODELS.get(DEFAULT_MODEL)!.dictionary;
+
+export function avlModels(): AvlModel[] {
+  return [...MODELS.values()];
+}
+
+export function isAvlModel(model: string): boolean {
+  return MODELS.has(model);
+}
+
+/** Dictionary for a device model; null or unknown models get the default. */
+export function dictionaryFor(model: string | null): AvlDictionary {
+  return (model !== null && MODELS.get(model)?.dictionary) || AVL_DICT;
+}
+
 /**
  * Returns the metadata for a known AVL ID, or a synthesized fallback so the
  * parser/DB layer can treat known and unknown IDs uniformly.
  */
-export function metaFor(id: number): AvlMeta {
-  return AVL_DICT[id] ?? { name: `avl_${id}` };
+export function metaFor(id: number, dictionary: AvlDictionary = AVL_DICT): AvlMeta {
+  return dictionary[id] ?? { name: `avl_${id}` };
 }
 
 /**
  * Subset of dictionary entries that should be promoted to dedicated columns
- * on tracker_positions. Built once at module load.
+ * on tracker_positions, taken from base.json. Promotion goes by IO name, so
+ * it applies to every model's records alike.
  */
 export const PROMOTED_FIELDS: Array<{ key: string; column: string }> = Object
-  .values(AVL_DICT)
+  .values(MODELS.get(BASE_MODEL)!.dictionary)
   .filter((m): m is AvlMeta & { promoteAs: string } => Boolean(m.promoteAs))
   .map((m) => ({ key: m.name, column: m.promoteAs }));
+
+// Every model must agree with base.json on promoted columns
+{
+  const base = new Map(
+    Object.values(MODELS.get(BASE_MODEL)!.dictionary).filter((m) => m.promoteAs).map((m) => [m.promoteAs!, m])
+  );
+  const promotedNames = new Set(PROMOTED_FIELDS.map((f) => f.key));
+
+  for (const { model, dictionary } of MODELS.values()) {
+    for (const [id, meta] of Object.entries(dictionary)) {
+      const expected = meta.promoteAs ? base.get(meta.promoteAs) : undefined;
+      if (meta.promoteAs && !expected) {
+        throw new Error(`AVL dictionary ${model}: IO ${id} promotes to "${meta.promoteAs}", which base.json does not define`);
+      }
+      if (expected && (expected.name !== meta.name || expected.unit !== meta.unit || expected.scale !== meta.scale)) {
+        throw new Error(`AVL dictionary ${model}: IO ${id} must match base.json's name, unit and scale for "${meta.promoteAs}"`);
+      }
+      if (!meta.promoteAs && promotedNames.has(meta.name)) {
+        throw new Error(`AVL dictionary ${model}: IO ${id} uses promoted name "${meta.name}" without promoteAs`);
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Codec 12 GPRS command channel.
+ *
+ * Commands are persisted in tracker_commands first (status "queued") and then
+ * written to the device's live socket. Devices process one command at a time,
+ * so each IMEI has at most one command in flight; the next queued command is
+ * sent once the previous one is answered or times out. Commands for offline
+ * devices stay queued until the device completes its next IMEI handshake.
+ *
+ * Lifecycle: queued → sent → answered | timed_out
+ */
+
+import { insertCommand, nextQueuedCommand, updateCommand, type CommandRow } from "./db.js";
+import { buildCodec12Command } from "./teltonika.js";
+import { getSocket } from "./sessions.js";
+
+const COMMAND_TIMEOUT_MS = Number(process.env.COMMAND_TIMEOUT_MS || 60_000);
+
+type InFlight = { id: number; timer: NodeJS.Timeout };
+const inFlight = new Map<string, InFlight>();
+
+// IMEIs with a dispatch in progress — guards the gap between reading the
+// next queued command and registering it as in flight
+const dispatching = new Set<string>();
+// IMEIs that asked for a dispatch while one was already running
+const redispatch = new Set<string>();
+
+/**
+ * Called after a successful IMEI handshake, once the socket is registered in
+ * sessions.ts; sends whatever was queued while the device was offline.
+ */
+export function deliverQueuedCommands(imei: string): void {
+  dispatchNext(imei).catch((err) =>
+    console.error(`[✗] Command dispatch failed (${imei}):`, err.message)
+  );
+}
+
+/** Persists a command and sends it right away if the device is connected. */
+export async function queueCommand(imei: string, command: string): Promise<CommandRow> {
+  const row = await insertCommand(imei, command);
+  await dispatchNext(imei);
+  return row;
+}
+
+/** Matches a Codec 12 response to the command currently in flight. */
+export async function handleCommandResponse(imei: string, response: string): Promise<void> {
+  const pending = inFlight.get(imei);
+  if (!pending) {
+    console.warn(`[!] Unsolicited Codec 12 response from ${imei}: ${response}`);
+    return;
+  }
+
+  clearTimeout(pending.timer);
+  inFlight.delete(imei);
+
+  await updateCommand(pending.id, {
+    status: "answered",
+    response,
+    answered_at: new Date().toISOString(),
+  });
+  console.log(`[✓] Command ${pending.id} answered by ${imei}: ${response}`);
+
+  await dispatchNext(imei);
+}
+
+async function dispatchNext(imei: string): Promise<void> {
+  if (inFlight.has(imei)) return;
+  if (dispatching.has(imei)) {
+    redispatch.add(imei);
+    return;
+  }
+
+  dispatching.add(imei);
+  try {
+    await sendNextQueued(imei);
+  } finally {
+    dispatching.delete(imei);
+  }
+
+  if (redispatch.delete(imei)) await dispatchNext(imei);
+}
+
+async function sendNextQueued(imei: string): Promise<void> {
+  const socket = getSocket(imei);
+  if (!socket) return;
+
+  const next = await nextQueuedCommand(imei);
+  if (!next) return;
+
+  // Record "sent" before writing so a fast response cannot be overwritten
+  await updateCommand(next.id, { status: "sent", sent_at: new Date().toISOString() });
+
+  const timer = setTimeout(() => {
+    onTimeout(imei, next.id).catch((err) =>
+      console.error(`[✗] Command timeout handling failed (${imei}):`, err.message)
+    );
+  }, COMMAND_TIMEOUT_MS);
+  inFlight.set(imei, { id: next.id, timer });
+
+  socket.write(buildCodec12Command(next.command));
+  console.log(`[→] Command ${next.id} sent to ${imei}: ${next.command}`);
+}
+
+async function onTimeout(imei: string, id: number): Promise<void> {
+  const pending = inFlight.get(imei);
+  if (!pending || pending.id !== id) return;
+
+  inFlight.delete(imei);
+  await updateCommand(id, { status: "timed_out" });
+  console.warn(`[!] Command ${id} to ${imei} timed out after ${COMMAND_TIMEOUT_MS} ms`);
+
+  await dispatchNext(imei);
+}
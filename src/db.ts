@@ -1,107 +1,155 @@
-import { createClient } from "@supabase/supabase-js";
-import type { AvlRecord } from "./teltonika.js";
-import { PROMOTED_FIELDS } from "./avlDictionary.js";
-
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!supabaseUrl || !supabaseServiceKey) {
-  throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in environment");
-}
-
-export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false,
-  },
-});
-
-export async function upsertDevice(imei: string): Promise<void> {
-  const { error } = await supabase
-    .from("tracker_devices")
-    .upsert({ imei }, { onConflict: "imei", ignoreDuplicates: true });
-
-  if (error) throw new Error(`upsertDevice: ${error.message}`);
-}
-
-export async function updateDeviceStatus(
-  imei: string,
-  status: "online" | "offline"
-): Promise<void> {
-  const { error } = await supabase
-    .from("tracker_devices")
-    .update({ status, last_seen_at: new Date().toISOString() })
-    .eq("imei", imei);
-
-  if (error) throw new Error(`updateDeviceStatus: ${error.message}`);
-}
-
-export async function saveRawPacket(
-  imei: string,
-  remoteIp: string | undefined,
-  buf: Buffer
-): Promise<number> {
-  const { data, error } = await supabase
-    .from("tracker_packets_raw")
-    .insert({
-      imei,
-      remote_ip: remoteIp ?? null,
-      packet_hex: buf.toString("hex"),
-      packet_len: buf.length,
-    })
-    .select("id")
-    .single();
-
-  if (error) throw new Error(`saveRawPacket: ${error.message}`);
-  return data.id as number;
-}
-
-export async function deletePositionsForRaw(rawPacketId: number): Promise<void> {
-  const { error } = await supabase
-    .from("tracker_positions")
-    .delete()
-    .eq("raw_packet_id", rawPacketId);
-  if (error) throw new Error(`deletePositionsForRaw: ${error.message}`);
-}
-
-export async function savePositions(
-  imei: string,
-  records: AvlRecord[],
-  rawPacketId: number
-): Promise<void> {
-  if (records.length === 0) return;
-
-  const rows = records.map((r) => {
-    const promoted: Record<string, unknown> = {};
-    for (const { key, column } of PROMOTED_FIELDS) {
-      if (key in r.ioData) promoted[column] = r.ioData[key];
+/**
+ * Storage entry point. Picks the backend from STORAGE_BACKEND and re-exports
+ * its methods as plain functions, so callers stay backend-agnostic:
+ *
+ *   supabase (default) — SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY
+ *   postgres           — DATABASE_URL (same schema, direct connection)
+ *   memory             — in-process, non-persistent; for development and tests
+ *
+ * Configuration is checked when the backend is created, so a missing variable
+ * only matters for the backend actually selected.
+ *
+ * Both database backends use the schema in migrations/, applied with
+ * `npx tsx src/migrate.ts`.
+ *
+ * Every call is timed into the tracker_db_duration_seconds metric, labelled
+ * with the function name (see metrics.ts).
+ */
+
+import type { Storage } from "./storage/types.js";
+import { createSupabaseStorage } from "./storage/supabase.js";
+import { createPostgresStorage } from "./storage/postgres.js";
+import { createMemoryStorage } from "./storage/memory.js";
+import { observeDbCall } from "./metrics.js";
+
+export type * from "./storage/types.js";
+
+function createStorage(backend: string): Storage {
+  switch (backend) {
+    case "supabase": {
+      const url = process.env.SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !serviceKey) {
+        throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in environment");
+      }
+      return createSupabaseStorage(url, serviceKey);
+    }
+    case "postgres": {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) throw new Error("Missing DATABASE_URL in environment");
+      return createPostgresStorage(connectionString);
     }
+    case "memory":
+      return createMemoryStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected supabase, postgres or memory)`);
+  }
+}
 
-    return {
-      imei,
-      gps_time: r.timestamp.toISOString(),
-      latitude: r.latitude,
-      longitude: r.longitude,
-      speed: r.speed,
-      angle: r.angle,
-      satellites: r.satellites,
-      altitude: r.altitude,
-      priority: r.priority,
-      raw_packet_id: rawPacketId,
-      event_io_id: r.eventIoId,
-      io_data: r.ioData,
-      ...promoted,
+/**
+ * Wraps every method to record its latency and failures. Paged readers
+ * (async generators) return immediately and are passed through untimed.
+ */
+function instrument(backend: Storage): Storage {
+  const timed: Partial<Record<keyof Storage, unknown>> = {};
+  for (const [name, fn] of Object.entries(backend) as Array<[keyof Storage, (...args: unknown[]) => unknown]>) {
+    timed[name] = (...args: unknown[]) => {
+      const started = performance.now();
+      const result = fn(...args);
+      if (!(result instanceof Promise)) return result;
+      return result.then(
+        (value) => {
+          observeDbCall(name, (performance.now() - started) / 1000, false);
+          return value;
+        },
+        (err) => {
+          observeDbCall(name, (performance.now() - started) / 1000, true);
+          throw err;
+        }
+      );
     };
-  });
-
-  const { error: posError } = await supabase.from("tracker_positions").insert(rows);
-  if (posError) throw new Error(`savePositions: ${posError.message}`);
-
-  // Mark the raw packet as successfully parsed
-  const { error: markError } = await supabase
-    .from("tracker_packets_raw")
-    .update({ parsed: true })
-    .eq("id", rawPacketId);
-
-  if (markError) throw new Error(`markParsed: ${markError.message}`);
+  }
+  return timed as Storage;
 }
+
+export const storage: Storage = instrument(createStorage(process.env.STORAGE_BACKEND || "supabase"));
+
+export const {
+  upsertDevice,
+  updateDeviceStatus,
+  updateDeviceLastData,
+  saveRawPacket,
+  savePositions,
+  deletePositionsForRaw,
+  listRawPackets,
+  listDevices,
+  getDevice,
+  updateDeviceLabel,
+  updateDeviceModel,
+  updateDeviceReportInterval,
+  setDeviceApproval,
+  latestPosition,
+  listPositions,
+  sensorSeries,
+  sensorPages,
+  recentIoData,
+  insertCommand,
+  nextQueuedCommand,
+  updateCommand,
+  listCommands,
+  listGeofences,
+  getGeofence,
+  createGeofence,
+  updateGeofence,
+  deleteGeofence,
+  insertGeofenceEvents,
+  listGeofenceEvents,
+  loadGeofenceStates,
+  saveGeofenceStates,
+  trackPages,
+  listTrips,
+  getTrip,
+  upsertTrips,
+  deleteTripsSince,
+  listAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  insertAlert,
+  getAlert,
+  updateAlert,
+  listAlerts,
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  insertWebhookDeliveries,
+  dueWebhookDeliveries,
+  updateWebhookDelivery,
+  listWebhookDeliveries,
+  listApiKeys,
+  getApiKeyByHash,
+  createApiKey,
+  updateApiKey,
+  insertAuditLog,
+  listAuditLog,
+  setDeviceOrganisation,
+  listOrganisations,
+  getOrganisation,
+  createOrganisation,
+  updateOrganisation,
+  deleteOrganisation,
+  listGroups,
+  getGroup,
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  listGroupMembers,
+  addGroupMembers,
+  removeGroupMember,
+  insertSession,
+  updateSession,
+  listSessions,
+} = storage;
@@ -0,0 +1,28 @@
+/**
+ * Which AVL dictionary each device's packets are parsed with, from
+ * tracker_devices.model (see avlDictionary.ts). Looked up once per device and
+ * cached, since every flushed packet needs it.
+ */
+
+import { getDevice } from "./db.js";
+import { dictionaryFor, type AvlDictionary } from "./avlDictionary.js";
+
+// Models change rarely; the API invalidates a device's entry when it is set
+const MODEL_CACHE_MS = 60_000;
+
+const modelCache = new Map<string, { model: string | null; expires: number }>();
+
+/** Forces the next packet from `imei` to look its model up again. */
+export function invalidateDeviceModel(imei: string): void {
+  modelCache.delete(imei);
+}
+
+export async function dictionaryForDevice(imei: string): Promise<AvlDictionary> {
+  let cached = modelCache.get(imei);
+  if (!cached || cached.expires <= Date.now()) {
+    const device = await getDevice(imei);
+    cached = { model: device?.model ?? null, expires: Date.now() + MODEL_CACHE_MS };
+    modelCache.set(imei, cached);
+  }
+  return dictionaryFor(cached.model);
+}
@@ -0,0 +1,70 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { AvlRecord } from "./teltonika.js";
+
+// Read when the module loads
+process.env.EVENT_BUFFER_SIZE = "5";
+
+let events: typeof import("./events.js");
+
+before(async () => {
+  events = await import("./events.js");
+});
+
+function record(minute: number): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(Date.UTC(2025, 0, 1, 8, minute)), priority: 0,
+    latitude: 54.6872, longitude: 25.2797, altitude: 0, angle: 0, satellites: 8,
+    speed: 30, eventIoId: 0, generationType: null, ioData: {},
+  };
+}
+
+test("a new stream gets live events for its devices only", async () => {
+  const stream = events.openEventStream(undefined, new Set(["356307046452001"]));
+  assert.equal(stream.reset, false);
+
+  events.publishStatus("356307046452002", "online");
+  events.publishStatus("356307046452001", "online");
+  events.publishPositions("356307046452001", [record(0)]);
+
+  const first = await stream.next();
+  assert.deepEqual([first?.type, first?.imei], ["status", "356307046452001"]);
+  const second = await stream.next();
+  assert.equal(second?.type, "position");
+  assert.equal(second?.id, first!.id + 1);
+
+  stream.close();
+  assert.equal(await stream.next(), null);
+});
+
+test("resuming replays buffered events after the last id, then goes live", async () => {
+  const seen = events.openEventStream(undefined, null);
+  events.publishPositions("356307046452003", [record(1), record(2), record(3)]);
+  const a = await seen.next();
+  for (let i = 0; i < 2; i++) await seen.next();
+  seen.close();
+
+  const resumed = events.openEventStream(String(a!.id), null);
+  assert.equal(resumed.reset, false);
+  events.publishStatus("356307046452003", "offline");
+
+  const replayed = [await resumed.next(), await resumed.next(), await resumed.next()];
+  assert.deepEqual(replayed.map((e) => e?.type), ["position", "position", "status"]);
+  assert.deepEqual(replayed.map((e) => e!.id - a!.id), [1, 2, 3]);
+  resumed.close();
+});
+
+test("ids that fell out of the buffer or were never issued ask the client to reset", async () => {
+  const seen = events.openEventStream(undefined, null);
+  events.publishStatus("356307046452004", "online");
+  const old = await seen.next();
+  seen.close();
+
+  events.publishPositions("356307046452004", [1, 2, 3, 4, 5, 6].map(record));
+
+  for (const lastId of [String(old!.id), String(old!.id + 1000), "not-a-number"]) {
+    const stream = events.openEventStream(lastId, null);
+    assert.equal(stream.reset, true, lastId);
+    stream.close();
+  }
+});
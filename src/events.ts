@@ -0,0 +1,146 @@
+/**
+ * In-process event bus for live consumers (SSE / WebSocket streams).
+ *
+ * Ingestion publishes every stored position and every device status change;
+ * each event gets an increasing id. The most recent EVENT_BUFFER_SIZE events
+ * are kept so a reconnecting client can pass the last id it saw and receive
+ * everything after it. Ids start from the boot time in microseconds, so ids
+ * from before a restart are never mistaken for current ones — a client whose
+ * id is no longer in the buffer is told to "reset" (reload its state from the
+ * REST API) instead of silently missing events.
+ */
+
+import type { DeviceStatus } from "./db.js";
+import type { AvlRecord, IoData } from "./teltonika.js";
+
+const BUFFER_SIZE = Number(process.env.EVENT_BUFFER_SIZE || 10_000);
+
+// Events queued for one client before it is considered too slow and dropped
+// (it can reconnect and resume from its last event id). A full replay of the
+// buffer must fit.
+const CLIENT_QUEUE_MAX = BUFFER_SIZE;
+
+export type PositionEventData = {
+  gps_time: string;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  angle: number;
+  altitude: number;
+  satellites: number;
+  event_io_id: number;
+  io_data: IoData;
+};
+
+export type BusEvent =
+  | { id: number; type: "position"; imei: string; at: string; data: PositionEventData }
+  | { id: number; type: "status"; imei: string; at: string; data: { status: DeviceStatus } };
+
+type Listener = (event: BusEvent) => void;
+
+let nextId = Date.now() * 1000;
+const buffer: BusEvent[] = [];
+const listeners = new Set<Listener>();
+
+export function positionEventData(r: AvlRecord): PositionEventData {
+  return {
+    gps_time: r.timestamp.toISOString(),
+    latitude: r.latitude,
+    longitude: r.longitude,
+    speed: r.speed,
+    angle: r.angle,
+    altitude: r.altitude,
+    satellites: r.satellites,
+    event_io_id: r.eventIoId,
+    io_data: r.ioData,
+  };
+}
+
+function publish(event: BusEvent): void {
+  buffer.push(event);
+  // Trim in chunks rather than shifting on every event
+  if (buffer.length > BUFFER_SIZE * 1.1) buffer.splice(0, buffer.length - BUFFER_SIZE);
+
+  for (const listener of listeners) listener(event);
+}
+
+export function publishPositions(imei: string, records: AvlRecord[]): void {
+  const at = new Date().toISOString();
+  for (const r of records) {
+    publish({ id: nextId++, type: "position", imei, at, data: positionEventData(r) });
+  }
+}
+
+export function publishStatus(imei: string, status: DeviceStatus): void {
+  publish({ id: nextId++, type: "status", imei, at: new Date().toISOString(), data: { status } });
+}
+
+// ── Client streams ────────────────────────────────────────────────────────────
+
+export type EventStream = {
+  /** True when the client's last event id could not be resumed. */
+  reset: boolean;
+  /** Next event, or null once the stream is closed (or the client fell behind). */
+  next(): Promise<BusEvent | null>;
+  close(): void;
+};
+
+/**
+ * Opens a per-client stream: buffered events after `lastEventId` first, then
+ * live ones. `imeis` null means every device.
+ */
+export function openEventStream(lastEventId: string | undefined, imeis: Set<string> | null): EventStream {
+  const queue: BusEvent[] = [];
+  let waiter: ((event: BusEvent | null) => void) | null = null;
+  let closed = false;
+
+  const matches = (e: BusEvent) => imeis === null || imeis.has(e.imei);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    listeners.delete(listener);
+    queue.length = 0;
+    waiter?.(null);
+    waiter = null;
+  };
+
+  const listener: Listener = (event) => {
+    if (!matches(event)) return;
+    if (waiter) {
+      const resolve = waiter;
+      waiter = null;
+      resolve(event);
+    } else if (queue.length >= CLIENT_QUEUE_MAX) {
+      close();
+    } else {
+      queue.push(event);
+    }
+  };
+
+  let reset = false;
+  if (lastEventId !== undefined && lastEventId !== "") {
+    const last = Number(lastEventId);
+    const oldest = buffer[0]?.id ?? nextId;
+    if (!Number.isSafeInteger(last) || last < oldest - 1 || last >= nextId) {
+      reset = true;
+    } else {
+      // Publishing is synchronous, so nothing can slip in between the replay
+      // and the subscription below
+      queue.push(...buffer.filter((e) => e.id > last && matches(e)));
+    }
+  }
+  listeners.add(listener);
+
+  return {
+    reset,
+    next() {
+      if (queue.length > 0) return Promise.resolve(queue.shift()!);
+      if (closed) return Promise.resolve(null);
+      return new Promise((resolve) => {
+        waiter = resolve;
+      });
+    },
+    close,
+  };
+}
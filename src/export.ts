@@ -0,0 +1,150 @@
+/**
+ * Track export in GIS formats.
+ *
+ *   geojson — FeatureCollection: one LineString for the track, then one Point
+ *             feature per position with its attributes as properties
+ *   gpx     — GPX 1.1 track; speed (m/s) and course in the Garmin
+ *             TrackPointExtension v2
+ *   kml     — KML 2.2 LineString placemark (Google Earth)
+ *   csv     — one row per position, with any extra IO columns requested
+ *
+ * Positions are read page by page through trackPages and emitted as text
+ * chunks, so an export of any length never has to fit in memory. The GeoJSON
+ * writer reads the range twice (line first, then points). Positions without a
+ * GNSS fix (0, 0) are left out of the geographic formats but kept in CSV.
+ */
+
+import { trackPages, type PositionRow, type TimeRange } from "./db.js";
+import { hasFix } from "./geo.js";
+
+export type ExportFormat = "geojson" | "gpx" | "kml" | "csv";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  geojson: { contentType: "application/geo+json", extension: "geojson" },
+  gpx:     { contentType: "application/gpx+xml", extension: "gpx" },
+  kml:     { contentType: "application/vnd.google-earth.kml+xml", extension: "kml" },
+  csv:     { contentType: "text/csv; charset=utf-8", extension: "csv" },
+};
+
+const PAGE_SIZE = 2000;
+
+const CSV_BASE_COLUMNS = [
+  "gps_time", "latitude", "longitude", "speed", "angle", "altitude", "satellites", "event_io_id",
+] as const;
+
+const KMH_TO_MS = 1 / 3.6;
+
+const xml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  const s = typeof v === "object" ? JSON.stringify(v) : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** A promoted column if the row has it, otherwise the io_data key of that name. */
+function columnValue(row: PositionRow, column: string): unknown {
+  return row[column] !== undefined ? row[column] : row.io_data?.[column];
+}
+
+async function* fixedPages(imei: string, range: TimeRange): AsyncGenerator<PositionRow[]> {
+  for await (const page of trackPages(imei, range, PAGE_SIZE)) {
+    const fixed = page.filter(hasFix);
+    if (fixed.length > 0) yield fixed;
+  }
+}
+
+async function* geojson(imei: string, range: TimeRange): AsyncGenerator<string> {
+  yield `{"type":"FeatureCollection","features":[`;
+  yield `{"type":"Feature","properties":{"imei":${JSON.stringify(imei)}},"geometry":{"type":"LineString","coordinates":[`;
+  let first = true;
+  for await (const page of fixedPages(imei, range)) {
+    const coords = page.map((p) => `[${p.longitude},${p.latitude},${p.altitude}]`).join(",");
+    yield (first ? "" : ",") + coords;
+    first = false;
+  }
+  yield `]}}`;
+
+  for await (const page of fixedPages(imei, range)) {
+    yield page
+      .map((p) => "," + JSON.stringify({
+        type: "Feature",
+        properties: {
+          gps_time: p.gps_time,
+          speed: p.speed,
+          angle: p.angle,
+          satellites: p.satellites,
+          event_io_id: p.event_io_id,
+          io_data: p.io_data,
+        },
+        geometry: { type: "Point", coordinates: [p.longitude, p.latitude, p.altitude] },
+      }))
+      .join("");
+  }
+  yield `]}\n`;
+}
+
+async function* gpx(imei: string, range: TimeRange): AsyncGenerator<string> {
+  yield `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="teltonika-tcp-server" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">
+<trk><name>${xml(imei)}</name><trkseg>
+`;
+  for await (const page of fixedPages(imei, range)) {
+    yield page
+      .map((p) =>
+        `<trkpt lat="${p.latitude}" lon="${p.longitude}"><ele>${p.altitude}</ele><time>${p.gps_time}</time>` +
+        `<sat>${p.satellites}</sat><extensions><gpxtpx:TrackPointExtension>` +
+        `<gpxtpx:speed>${(p.speed * KMH_TO_MS).toFixed(2)}</gpxtpx:speed><gpxtpx:course>${p.angle}</gpxtpx:course>` +
+        `</gpxtpx:TrackPointExtension></extensions></trkpt>\n`)
+      .join("");
+  }
+  yield `</trkseg></trk>\n</gpx>\n`;
+}
+
+async function* kml(imei: string, range: TimeRange): AsyncGenerator<string> {
+  const period = [range.from, range.to].filter(Boolean).join(" – ");
+  yield `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document><name>${xml(imei)}</name>
+<Style id="track"><LineStyle><color>ff0000ff</color><width>3</width></LineStyle></Style>
+<Placemark><name>${xml(imei)}</name>${period ? `<description>${xml(period)}</description>` : ""}<styleUrl>#track</styleUrl>
+<LineString><tessellate>1</tessellate><altitudeMode>clampToGround</altitudeMode><coordinates>
+`;
+  for await (const page of fixedPages(imei, range)) {
+    yield page.map((p) => `${p.longitude},${p.latitude},${p.altitude}\n`).join("");
+  }
+  yield `</coordinates></LineString></Placemark>
+</Document>
+</kml>
+`;
+}
+
+async function* csv(imei: string, range: TimeRange, columns: string[]): AsyncGenerator<string> {
+  yield [...CSV_BASE_COLUMNS, ...columns].map(csvCell).join(",") + "\r\n";
+  for await (const page of trackPages(imei, range, PAGE_SIZE)) {
+    yield page
+      .map((p) =>
+        [...CSV_BASE_COLUMNS.map((c) => p[c]), ...columns.map((c) => columnValue(p, c))].map(csvCell).join(",") + "\r\n")
+      .join("");
+  }
+}
+
+/**
+ * Streams a device's track over `range` in the given format. `columns` are
+ * the extra CSV columns (promoted columns or io_data keys); other formats
+ * ignore them.
+ */
+export function exportTrack(
+  imei: string,
+  range: TimeRange,
+  format: ExportFormat,
+  columns: string[] = []
+): AsyncGenerator<string> {
+  switch (format) {
+    case "geojson": return geojson(imei, range);
+    case "gpx":     return gpx(imei, range);
+    case "kml":     return kml(imei, range);
+    case "csv":     return csv(imei, range, columns);
+  }
+}
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFrameReader } from "./framing.js";
+
+const imeiFrame = (imei: string) => {
+  const buf = Buffer.alloc(2 + imei.length);
+  buf.writeUInt16BE(imei.length, 0);
+  buf.write(imei, 2, "ascii");
+  return buf;
+};
+
+// Framing only looks at the length prefix: data field and CRC are opaque here
+const avlFrame = (dataLen: number) => {
+  const buf = Buffer.alloc(8 + dataLen + 4, 0xab);
+  buf.writeUInt32BE(0, 0);
+  buf.writeUInt32BE(dataLen, 4);
+  return buf;
+};
+
+test("emits an IMEI and an AVL frame sent back to back in one chunk", () => {
+  const reader = createFrameReader(1024);
+  const imei = imeiFrame("356307046452013");
+  const avl = avlFrame(20);
+
+  const frames = reader.push(Buffer.concat([imei, avl]));
+
+  assert.deepEqual(frames.map((f) => f.kind), ["imei", "avl"]);
+  assert.deepEqual(frames[0].buf, imei);
+  assert.deepEqual(frames[1].buf, avl);
+  assert.equal(reader.buffered(), 0);
+});
+
+test("reassembles an AVL frame split across segments, down to single bytes", () => {
+  const reader = createFrameReader(1024);
+  const avl = avlFrame(100);
+
+  const frames = [];
+  for (let i = 0; i < avl.length; i++) {
+    frames.push(...reader.push(avl.subarray(i, i + 1)));
+    if (i < avl.length - 1) assert.equal(reader.buffered(), i + 1);
+  }
+
+  assert.equal(frames.length, 1);
+  assert.deepEqual(frames[0].buf, avl);
+});
+
+test("holds back the start of the next frame", () => {
+  const reader = createFrameReader(1024);
+  const first = avlFrame(10);
+  const second = avlFrame(10);
+
+  assert.equal(reader.push(Buffer.concat([first, second.subarray(0, 5)])).length, 1);
+  assert.equal(reader.buffered(), 5);
+  assert.deepEqual(reader.push(second.subarray(5)).map((f) => f.buf), [second]);
+});
+
+test("emitted frames do not alias the pushed chunk", () => {
+  const reader = createFrameReader(1024);
+  const chunk = imeiFrame("356307046452013");
+  const [frame] = reader.push(chunk);
+  chunk.fill(0);
+  assert.equal(frame.buf.subarray(2).toString("ascii"), "356307046452013");
+});
+
+test("rejects a declared AVL length above the limit before buffering it", () => {
+  const reader = createFrameReader(64);
+  assert.throws(() => reader.push(avlFrame(100).subarray(0, 8)), /exceeds limit/);
+});
+
+test("rejects an out-of-range IMEI length and a broken preamble", () => {
+  assert.throws(() => createFrameReader(1024).push(Buffer.from([0x01, 0x00])), /IMEI length/);
+  assert.throws(() => createFrameReader(1024).push(Buffer.from([0, 0, 0, 1, 0, 0, 0, 4])), /preamble/);
+});
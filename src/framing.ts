@@ -0,0 +1,97 @@
+/**
+ * Per-connection frame reassembly for the Teltonika TCP stream.
+ *
+ * TCP delivers a byte stream, not packets: a large Codec 8 Extended batch can
+ * arrive split across several segments, and a device may send its IMEI and
+ * first AVL packet back to back in one chunk. The reader below buffers bytes
+ * and only emits complete frames, using the length prefix of each frame:
+ *
+ *   IMEI frame: [2 bytes] IMEI length + [N bytes] IMEI
+ *   AVL frame:  [4 bytes] preamble 0x00000000 + [4 bytes] data length
+ *               + [data length bytes] data field + [4 bytes] CRC
+ *
+ * The two are told apart by their first two bytes: an AVL frame always starts
+ * with the zero preamble, while an IMEI length is never zero.
+ */
+
+export type Frame =
+  | { kind: "imei"; buf: Buffer }
+  | { kind: "avl"; buf: Buffer };
+
+export interface FrameReader {
+  /** Appends a chunk and returns every frame it completed, in stream order. */
+  push(chunk: Buffer): Frame[];
+  /** Bytes held back waiting for the rest of a frame. */
+  buffered(): number;
+}
+
+/** Largest IMEI length prefix we accept — real IMEIs are 15–17 digits. */
+const MAX_IMEI_LEN = 64;
+
+/**
+ * Creates a reader for one socket. `maxBufferBytes` caps both the declared
+ * frame size and the amount of unconsumed data held in memory, so a bogus
+ * length field or a flood of garbage cannot grow the buffer without bound.
+ */
+export function createFrameReader(maxBufferBytes: number): FrameReader {
+  let pending: Buffer = Buffer.alloc(0);
+
+  function nextFrame(): Frame | null {
+    if (pending.length < 2) return null;
+
+    // ── AVL frame ──────────────────────────────────────────────────────────
+    if (pending.readUInt16BE(0) === 0) {
+      if (pending.length < 8) return null;
+      if (pending.readUInt32BE(0) !== 0) {
+        throw new Error("Invalid AVL preamble");
+      }
+
+      const dataLen = pending.readUInt32BE(4);
+      const total = 8 + dataLen + 4;
+      if (total > maxBufferBytes) {
+        throw new Error(`AVL frame of ${total} bytes exceeds limit of ${maxBufferBytes}`);
+      }
+      if (pending.length < total) return null;
+
+      const buf = pending.subarray(0, total);
+      pending = pending.subarray(total);
+      return { kind: "avl", buf };
+    }
+
+    // ── IMEI frame ─────────────────────────────────────────────────────────
+    const imeiLen = pending.readUInt16BE(0);
+    if (imeiLen > MAX_IMEI_LEN) {
+      throw new Error(`IMEI length ${imeiLen} out of range`);
+    }
+
+    const total = 2 + imeiLen;
+    if (pending.length < total) return null;
+
+    const buf = pending.subarray(0, total);
+    pending = pending.subarray(total);
+    return { kind: "imei", buf };
+  }
+
+  return {
+    push(chunk) {
+      // Copy so emitted frames never alias a chunk Node may reuse
+      pending = pending.length === 0
+        ? Buffer.from(chunk)
+        : Buffer.concat([pending, chunk]);
+
+      const frames: Frame[] = [];
+      for (let frame = nextFrame(); frame; frame = nextFrame()) {
+        frames.push(frame);
+      }
+
+      if (pending.length > maxBufferBytes) {
+        throw new Error(`Receive buffer holds ${pending.length} bytes (limit ${maxBufferBytes})`);
+      }
+      return frames;
+    },
+
+    buffered() {
+      return pending.length;
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Small geodesy helpers. Coordinates are WGS84 decimal degrees, as stored on
+ * tracker_positions; distances are metres.
+ */
+
+export type LatLng = { latitude: number; longitude: number };
+
+const EARTH_RADIUS_M = 6_371_008.8;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance between two points (haversine). */
+export function haversineM(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Ray-casting point-in-polygon test. Treats coordinates as planar, which is
+ * accurate enough for fence-sized polygons away from the antimeridian.
+ */
+export function pointInPolygon(p: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > p.latitude !== b.latitude > p.latitude &&
+      p.longitude <
+        ((b.longitude - a.longitude) * (p.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/** Teltonika reports 0,0 when it has no GNSS fix. */
+export function hasFix(p: LatLng): boolean {
+  return p.latitude !== 0 || p.longitude !== 0;
+}
+
+/**
+ * Distance from `p` to the segment a–b. Uses an equirectangular projection
+ * around `a`, which is accurate at track-simplification scales.
+ */
+export function segmentDistanceM(p: LatLng, a: LatLng, b: LatLng): number {
+  const kx = Math.cos(toRad(a.latitude)) * EARTH_RADIUS_M;
+  const x = (q: LatLng) => toRad(q.longitude - a.longitude) * kx;
+  const y = (q: LatLng) => toRad(q.latitude - a.latitude) * EARTH_RADIUS_M;
+
+  const bx = x(b), by = y(b), px = x(p), py = y(p);
+  const len2 = bx * bx + by * by;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / len2));
+  return Math.hypot(px - t * bx, py - t * by);
+}
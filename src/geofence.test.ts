@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createGeofence, listGeofenceEvents, loadGeofenceStates, type GeofenceRow } from "./db.js";
+import { evaluateGeofences, fenceContains, invalidateGeofences } from "./geofence.js";
+import type { AvlRecord } from "./teltonika.js";
+
+const IMEI = "356307046452013";
+const CENTRE = { latitude: 54.6872, longitude: 25.2797 };
+// ~1.1 km north of the centre
+const OUTSIDE = { latitude: 54.6972, longitude: 25.2797 };
+
+function record(time: string, at: { latitude: number; longitude: number }): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(time), priority: 0, ...at,
+    altitude: 0, angle: 0, satellites: 8, speed: 30, eventIoId: 0, generationType: null, ioData: {},
+  };
+}
+
+const events = async () =>
+  (await listGeofenceEvents({ imei: IMEI }, {}, 100)).reverse().map((e) => `${e.event}@${e.gps_time.slice(11, 16)}`);
+
+test("fenceContains handles circles and polygons", () => {
+  const circle = { kind: "circle", ...CENTRE, radius_m: 500, polygon: null } as GeofenceRow;
+  assert.equal(fenceContains(circle, CENTRE), true);
+  assert.equal(fenceContains(circle, OUTSIDE), false);
+
+  const square = {
+    kind: "polygon", latitude: null, longitude: null, radius_m: null,
+    polygon: [
+      { latitude: 54, longitude: 25 }, { latitude: 55, longitude: 25 },
+      { latitude: 55, longitude: 26 }, { latitude: 54, longitude: 26 },
+    ],
+  } as GeofenceRow;
+  assert.equal(fenceContains(square, CENTRE), true);
+  assert.equal(fenceContains(square, { latitude: 53.9, longitude: 25.5 }), false);
+});
+
+test("emits enter, dwell once and exit, persisting the state", async () => {
+  const fence = await createGeofence({
+    name: "depot", kind: "circle", ...CENTRE, radius_m: 500, polygon: null, dwell_s: 600, imeis: null,
+  });
+  invalidateGeofences();
+
+  // The first position only establishes the state
+  await evaluateGeofences(IMEI, [record("2025-01-01T08:00:00Z", OUTSIDE)]);
+  assert.deepEqual(await events(), []);
+
+  await evaluateGeofences(IMEI, [
+    record("2025-01-01T08:05:00Z", CENTRE),
+    record("2025-01-01T08:10:00Z", CENTRE),
+    // No fix: ignored
+    record("2025-01-01T08:12:00Z", { latitude: 0, longitude: 0 }),
+    record("2025-01-01T08:16:00Z", CENTRE),
+    record("2025-01-01T08:20:00Z", CENTRE),
+  ]);
+  assert.deepEqual(await events(), ["enter@08:05", "dwell@08:16"]);
+
+  // Replayed history older than the last evaluated position changes nothing
+  await evaluateGeofences(IMEI, [record("2025-01-01T07:00:00Z", CENTRE), record("2025-01-01T08:30:00Z", OUTSIDE)]);
+  assert.deepEqual(await events(), ["enter@08:05", "dwell@08:16", "exit@08:30"]);
+
+  const [state] = await loadGeofenceStates(IMEI);
+  assert.equal(state.geofence_id, fence.id);
+  assert.equal(state.inside, false);
+  assert.equal(state.since, "2025-01-01T08:30:00.000Z");
+});
+
+test("fences assigned to other devices are not evaluated", async () => {
+  await createGeofence({
+    name: "elsewhere", kind: "circle", ...CENTRE, radius_m: 500, polygon: null, dwell_s: null, imeis: ["356307046452099"],
+  });
+  invalidateGeofences();
+
+  await evaluateGeofences(IMEI, [record("2025-01-01T09:00:00Z", CENTRE)]);
+  assert.equal((await loadGeofenceStates(IMEI)).length, 1);
+});
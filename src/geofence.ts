@@ -0,0 +1,144 @@
+/**
+ * Geofence evaluation.
+ *
+ * Every stored position is tested against the fences that apply to its
+ * device (assigned IMEIs, or fleet-wide when `imeis` is null). Transitions
+ * are written to tracker_geofence_events:
+ *
+ *   enter — previous position outside, this one inside
+ *   exit  — previous position inside, this one outside
+ *   dwell — inside continuously for the fence's dwell_s (once per visit)
+ *
+ * The inside/outside state per device × fence lives in tracker_geofence_state,
+ * so a restart or reconnect resumes from the last known state rather than
+ * emitting fresh "enter" events. The first position ever seen for a device ×
+ * fence only establishes that state — no event, since no crossing was
+ * observed. Positions older than the last one evaluated (replayed history)
+ * and positions without a GNSS fix are ignored.
+ */
+
+import {
+  listGeofences, loadGeofenceStates, saveGeofenceStates, insertGeofenceEvents,
+  type GeofenceRow, type GeofenceStateRow, type GeofenceEventInput,
+} from "./db.js";
+import { haversineM, pointInPolygon, hasFix, type LatLng } from "./geo.js";
+import type { AvlRecord } from "./teltonika.js";
+
+// Fences change rarely; the API invalidates the cache on every write
+const FENCE_CACHE_MS = 60_000;
+
+let fenceCache: { fences: GeofenceRow[]; expires: number } | null = null;
+
+// imei → fence id → state, loaded from storage on first use per device
+const deviceStates = new Map<string, Map<number, GeofenceStateRow>>();
+
+/** Forces the next evaluation to reload fences (call after any fence change). */
+export function invalidateGeofences(): void {
+  fenceCache = null;
+}
+
+async function fencesFor(imei: string): Promise<GeofenceRow[]> {
+  if (!fenceCache || fenceCache.expires <= Date.now()) {
+    fenceCache = { fences: await listGeofences(), expires: Date.now() + FENCE_CACHE_MS };
+  }
+  return fenceCache.fences.filter((f) => f.imeis === null || f.imeis.includes(imei));
+}
+
+async function statesFor(imei: string): Promise<Map<number, GeofenceStateRow>> {
+  let states = deviceStates.get(imei);
+  if (!states) {
+    const rows = await loadGeofenceStates(imei);
+    states = new Map(rows.map((row) => [row.geofence_id, row]));
+    deviceStates.set(imei, states);
+  }
+  return states;
+}
+
+export function fenceContains(fence: GeofenceRow, p: LatLng): boolean {
+  if (fence.kind === "circle") {
+    if (fence.latitude === null || fence.longitude === null || fence.radius_m === null) return false;
+    return haversineM({ latitude: fence.latitude, longitude: fence.longitude }, p) <= fence.radius_m;
+  }
+  return fence.polygon !== null && fence.polygon.length >= 3 && pointInPolygon(p, fence.polygon);
+}
+
+/**
+ * Evaluates a batch of records for one device and persists the resulting
+ * events and state. State is only committed to the in-memory cache after the
+ * database writes succeed, so a failed attempt can be retried safely.
+ */
+export async function evaluateGeofences(imei: string, records: AvlRecord[]): Promise<void> {
+  const fences = await fencesFor(imei);
+  if (fences.length === 0) return;
+
+  const cached = await statesFor(imei);
+  const working = new Map<number, GeofenceStateRow>();
+  const events: GeofenceEventInput[] = [];
+
+  const ordered = records
+    .filter((r) => hasFix(r))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  for (const record of ordered) {
+    const gpsTime = record.timestamp.toISOString();
+    const t = record.timestamp.getTime();
+
+    for (const fence of fences) {
+      const inside = fenceContains(fence, record);
+      const previous = working.get(fence.id) ?? cached.get(fence.id);
+
+      if (!previous) {
+        working.set(fence.id, {
+          imei,
+          geofence_id: fence.id,
+          inside,
+          since: gpsTime,
+          last_gps_time: gpsTime,
+          dwell_reported: false,
+        });
+        continue;
+      }
+
+      if (t <= Date.parse(previous.last_gps_time)) continue;
+
+      const state = { ...previous, last_gps_time: gpsTime };
+      const event = (type: GeofenceEventInput["event"]) =>
+        events.push({
+          geofence_id: fence.id,
+          imei,
+          event: type,
+          gps_time: gpsTime,
+          latitude: record.latitude,
+          longitude: record.longitude,
+        });
+
+      if (inside !== previous.inside) {
+        event(inside ? "enter" : "exit");
+        state.inside = inside;
+        state.since = gpsTime;
+        state.dwell_reported = false;
+      } else if (
+        inside &&
+        fence.dwell_s !== null &&
+        !previous.dwell_reported &&
+        t - Date.parse(previous.since) >= fence.dwell_s * 1000
+      ) {
+        event("dwell");
+        state.dwell_reported = true;
+      }
+
+      working.set(fence.id, state);
+    }
+  }
+
+  if (working.size === 0) return;
+
+  await insertGeofenceEvents(events);
+  await saveGeofenceStates([...working.values()]);
+
+  for (const [fenceId, state] of working) cached.set(fenceId, state);
+
+  for (const e of events) {
+    console.log(`[◎] IMEI: ${imei} — geofence ${e.geofence_id} ${e.event} at ${e.gps_time}`);
+  }
+}
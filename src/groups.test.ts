@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addGroupMembers, createGroup, createOrganisation, listGroups, upsertDevice } from "./db.js";
+import { createsCycle, descendantIds, groupImeis } from "./groups.js";
+
+// region ─┬─ depot A ── bay 1
+//         └─ depot B
+async function hierarchy() {
+  const org = await createOrganisation("Acme");
+  const region = await createGroup({ organisation_id: org.id, parent_id: null, name: "region" });
+  const depotA = await createGroup({ organisation_id: org.id, parent_id: region.id, name: "depot A" });
+  const depotB = await createGroup({ organisation_id: org.id, parent_id: region.id, name: "depot B" });
+  const bay = await createGroup({ organisation_id: org.id, parent_id: depotA.id, name: "bay 1" });
+  return { org, region, depotA, depotB, bay };
+}
+
+test("descendantIds walks every level; createsCycle rejects moving a group beneath itself", async () => {
+  const { org, region, depotA, depotB, bay } = await hierarchy();
+  const groups = await listGroups(org.id);
+
+  assert.deepEqual(descendantIds(groups, region.id).sort(), [region.id, depotA.id, depotB.id, bay.id].sort());
+  assert.deepEqual(descendantIds(groups, depotB.id), [depotB.id]);
+
+  assert.equal(createsCycle(groups, region.id, bay.id), true);
+  assert.equal(createsCycle(groups, depotA.id, depotA.id), true);
+  assert.equal(createsCycle(groups, bay.id, depotB.id), false);
+});
+
+test("a group's devices include those of its subgroups", async () => {
+  const { region, depotA, depotB, bay } = await hierarchy();
+  for (const imei of ["356307046452001", "356307046452002", "356307046452003"]) await upsertDevice(imei);
+  await addGroupMembers(bay.id, ["356307046452001"]);
+  await addGroupMembers(depotA.id, ["356307046452002"]);
+  await addGroupMembers(depotB.id, ["356307046452003"]);
+
+  assert.deepEqual([...(await groupImeis(region))].sort(), ["356307046452001", "356307046452002", "356307046452003"]);
+  assert.deepEqual([...(await groupImeis(depotA))].sort(), ["356307046452001", "356307046452002"]);
+  assert.deepEqual([...(await groupImeis(bay))], ["356307046452001"]);
+});
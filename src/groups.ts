@@ -0,0 +1,33 @@
+/**
+ * Device group hierarchy helpers.
+ *
+ * Groups belong to one organisation and may nest (parent_id). A device in a
+ * group also counts as a member of every enclosing group, so filtering by a
+ * region group covers the depots beneath it. Hierarchies are small, so they
+ * are read in full per request rather than cached.
+ */
+
+import { listGroupMembers, listGroups, type GroupRow } from "./db.js";
+
+/** `id` and every group nested beneath it. */
+export function descendantIds(groups: GroupRow[], id: number): number[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const g of groups) {
+      if (g.parent_id === ids[i] && !ids.includes(g.id)) ids.push(g.id);
+    }
+  }
+  return ids;
+}
+
+/** Whether making `parentId` the parent of `id` would put `id` inside itself. */
+export function createsCycle(groups: GroupRow[], id: number, parentId: number): boolean {
+  return descendantIds(groups, id).includes(parentId);
+}
+
+/** Devices in a group or any of its subgroups. */
+export async function groupImeis(group: GroupRow): Promise<Set<string>> {
+  const groups = await listGroups(group.organisation_id);
+  const members = await listGroupMembers(descendantIds(groups, group.id));
+  return new Set(members.map((m) => m.imei));
+}
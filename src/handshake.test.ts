@@ -0,0 +1,48 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+
+// Policy and limits are read when the module loads
+process.env.HANDSHAKE_POLICY = "provision";
+process.env.HANDSHAKE_MAX_REJECTS = "3";
+
+let handshake: typeof import("./handshake.js");
+let db: typeof import("./db.js");
+
+before(async () => {
+  db = await import("./db.js");
+  handshake = await import("./handshake.js");
+});
+
+test("provision policy creates unknown devices as pending and rejects them", async () => {
+  const decision = await handshake.authorizeImei("356307046452013");
+  assert.deepEqual(decision, { ok: false, reason: "device provisioned, pending approval" });
+  assert.equal((await db.getDevice("356307046452013"))?.approval_status, "pending");
+
+  assert.deepEqual(await handshake.authorizeImei("356307046452013"), {
+    ok: false,
+    reason: "device is pending approval",
+  });
+});
+
+test("approval applies once the cached lookup is forgotten", async () => {
+  await db.setDeviceApproval("356307046452013", "approved");
+  // Still cached as pending
+  assert.equal((await handshake.authorizeImei("356307046452013")).ok, false);
+
+  handshake.forgetApproval("356307046452013");
+  assert.deepEqual(await handshake.authorizeImei("356307046452013"), { ok: true });
+});
+
+test("blocked devices are rejected", async () => {
+  await db.setDeviceApproval("356307046452099", "blocked");
+  assert.deepEqual(await handshake.authorizeImei("356307046452099"), { ok: false, reason: "device is blocked" });
+});
+
+test("an IP is banned after HANDSHAKE_MAX_REJECTS rejections in a window", () => {
+  for (let i = 0; i < 2; i++) handshake.recordRejection("10.0.0.9", null, "bad IMEI");
+  assert.equal(handshake.isRateLimited("10.0.0.9"), false);
+
+  handshake.recordRejection("10.0.0.9", null, "bad IMEI");
+  assert.equal(handshake.isRateLimited("10.0.0.9"), true);
+  assert.equal(handshake.isRateLimited("10.0.0.10"), false);
+});
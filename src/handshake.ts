@@ -0,0 +1,126 @@
+/**
+ * IMEI handshake policy.
+ *
+ * HANDSHAKE_POLICY selects who may connect:
+ *   open       — any well-formed IMEI (unknown devices are created approved)
+ *   allowlist  — only devices already in tracker_devices with status approved
+ *   provision  — unknown devices are created as "pending" and rejected until
+ *                an operator approves them through the API
+ *
+ * Blocked devices are rejected under every policy. In open mode a failed
+ * device lookup lets the device in (the database may just be down); the
+ * stricter modes reject instead and the device retries later.
+ *
+ * Rejections are logged with the remote IP. An IP that collects
+ * HANDSHAKE_MAX_REJECTS rejections within HANDSHAKE_REJECT_WINDOW_MS is
+ * banned for one window: its connections are dropped before any parsing.
+ */
+
+import { getDevice, upsertDevice } from "./db.js";
+import type { ApprovalStatus } from "./db.js";
+
+type HandshakePolicy = "open" | "allowlist" | "provision";
+
+const POLICY = parsePolicy(process.env.HANDSHAKE_POLICY || "open");
+const MAX_REJECTS = Number(process.env.HANDSHAKE_MAX_REJECTS || 5);
+const REJECT_WINDOW_MS = Number(process.env.HANDSHAKE_REJECT_WINDOW_MS || 60_000);
+
+// Approval lookups are cached briefly so reconnect storms and UDP traffic do
+// not hit the database for every handshake / datagram
+const APPROVAL_CACHE_MS = 30_000;
+
+function parsePolicy(value: string): HandshakePolicy {
+  if (value === "open" || value === "allowlist" || value === "provision") return value;
+  throw new Error(`Unknown HANDSHAKE_POLICY "${value}" (expected open, allowlist or provision)`);
+}
+
+export type HandshakeDecision = { ok: true } | { ok: false; reason: string };
+
+const approvalCache = new Map<string, { approval: ApprovalStatus | null; expires: number }>();
+
+async function lookupApproval(imei: string): Promise<ApprovalStatus | null> {
+  const cached = approvalCache.get(imei);
+  if (cached && cached.expires > Date.now()) return cached.approval;
+
+  const device = await getDevice(imei);
+  const approval = device?.approval_status ?? null;
+  approvalCache.set(imei, { approval, expires: Date.now() + APPROVAL_CACHE_MS });
+  return approval;
+}
+
+/** Drops the cached approval so an API change applies to the next handshake. */
+export function forgetApproval(imei: string): void {
+  approvalCache.delete(imei);
+}
+
+/** Decides whether a device with a well-formed IMEI may proceed. */
+export async function authorizeImei(imei: string): Promise<HandshakeDecision> {
+  let approval: ApprovalStatus | null;
+  try {
+    approval = await lookupApproval(imei);
+  } catch (err) {
+    if (POLICY === "open") return { ok: true };
+    return { ok: false, reason: `device lookup failed: ${(err as Error).message}` };
+  }
+
+  if (approval === "blocked") return { ok: false, reason: "device is blocked" };
+  if (approval === "approved") return { ok: true };
+  if (approval === "pending") return { ok: false, reason: "device is pending approval" };
+
+  // Unknown device
+  switch (POLICY) {
+    case "open":
+      return { ok: true };
+    case "allowlist":
+      return { ok: false, reason: "device is not on the allowlist" };
+    case "provision":
+      try {
+        await upsertDevice(imei, "pending");
+        forgetApproval(imei);
+      } catch (err) {
+        return { ok: false, reason: `provisioning failed: ${(err as Error).message}` };
+      }
+      console.log(`[*] IMEI ${imei} provisioned, pending approval`);
+      return { ok: false, reason: "device provisioned, pending approval" };
+  }
+}
+
+// ── Per-IP rejection rate limiting ────────────────────────────────────────────
+
+type RejectWindow = { count: number; windowStart: number; bannedUntil: number };
+
+const rejects = new Map<string, RejectWindow>();
+
+/** True while the IP is serving a ban for repeated rejected handshakes. */
+export function isRateLimited(ip: string): boolean {
+  const entry = rejects.get(ip);
+  return Boolean(entry && entry.bannedUntil > Date.now());
+}
+
+/** Logs a rejected handshake and counts it against the remote IP. */
+export function recordRejection(ip: string, imei: string | null, reason: string): void {
+  const now = Date.now();
+  let entry = rejects.get(ip);
+  if (!entry || now - entry.windowStart > REJECT_WINDOW_MS) {
+    entry = { count: 0, windowStart: now, bannedUntil: 0 };
+    rejects.set(ip, entry);
+  }
+  entry.count++;
+
+  console.warn(`[!] Handshake rejected from ${ip} (IMEI: ${imei ?? "invalid"}): ${reason}`);
+
+  if (entry.count >= MAX_REJECTS && entry.bannedUntil <= now) {
+    entry.bannedUntil = now + REJECT_WINDOW_MS;
+    console.warn(
+      `[!] ${ip} rate-limited for ${REJECT_WINDOW_MS} ms after ${entry.count} rejected handshakes`
+    );
+  }
+}
+
+// Forget stale windows so the map does not grow with every scanner IP
+setInterval(() => {
+  const now = Date.now();
+  for (const [ip, entry] of rejects) {
+    if (entry.bannedUntil <= now && now - entry.windowStart > REJECT_WINDOW_MS) rejects.delete(ip);
+  }
+}, REJECT_WINDOW_MS).unref();
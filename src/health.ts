@@ -0,0 +1,160 @@
+/**
+ * Device health summary (GET /devices/:imei/health): the derived status and
+ * what is behind it, read from the device's most recent records — last GNSS
+ * fix, GNSS status, GSM signal, sleep mode, and battery / external voltage
+ * trends over the last HEALTH_TREND_H hours.
+ *
+ * A tracker appears unplugged when its external supply reads below
+ * UNPLUGGED_VOLTAGE_V: it then runs on its internal battery, which the
+ * battery trend shows draining.
+ */
+
+import { listPositions, type DeviceRow, type DeviceStatus, type PositionRow } from "./db.js";
+import { hasFix } from "./geo.js";
+import { isDeviceConnected } from "./sessions.js";
+import { lastActivity, statusThresholds, watchdogStatus, type StatusThresholds } from "./watchdog.js";
+
+const TREND_H = Number(process.env.HEALTH_TREND_H || 24);
+const UNPLUGGED_VOLTAGE_V = Number(process.env.UNPLUGGED_VOLTAGE_V || 6);
+
+// Records read per request; the last fix is looked for among them
+const RECENT_RECORDS = 500;
+
+const HOUR_MS = 3_600_000;
+
+// IO 69
+const GNSS_STATUS_LABELS: Record<number, string> = {
+  0: "off",
+  1: "fix",
+  2: "no_fix",
+  3: "sleep",
+  4: "fix_invalid",
+};
+
+// IO 200
+const SLEEP_MODE_LABELS: Record<number, string> = {
+  0: "none",
+  1: "gps_sleep",
+  2: "deep_sleep",
+  3: "online_sleep",
+  4: "ultra_sleep",
+};
+
+export type Reading = { value: number; label?: string; gps_time: string };
+
+export type VoltageTrend = {
+  current: number;
+  min: number;
+  max: number;
+  /** Least-squares slope over the window, in volts per hour; null with fewer than two readings. */
+  slope_v_per_h: number | null;
+  samples: number;
+};
+
+export type DeviceHealth = {
+  imei: string;
+  /** As stored; `derived_status` is what the watchdog would set now. */
+  status: DeviceStatus | null;
+  derived_status: DeviceStatus | null;
+  connected: boolean;
+  last_seen_at: string | null;
+  last_data_at: string | null;
+  /** Seconds since the newer of the two. */
+  silent_s: number | null;
+  thresholds: StatusThresholds;
+  last_fix: { gps_time: string; age_s: number; satellites: number } | null;
+  gnss_status: Reading | null;
+  gsm_signal: Reading | null;
+  sleep_mode: Reading | null;
+  trend_hours: number;
+  external_voltage: VoltageTrend | null;
+  battery_voltage: VoltageTrend | null;
+  /** Null without an external voltage reading in the trend window. */
+  unplugged: boolean | null;
+  /** Oldest consecutive reading below the threshold, while unplugged. */
+  unplugged_since: string | null;
+};
+
+const ageS = (time: string, now: number) => Math.round((now - Date.parse(time)) / 1000);
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function numeric(p: PositionRow, column: string): number | null {
+  const value = p[column];
+  return typeof value === "number" ? value : null;
+}
+
+/** Newest reading of a promoted column. `positions` are newest first. */
+function latestReading(positions: PositionRow[], column: string, labels?: Record<number, string>): Reading | null {
+  for (const p of positions) {
+    const value = numeric(p, column);
+    if (value === null) continue;
+    return labels ? { value, label: labels[value] ?? "unknown", gps_time: p.gps_time } : { value, gps_time: p.gps_time };
+  }
+  return null;
+}
+
+function voltageTrend(positions: PositionRow[], column: string, since: number): VoltageTrend | null {
+  const points = positions
+    .filter((p) => Date.parse(p.gps_time) >= since)
+    .map((p) => ({ h: Date.parse(p.gps_time) / HOUR_MS, v: numeric(p, column) }))
+    .filter((pt): pt is { h: number; v: number } => pt.v !== null);
+  if (points.length === 0) return null;
+
+  const values = points.map((pt) => pt.v);
+  const meanH = points.reduce((s, pt) => s + pt.h, 0) / points.length;
+  const meanV = values.reduce((s, v) => s + v, 0) / values.length;
+  let num = 0;
+  let den = 0;
+  for (const pt of points) {
+    num += (pt.h - meanH) * (pt.v - meanV);
+    den += (pt.h - meanH) ** 2;
+  }
+
+  return {
+    current: points[0].v,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    slope_v_per_h: den > 0 ? round(num / den, 4) : null,
+    samples: points.length,
+  };
+}
+
+export async function deviceHealth(device: DeviceRow, now = Date.now()): Promise<DeviceHealth> {
+  const positions = await listPositions(device.imei, {}, RECENT_RECORDS);
+  const since = now - TREND_H * HOUR_MS;
+  const fix = positions.find(hasFix);
+  const last = lastActivity(device);
+
+  const external = voltageTrend(positions, "external_voltage_v", since);
+  const unplugged = external === null ? null : external.current < UNPLUGGED_VOLTAGE_V;
+  let unpluggedSince: string | null = null;
+  if (unplugged) {
+    for (const p of positions) {
+      const v = numeric(p, "external_voltage_v");
+      if (v === null) continue;
+      if (v >= UNPLUGGED_VOLTAGE_V) break;
+      unpluggedSince = p.gps_time;
+    }
+  }
+
+  return {
+    imei: device.imei,
+    status: device.status,
+    derived_status: await watchdogStatus(device, now),
+    connected: isDeviceConnected(device.imei),
+    last_seen_at: device.last_seen_at,
+    last_data_at: device.last_data_at,
+    silent_s: last === null ? null : Math.round((now - last) / 1000),
+    thresholds: statusThresholds(device),
+    last_fix: fix ? { gps_time: fix.gps_time, age_s: ageS(fix.gps_time, now), satellites: fix.satellites } : null,
+    gnss_status: latestReading(positions, "gnss_status", GNSS_STATUS_LABELS),
+    gsm_signal: latestReading(positions, "gsm_signal"),
+    sleep_mode: latestReading(positions, "sleep_mode", SLEEP_MODE_LABELS),
+    trend_hours: TREND_H,
+    external_voltage: external,
+    battery_voltage: voltageTrend(positions, "battery_voltage_v", since),
+    unplugged,
+    unplugged_since: unpluggedSince,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Transport-independent AVL ingestion, shared by the TCP and UDP listeners.
+ *
+ * Ingestion is split in two around the on-disk spool (see spool.ts):
+ *
+ *   ingestAvlPacket  — validate, append to the spool, ACK. Never touches the
+ *                      database, so ACKs keep flowing during an outage.
+ *   flushSpoolEntry  — run by the spool worker: store the raw packet, parse
+ *                      and store positions, then run the per-position
+ *                      consumers (geofences, trips, alerts, webhooks,
+ *                      live streams) and record when the device last sent
+ *                      data (see watchdog.ts).
+ *   discardSpoolEntry — run by the spool worker for an entry it gave up on.
+ *
+ * A packet that fails validation is still spooled and stored, but
+ * acknowledged with 0 so the device keeps the records and resends them.
+ * One that passes but still cannot be parsed is stored with the error as its
+ * parse_error. A flush that fails part-way is retried from the step that
+ * failed, so consumers that already ran do not run twice.
+ */
+
+import {
+  upsertDevice, updateDeviceLastData, saveRawPacket, savePositions, deletePositionsForRaw,
+} from "./db.js";
+import { appendToSpool, type SpoolEntry } from "./spool.js";
+import { evaluateGeofences } from "./geofence.js";
+import { updateTrips } from "./trips.js";
+import { evaluateAlerts } from "./alerts.js";
+import { queueRecordWebhooks } from "./webhooks.js";
+import { publishPositions } from "./events.js";
+import { checkDeviceStatus, setDeviceDisconnected, setDeviceStatus } from "./watchdog.js";
+import {
+  extractAvlRecordCount, extractCodecId, parseAvlPacket, validateAvlPacket, type AvlRecord,
+} from "./teltonika.js";
+import { dictionaryForDevice } from "./deviceModels.js";
+import {
+  ackDuration, codecLabel, deviceLabels, packetsReceived, parseFailures, recordCountMismatches, recordsReceived,
+} from "./metrics.js";
+
+/**
+ * `ack` is invoked once the packet is durable in the spool, with the record
+ * count to put in the ACK — 0 means "resend". Returns that count.
+ */
+export async function ingestAvlPacket(
+  imei: string,
+  remote: string,
+  buf: Buffer,
+  ack: (accepted: number) => void
+): Promise<number> {
+  const started = performance.now();
+  const check = validateAvlPacket(buf);
+  const codec = codecLabel(extractCodecId(buf));
+  packetsReceived.inc(deviceLabels(imei, { codec }));
+
+  const entry = await appendToSpool({
+    imei,
+    remote,
+    packet_hex: buf.toString("hex"),
+    crc_valid: check.ok || check.crcValid,
+    parse_error: check.ok ? null : check.reason,
+  });
+
+  if (!check.ok) {
+    ack(0);
+    ackDuration.observe({}, (performance.now() - started) / 1000);
+    parseFailures.inc(deviceLabels(imei, { reason: check.code }));
+    console.warn(`[!] IMEI: ${imei} — spool seq ${entry.seq} rejected: ${check.reason}`);
+    return 0;
+  }
+
+  // ACK uses the header count so the device gets a correct response
+  // even if parsing partially fails
+  const recordCount = extractAvlRecordCount(buf);
+  ack(recordCount);
+  ackDuration.observe({}, (performance.now() - started) / 1000);
+  recordsReceived.inc(deviceLabels(imei, { codec }), recordCount);
+  return recordCount;
+}
+
+// Devices upserted since startup — handshakes may have happened while the
+// database was unreachable, so the worker makes sure the device row exists
+const knownDevices = new Set<string>();
+
+/**
+ * Best-effort device registration and "online" status. Not awaited by the
+ * transports: a slow or unreachable database must not hold up the handshake,
+ * and flushSpoolEntry creates the device row later if this fails.
+ */
+export function markDeviceOnline(imei: string): void {
+  (async () => {
+    if (!knownDevices.has(imei)) {
+      await upsertDevice(imei);
+      knownDevices.add(imei);
+    }
+    await setDeviceStatus(imei, "online");
+  })().catch((err) =>
+    console.error(`[✗] Failed to mark online (${imei}):`, err.message)
+  );
+}
+
+/**
+ * Best-effort "offline" (or "sleeping", see watchdog.ts) status when a TCP
+ * session ends. Never rejects; awaited only at shutdown.
+ */
+export function markDeviceOffline(imei: string): Promise<void> {
+  return setDeviceDisconnected(imei).catch((err) =>
+    console.error(`[✗] Failed to mark offline (${imei}):`, err.message)
+  );
+}
+
+// What a flushed entry goes through after its raw packet is stored, in order
+const FLUSH_STEPS = ["positions", "geofences", "trips", "alerts", "webhooks"] as const;
+type FlushStep = (typeof FLUSH_STEPS)[number];
+
+// Progress of entries whose flush failed part-way, by seq, so a retry neither
+// stores the raw packet twice nor re-runs consumers that already ran
+// (duplicate geofence events, alerts and webhook deliveries)
+const flushProgress = new Map<number, {
+  rawPacketId: number;
+  records: AvlRecord[];
+  parseError: string | null;
+  done: Set<FlushStep>;
+}>();
+
+/**
+ * Decodes a validated packet. A packet the parser cannot read is stored with
+ * the error as its parse_error instead of failing the flush: retrying would
+ * fail the same way and hold up every entry behind it.
+ */
+async function parseEntry(entry: SpoolEntry, buf: Buffer): Promise<{ records: AvlRecord[]; parseError: string | null }> {
+  if (entry.parse_error !== null) return { records: [], parseError: entry.parse_error };
+  const dictionary = await dictionaryForDevice(entry.imei);
+  try {
+    return { records: parseAvlPacket(buf, dictionary), parseError: null };
+  } catch (err) {
+    parseFailures.inc(deviceLabels(entry.imei, { reason: "parse_error" }));
+    console.warn(`[!] IMEI: ${entry.imei} — spool seq ${entry.seq} could not be parsed: ${(err as Error).message}`);
+    return { records: [], parseError: `parse failed: ${(err as Error).message}` };
+  }
+}
+
+export async function flushSpoolEntry(entry: SpoolEntry): Promise<void> {
+  const { imei } = entry;
+  const buf = Buffer.from(entry.packet_hex, "hex");
+
+  if (!knownDevices.has(imei)) {
+    await upsertDevice(imei);
+    knownDevices.add(imei);
+  }
+
+  let progress = flushProgress.get(entry.seq);
+  const retry = progress !== undefined;
+  if (!progress) {
+    const { records, parseError } = await parseEntry(entry, buf);
+    const rawPacketId = await saveRawPacket(imei, entry.remote, buf, {
+      crcValid: entry.crc_valid,
+      parseError,
+    });
+    // Nothing to hand to the consumers when the packet was not parsed
+    progress = { rawPacketId, records, parseError, done: new Set(parseError === null ? [] : FLUSH_STEPS) };
+    flushProgress.set(entry.seq, progress);
+
+    const announced = extractAvlRecordCount(buf);
+    if (parseError === null && records.length < announced) {
+      recordCountMismatches.inc(deviceLabels(imei, { codec: codecLabel(extractCodecId(buf)) }));
+      console.warn(`[!] IMEI: ${imei} — header announced ${announced} records, parsed ${records.length}`);
+    }
+  }
+
+  const { rawPacketId, records, parseError, done } = progress;
+  const step = async (name: FlushStep, run: () => Promise<void>) => {
+    if (done.has(name)) return;
+    await run();
+    done.add(name);
+  };
+
+  await step("positions", async () => {
+    // An earlier attempt may have inserted some positions before failing
+    if (retry) await deletePositionsForRaw(rawPacketId);
+    await savePositions(imei, records, rawPacketId);
+  });
+  await step("geofences", () => evaluateGeofences(imei, records));
+  await step("trips", () => updateTrips(imei, records));
+  await step("alerts", () => evaluateAlerts(imei, records));
+  await step("webhooks", () => queueRecordWebhooks(imei, records));
+
+  if (parseError === null) {
+    publishPositions(imei, records);
+    console.log(
+      `[✓] IMEI: ${imei} — raw_id: ${rawPacketId}, records: ${extractAvlRecordCount(buf)}, positions: ${records.length}`
+    );
+  }
+
+  // Best-effort: failing here must not retry the entry, which would run the
+  // consumers above twice
+  try {
+    await updateDeviceLastData(imei, entry.received_at);
+    await checkDeviceStatus(imei, entry.received_at);
+  } catch (err) {
+    console.error(`[✗] Failed to update last data (${imei}):`, (err as Error).message);
+  }
+
+  flushProgress.delete(entry.seq);
+}
+
+/**
+ * Told by the spool worker about an entry it moved to dead-letter.jsonl: the
+ * entry is not retried, so its partial progress is dropped.
+ */
+export function discardSpoolEntry(entry: SpoolEntry): void {
+  flushProgress.delete(entry.seq);
+}
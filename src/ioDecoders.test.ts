@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decoderFor, IO_DECODERS } from "./ioDecoders.js";
+import { parseAvlPacket, wrapDataField } from "./teltonika.js";
+
+function fixed(id: number, raw: number) {
+  const decoder = IO_DECODERS[id];
+  assert.ok(decoder.kind === "fixed");
+  return decoder.decode(raw);
+}
+
+function variable(id: number, hex: string) {
+  const decoder = IO_DECODERS[id];
+  assert.ok(decoder.kind === "variable");
+  return decoder.decode(Buffer.from(hex, "hex"));
+}
+
+test("BLE temperature and humidity scale readings and map error codes", () => {
+  assert.deepEqual(fixed(25, 2345), { value: 23.45 });
+  assert.deepEqual(fixed(25, -512), { value: -5.12 });
+  assert.deepEqual(fixed(26, 3000), { error: "sensor_not_found" });
+  assert.deepEqual(fixed(86, 455), { value: 45.5 });
+  assert.deepEqual(fixed(104, 65535), { error: "sensor_not_found" });
+});
+
+test("VIN is ASCII with padding removed", () => {
+  const hex = Buffer.from("wvwzzz1jz3w386752\0\0", "latin1").toString("hex");
+  assert.deepEqual(variable(256, hex), { value: "WVWZZZ1JZ3W386752" });
+  assert.deepEqual(variable(256, "ffff"), { error: "not_a_vin" });
+});
+
+test("crash trace samples are signed X / Y / Z triples with their peak", () => {
+  assert.deepEqual(variable(257, "0064ff380000" + "000003e80000"), {
+    value: { sample_count: 2, peak_mg: 1000, samples: [{ x: 100, y: -200, z: 0 }, { x: 0, y: 1000, z: 0 }] },
+  });
+  assert.deepEqual(variable(257, "0064ff38"), { error: "unexpected_length_4" });
+});
+
+test("beacon lists decode iBeacon and Eddystone entries", () => {
+  const uuid = "f7826da64fa24e988024bc5b71e0893e";
+  const namespace = "00112233445566778899";
+  const instance = "aabbccddeeff";
+  const hex = "11" + "21" + uuid + "0001" + "0002" + "c4" + "00" + namespace + instance;
+
+  assert.deepEqual(variable(385, hex), {
+    value: {
+      part: 1, parts: 1,
+      beacons: [
+        { type: "ibeacon", uuid, major: 1, minor: 2, rssi: -60 },
+        { type: "eddystone", namespace, instance, rssi: null },
+      ],
+    },
+  });
+  assert.deepEqual(variable(385, "1121" + uuid), { error: "truncated" });
+});
+
+test("EYE sensor data decodes the fields its flags announce", () => {
+  // Company id, version 1, temperature + humidity + magnet (detected) + battery voltage
+  assert.deepEqual(variable(331, "9a08" + "01" + "8f" + "0929" + "2d" + "64"), {
+    value: { temperature_c: 23.45, humidity_pct: 45, magnet: true, low_battery: false, battery_mv: 3000 },
+  });
+  assert.deepEqual(variable(332, "0101"), { error: "truncated" });
+  assert.deepEqual(variable(333, "0200"), { error: "not_eye_data" });
+});
+
+test("decoders apply only under the IO name they expect", () => {
+  assert.equal(decoderFor(25, "ble_temp_1", "fixed")?.name, "ble_temp_1");
+  assert.equal(decoderFor(25, "analog_probe", "fixed"), null);
+  assert.equal(decoderFor(256, "vin", "fixed"), null);
+});
+
+test("the parser stores decoded values, errors and raw hex", () => {
+  const record = Buffer.alloc(8 + 1 + 15);
+  record.writeBigUInt64BE(1_735_725_600_000n, 0);
+  const io = Buffer.from(
+    "0000" + "0003" + // event IO, total IO count
+    "0000" + // 1-byte IOs
+    "0002" + "0019" + "0929" + "001a" + "0bb8" + // 2-byte: ble_temp_1 = 2345, ble_temp_2 = 3000 (not found)
+    "0000" + "0000" + // 4- and 8-byte IOs
+    "0001" + "0100" + "0011" + Buffer.from("WVWZZZ1JZ3W386752", "latin1").toString("hex"),
+    "hex"
+  );
+  const data = Buffer.concat([Buffer.from("8e01", "hex"), record, io, Buffer.from("01", "hex")]);
+
+  const [parsed] = parseAvlPacket(wrapDataField(data));
+  assert.deepEqual(parsed.ioData, {
+    ble_temp_1: 23.45,
+    ble_temp_2_error: "sensor_not_found",
+    vin_hex: Buffer.from("WVWZZZ1JZ3W386752", "latin1").toString("hex"),
+    vin: "WVWZZZ1JZ3W386752",
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Semantic decoders for IO elements whose raw value is not directly usable,
+ * keyed by AVL ID. The parser (teltonika.ts) consults this registry before
+ * falling back to the dictionary's scale / boolean handling.
+ *
+ *   BLE temperature (25–28)  — signed, 0.01 °C
+ *   BLE humidity (86, 104, 106, 108) — 0.1 %RH
+ *   VIN (256)                — ASCII
+ *   crash trace (257)        — accelerometer samples, X / Y / Z in mG
+ *   beacons (385)            — iBeacon / Eddystone ids with RSSI
+ *   BLE custom 1–4 (331–334) — Teltonika EYE sensor advertising data, when a
+ *                              BLE sensor slot is set to forward it
+ *
+ * Each decoder names the IO it expects; a model whose dictionary gives the ID
+ * a different name (see avlDictionary.ts) keeps the plain dictionary decoding.
+ *
+ * A decoder returns either a value or an error. Sensor error codes (e.g. BLE
+ * "sensor not found") become `<name>_error` instead of a bogus reading.
+ * Variable-length IOs always keep their raw `<name>_hex` next to the decoded
+ * value, so a decoder bug never loses data.
+ */
+
+import type { IoStruct, IoValue } from "./teltonika.js";
+
+export type DecodedIo = { value: IoValue } | { error: string };
+
+export type IoDecoder =
+  | { kind: "fixed"; name: string; decode(raw: number): DecodedIo }
+  | { kind: "variable"; name: string; decode(bytes: Buffer): DecodedIo };
+
+// ── BLE sensors ───────────────────────────────────────────────────────────────
+
+// Error codes sent in place of a BLE sensor reading
+const BLE_TEMP_ERRORS: Record<number, string> = {
+  4000: "abnormal_sensor_state",
+  3000: "sensor_not_found",
+  2000: "sensor_data_parse_failed",
+};
+
+const BLE_HUMIDITY_ERRORS: Record<number, string> = {
+  65535: "sensor_not_found",
+  65534: "sensor_data_parse_failed",
+  65533: "abnormal_sensor_state",
+};
+
+const bleTemperature = (raw: number): DecodedIo =>
+  BLE_TEMP_ERRORS[raw] ? { error: BLE_TEMP_ERRORS[raw] } : { value: raw / 100 };
+
+const bleHumidity = (raw: number): DecodedIo =>
+  BLE_HUMIDITY_ERRORS[raw] ? { error: BLE_HUMIDITY_ERRORS[raw] } : { value: raw / 10 };
+
+// ── Variable-length ───────────────────────────────────────────────────────────
+
+function vin(bytes: Buffer): DecodedIo {
+  // Trailing NUL / space padding is common
+  const text = bytes.toString("latin1").replace(/[\0 ]+$/, "");
+  if (!/^[A-HJ-NPR-Z0-9]{11,17}$/i.test(text)) return { error: "not_a_vin" };
+  return { value: text.toUpperCase() };
+}
+
+/** Consecutive X / Y / Z signed 16-bit big-endian samples, in mG. */
+function crashTrace(bytes: Buffer): DecodedIo {
+  if (bytes.length === 0 || bytes.length % 6 !== 0) return { error: `unexpected_length_${bytes.length}` };
+
+  const samples: IoStruct[] = [];
+  let peak = 0;
+  for (let o = 0; o < bytes.length; o += 6) {
+    const x = bytes.readInt16BE(o);
+    const y = bytes.readInt16BE(o + 2);
+    const z = bytes.readInt16BE(o + 4);
+    peak = Math.max(peak, Math.hypot(x, y, z));
+    samples.push({ x, y, z });
+  }
+  return { value: { sample_count: samples.length, peak_mg: Math.round(peak), samples } };
+}
+
+/**
+ * Beacon list: a data-part byte (part / total, one nibble each), then per
+ * beacon a flags byte, the beacon id and an RSSI byte. Flag 0x20 marks an
+ * iBeacon (UUID, major, minor — 20 bytes), otherwise Eddystone (namespace,
+ * instance — 16 bytes); flag 0x01 means the RSSI is present.
+ */
+function beacons(bytes: Buffer): DecodedIo {
+  if (bytes.length < 1) return { error: "empty" };
+  const list: IoStruct[] = [];
+  let o = 1;
+
+  while (o < bytes.length) {
+    const flags = bytes.readUInt8(o++);
+    const iBeacon = (flags & 0x20) !== 0;
+    const idLength = iBeacon ? 20 : 16;
+    const rssiLength = flags & 0x01 ? 1 : 0;
+    if (o + idLength + rssiLength > bytes.length) return { error: "truncated" };
+
+    const beacon: IoStruct = iBeacon
+      ? {
+          type: "ibeacon",
+          uuid: bytes.subarray(o, o + 16).toString("hex"),
+          major: bytes.readUInt16BE(o + 16),
+          minor: bytes.readUInt16BE(o + 18),
+        }
+      : {
+          type: "eddystone",
+          namespace: bytes.subarray(o, o + 10).toString("hex"),
+          instance: bytes.subarray(o + 10, o + 16).toString("hex"),
+        };
+    o += idLength;
+    beacon.rssi = rssiLength ? bytes.readInt8(o) : null;
+    o += rssiLength;
+    list.push(beacon);
+  }
+
+  return {
+    value: { part: bytes.readUInt8(0) >> 4, parts: bytes.readUInt8(0) & 0x0f, beacons: list },
+  };
+}
+
+const EYE_COMPANY_ID = Buffer.from([0x9a, 0x08]); // 0x089A, little-endian as advertised
+const EYE_PROTOCOL_VERSION = 0x01;
+
+/**
+ * Teltonika EYE sensor manufacturer data (protocol version 1): a version
+ * byte and a flags byte, followed by the fields the flags announce, in flag
+ * order. A leading company id is skipped if the sensor slot forwards it.
+ */
+function eyeSensor(bytes: Buffer): DecodedIo {
+  const data = bytes.subarray(0, 2).equals(EYE_COMPANY_ID) ? bytes.subarray(2) : bytes;
+  if (data.length < 2 || data.readUInt8(0) !== EYE_PROTOCOL_VERSION) return { error: "not_eye_data" };
+
+  const flags = data.readUInt8(1);
+  const value: IoStruct = {};
+  let o = 2;
+  const need = (n: number) => o + n <= data.length;
+
+  if (flags & 0x01) {
+    if (!need(2)) return { error: "truncated" };
+    value.temperature_c = data.readInt16BE(o) / 100;
+    o += 2;
+  }
+  if (flags & 0x02) {
+    if (!need(1)) return { error: "truncated" };
+    value.humidity_pct = data.readUInt8(o);
+    o += 1;
+  }
+  if (flags & 0x04) value.magnet = (flags & 0x08) !== 0;
+  if (flags & 0x10) {
+    if (!need(2)) return { error: "truncated" };
+    const movement = data.readUInt16BE(o);
+    value.moving = (movement & 0x8000) !== 0;
+    value.movement_count = movement & 0x7fff;
+    o += 2;
+  }
+  if (flags & 0x20) {
+    if (!need(3)) return { error: "truncated" };
+    value.pitch_deg = data.readInt8(o);
+    value.roll_deg = data.readInt16BE(o + 1);
+    o += 3;
+  }
+  value.low_battery = (flags & 0x40) !== 0;
+  if (flags & 0x80) {
+    if (!need(1)) return { error: "truncated" };
+    value.battery_mv = 2000 + data.readUInt8(o) * 10;
+    o += 1;
+  }
+
+  return { value };
+}
+
+// ── Registry ──────────────────────────────────────────────────────────────────
+
+export const IO_DECODERS: Record<number, IoDecoder> = {
+  25:  { kind: "fixed", name: "ble_temp_1", decode: bleTemperature },
+  26:  { kind: "fixed", name: "ble_temp_2", decode: bleTemperature },
+  27:  { kind: "fixed", name: "ble_temp_3", decode: bleTemperature },
+  28:  { kind: "fixed", name: "ble_temp_4", decode: bleTemperature },
+  86:  { kind: "fixed", name: "ble_humidity_1", decode: bleHumidity },
+  104: { kind: "fixed", name: "ble_humidity_2", decode: bleHumidity },
+  106: { kind: "fixed", name: "ble_humidity_3", decode: bleHumidity },
+  108: { kind: "fixed", name: "ble_humidity_4", decode: bleHumidity },
+
+  256: { kind: "variable", name: "vin", decode: vin },
+  257: { kind: "variable", name: "crash_trace_data", decode: crashTrace },
+  385: { kind: "variable", name: "beacon", decode: beacons },
+  331: { kind: "variable", name: "ble_custom_1", decode: eyeSensor },
+  332: { kind: "variable", name: "ble_custom_2", decode: eyeSensor },
+  333: { kind: "variable", name: "ble_custom_3", decode: eyeSensor },
+  334: { kind: "variable", name: "ble_custom_4", decode: eyeSensor },
+};
+
+/** The decoder for an IO, if one is registered for its ID under this name. */
+export function decoderFor<K extends IoDecoder["kind"]>(
+  id: number,
+  name: string,
+  kind: K
+): Extract<IoDecoder, { kind: K }> | null {
+  const decoder = IO_DECODERS[id];
+  return decoder && decoder.kind === kind && decoder.name === name
+    ? (decoder as Extract<IoDecoder, { kind: K }>)
+    : null;
+}
@@ -0,0 +1,171 @@
+/**
+ * Prometheus metrics for the ingestion pipeline, served by GET /metrics in
+ * the text exposition format. They tell apart the usual reasons devices go
+ * quiet — network (connections, handshakes), parsing (failures, record count
+ * mismatches) or the database (write latency and errors):
+ *
+ *   tracker_tcp_connections                 open device sockets
+ *   tracker_handshakes_total                IMEI handshakes by transport and
+ *                                           result (accepted / rejected /
+ *                                           rate_limited); UDP has no
+ *                                           handshake, so every datagram counts
+ *   tracker_packets_received_total          AVL packets by codec
+ *   tracker_records_received_total          records by codec, from the
+ *                                           packet header
+ *   tracker_parse_failures_total            packets rejected by validation or
+ *                                           unparseable, by reason
+ *   tracker_record_count_mismatches_total   packets where parseAvlPacket
+ *                                           returned fewer records than the
+ *                                           header announced
+ *   tracker_db_duration_seconds             storage call latency by db.ts
+ *                                           function
+ *   tracker_db_errors_total                 failed storage calls by function
+ *   tracker_ack_duration_seconds            packet received → ACK sent (the
+ *                                           spool append)
+ *
+ * METRICS_PER_IMEI=true adds an imei label to the packet, record, parse
+ * failure and mismatch counters. It is off by default: every device then
+ * becomes its own series, which a large fleet turns into a lot of series.
+ */
+
+type Labels = Record<string, string>;
+
+const PER_IMEI = process.env.METRICS_PER_IMEI === "true";
+
+// Latency buckets, in seconds
+const DB_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const ACK_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+type Metric = { render(): string[] };
+
+const registry: Metric[] = [];
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function counter(name: string, help: string) {
+  const series = new Map<string, number>();
+  registry.push({
+    render: () => [...header(name, help, "counter"), ...[...series].map(([labels, v]) => `${name}${labels} ${v}`)],
+  });
+  return {
+    inc(labels: Labels = {}, by = 1): void {
+      const key = formatLabels(labels);
+      series.set(key, (series.get(key) ?? 0) + by);
+    },
+  };
+}
+
+function gauge(name: string, help: string) {
+  let value = 0;
+  registry.push({ render: () => [...header(name, help, "gauge"), `${name} ${value}`] });
+  return {
+    inc(): void {
+      value++;
+    },
+    dec(): void {
+      value--;
+    },
+  };
+}
+
+function histogram(name: string, help: string, buckets: number[]) {
+  type Series = { labels: Labels; counts: number[]; sum: number; count: number };
+  const series = new Map<string, Series>();
+
+  registry.push({
+    render() {
+      const lines = header(name, help, "histogram");
+      for (const s of series.values()) {
+        buckets.forEach((le, i) => lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`));
+        lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+        lines.push(`${name}_sum${formatLabels(s.labels)} ${s.sum}`);
+        lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+      }
+      return lines;
+    },
+  });
+
+  return {
+    observe(labels: Labels, seconds: number): void {
+      const key = formatLabels(labels);
+      let s = series.get(key);
+      if (!s) {
+        s = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, s);
+      }
+      // Buckets are cumulative: a value counts towards every bucket it fits
+      buckets.forEach((le, i) => {
+        if (seconds <= le) s!.counts[i]++;
+      });
+      s.sum += seconds;
+      s.count++;
+    },
+  };
+}
+
+// ── Metrics ───────────────────────────────────────────────────────────────────
+
+export const tcpConnections = gauge("tracker_tcp_connections", "Open device TCP connections.");
+
+export const handshakes = counter("tracker_handshakes_total", "IMEI handshakes by transport and result.");
+
+export const packetsReceived = counter("tracker_packets_received_total", "AVL packets received, by codec.");
+
+export const recordsReceived = counter(
+  "tracker_records_received_total",
+  "AVL records received, by codec, as announced in the packet header."
+);
+
+export const parseFailures = counter(
+  "tracker_parse_failures_total",
+  "Packets rejected by validation or that could not be parsed, by reason."
+);
+
+export const recordCountMismatches = counter(
+  "tracker_record_count_mismatches_total",
+  "Packets where fewer records were parsed than the header announced."
+);
+
+const dbDuration = histogram("tracker_db_duration_seconds", "Storage call latency, by db.ts function.", DB_BUCKETS);
+
+const dbErrors = counter("tracker_db_errors_total", "Failed storage calls, by db.ts function.");
+
+export const ackDuration = histogram(
+  "tracker_ack_duration_seconds",
+  "Time from receiving an AVL packet to sending its ACK.",
+  ACK_BUCKETS
+);
+
+/** `labels` plus the device's IMEI when METRICS_PER_IMEI is on. */
+export function deviceLabels(imei: string, labels: Labels = {}): Labels {
+  return PER_IMEI ? { ...labels, imei } : labels;
+}
+
+const CODEC_NAMES: Record<number, string> = { 0x08: "8", 0x8e: "8E", 0x10: "16", 0x0c: "12" };
+
+/** Codec label value: the codec's usual name, or its hex id if unknown. */
+export function codecLabel(codecId: number | null): string {
+  if (codecId === null) return "unknown";
+  return CODEC_NAMES[codecId] ?? `0x${codecId.toString(16).padStart(2, "0")}`;
+}
+
+/** Records the duration and outcome of one storage call. */
+export function observeDbCall(fn: string, seconds: number, failed: boolean): void {
+  dbDuration.observe({ function: fn }, seconds);
+  if (failed) dbErrors.inc({ function: fn });
+}
+
+/** Every metric in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  return registry.flatMap((m) => m.render()).join("\n") + "\n";
+}
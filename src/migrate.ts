@@ -0,0 +1,77 @@
+/**
+ * Applies the SQL migrations in migrations/ to DATABASE_URL.
+ *
+ * Files run in name order, each in its own transaction, and are recorded in
+ * tracker_schema_migrations so every file is applied once. The Supabase
+ * project is migrated the same way, through its Postgres connection string.
+ *
+ * Migrations only add what is missing (IF NOT EXISTS), so a database set up
+ * before migrations existed is brought up to date by running all of them.
+ *
+ * Usage:
+ *   npx tsx src/migrate.ts            # apply pending migrations
+ *   npx tsx src/migrate.ts --status   # list applied / pending, change nothing
+ */
+
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import pg from "pg";
+
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || path.join(__dirname, "..", "migrations");
+
+async function migrate() {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) throw new Error("Missing DATABASE_URL in environment");
+  const statusOnly = process.argv.includes("--status");
+
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter((f) => f.endsWith(".sql")).sort();
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+
+  try {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS tracker_schema_migrations (
+         name text PRIMARY KEY,
+         applied_at timestamptz NOT NULL DEFAULT now()
+       )`
+    );
+    const { rows } = await client.query<{ name: string }>("SELECT name FROM tracker_schema_migrations");
+    const applied = new Set(rows.map((r) => r.name));
+    const pending = files.filter((f) => !applied.has(f));
+
+    if (statusOnly) {
+      for (const file of files) console.log(`[${applied.has(file) ? "✓" : " "}] ${file}`);
+      console.log(`\n[*] ${files.length - pending.length} applied, ${pending.length} pending.`);
+      return;
+    }
+
+    if (pending.length === 0) {
+      console.log("[✓] Schema is up to date.");
+      return;
+    }
+
+    for (const file of pending) {
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+      try {
+        await client.query("BEGIN");
+        await client.query(sql);
+        await client.query("INSERT INTO tracker_schema_migrations (name) VALUES ($1)", [file]);
+        await client.query("COMMIT");
+        console.log(`[✓] ${file}`);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw new Error(`${file}: ${(err as Error).message}`);
+      }
+    }
+
+    console.log(`\n[*] Done — ${pending.length} migration(s) applied.`);
+  } finally {
+    await client.end();
+  }
+}
+
+migrate().catch((err) => {
+  console.error("[✗] Fatal:", err.message);
+  process.exit(1);
+});
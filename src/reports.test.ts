@@ -0,0 +1,62 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { saveRawPacket, savePositions } from "./db.js";
+import { haversineM } from "./geo.js";
+import { deviceMileage, mileageCsv, mileageReport } from "./reports.js";
+import type { AvlRecord, IoData } from "./teltonika.js";
+
+const IMEI = "356307046452013";
+
+function record(time: string, latitude: number, ioData: IoData): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(time), priority: 0,
+    latitude, longitude: 25.2797, altitude: 0, angle: 0, satellites: 8,
+    speed: 0, eventIoId: 0, generationType: null, ioData,
+  };
+}
+
+const gpsLegM = haversineM({ latitude: 54.68, longitude: 25.2797 }, { latitude: 54.69, longitude: 25.2797 });
+
+before(async () => {
+  const rawId = await saveRawPacket(IMEI, undefined, Buffer.alloc(12));
+  await savePositions(IMEI, [
+    record("2025-01-01T23:50:00Z", 54.68, { total_odometer: 0, ignition: true, movement: true }),
+    record("2025-01-02T00:10:00Z", 54.68, { total_odometer: 20_000, ignition: true, movement: false }),
+    record("2025-01-02T00:20:00Z", 54.68, { total_odometer: 20_000, ignition: false, movement: false }),
+    // Odometer reset: the leg falls back to the GNSS distance
+    record("2025-01-02T01:00:00Z", 54.69, { total_odometer: 5, ignition: false, movement: false }),
+  ], rawId);
+});
+
+test("legs are split across midnight in proportion to time", async () => {
+  const days = await deviceMileage(IMEI, "van 1", {}, "UTC");
+
+  assert.deepEqual(days, [
+    {
+      imei: IMEI, label: "van 1", date: "2025-01-01",
+      distance_km: 10, gps_distance_km: 0, engine_h: 0.17, idle_h: 0, positions: 1,
+    },
+    {
+      imei: IMEI, label: "van 1", date: "2025-01-02",
+      distance_km: Math.round(10_000 + gpsLegM) / 1000, gps_distance_km: Math.round(gpsLegM) / 1000,
+      engine_h: 0.33, idle_h: 0.17, positions: 3,
+    },
+  ]);
+});
+
+test("days follow the requested time zone; totals and CSV sum the days", async () => {
+  const report = await mileageReport(
+    [{ imei: IMEI, label: "van 1" }],
+    { from: "2025-01-01T00:00:00Z", to: "2025-01-03T00:00:00Z" },
+    "Europe/Vilnius"
+  );
+
+  // 23:50 UTC is already 01:50 on the 2nd in Vilnius
+  assert.deepEqual(report.days.map((d) => d.date), ["2025-01-02"]);
+  assert.equal(report.totals[0].positions, 4);
+  assert.equal(report.totals[0].engine_h, 0.5);
+
+  const lines = mileageCsv(report).split("\r\n");
+  assert.equal(lines[0], "imei,label,date,distance_km,gps_distance_km,engine_h,idle_h,positions");
+  assert.ok(lines[1].startsWith(`${IMEI},van 1,2025-01-02,`));
+});
@@ -0,0 +1,195 @@
+/**
+ * Daily mileage and utilisation reports.
+ *
+ * For every device and local calendar day (in the requested time zone):
+ *
+ *   distance_km  — from total_odometer_m (IO 16) deltas; where the odometer is
+ *                  missing, goes backwards (reset / device swap) or jumps
+ *                  further than MAX_SPEED_KMH allows, the haversine distance
+ *                  between the two positions is used instead
+ *   engine_h     — time with ignition (IO 239) on
+ *   idle_h       — part of engine_h spent not moving (movement off, or below
+ *                  TRIP_MOVING_SPEED_KMH when the device has no movement IO)
+ *
+ * Each interval between two consecutive positions is credited to the earlier
+ * position's state and split across midnight in proportion to time. Intervals
+ * longer than REPORT_MAX_GAP_S count towards distance but not engine or idle
+ * time — the device was off or out of coverage, so its state is unknown.
+ *
+ * Positions are read page by page through trackPages; one device is
+ * processed at a time.
+ */
+
+import { trackPages, type PositionRow, type TimeRange } from "./db.js";
+import { bucketFn } from "./aggregate.js";
+import { csvCell } from "./export.js";
+import { haversineM, hasFix } from "./geo.js";
+
+const MOVING_SPEED_KMH = Number(process.env.TRIP_MOVING_SPEED_KMH || 5);
+const MAX_GAP_MS = Number(process.env.REPORT_MAX_GAP_S || 1800) * 1000;
+
+// Odometer deltas implying a faster average speed are treated as glitches
+const MAX_SPEED_KMH = 300;
+
+const DAY_MS = 86_400_000;
+const PAGE_SIZE = 5000;
+
+export type MileageDay = {
+  imei: string;
+  label: string | null;
+  /** Local date, YYYY-MM-DD. */
+  date: string;
+  distance_km: number;
+  /** Part of distance_km that came from GNSS positions rather than the odometer. */
+  gps_distance_km: number;
+  engine_h: number;
+  idle_h: number;
+  positions: number;
+};
+
+export type MileageTotals = Omit<MileageDay, "date">;
+
+export type MileageReport = {
+  from: string;
+  to: string;
+  tz: string;
+  totals: MileageTotals[];
+  days: MileageDay[];
+};
+
+type Point = {
+  time: number;
+  latitude: number;
+  longitude: number;
+  odometer: number | null;
+  ignition: boolean | null;
+  moving: boolean;
+};
+
+const asBool = (v: unknown): boolean | null => (typeof v === "boolean" ? v : null);
+
+function toPoint(row: PositionRow): Point {
+  const odometer = row.total_odometer_m ?? row.io_data.total_odometer;
+  const movement = asBool(row.movement ?? row.io_data.movement);
+  return {
+    time: Date.parse(row.gps_time),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    odometer: typeof odometer === "number" ? odometer : null,
+    ignition: asBool(row.ignition ?? row.io_data.ignition),
+    moving: movement ?? row.speed >= MOVING_SPEED_KMH,
+  };
+}
+
+/** Distance between consecutive points and whether it came from GNSS. */
+function legDistance(a: Point, b: Point): { metres: number; gps: boolean } {
+  if (a.odometer !== null && b.odometer !== null) {
+    const delta = b.odometer - a.odometer;
+    const maxM = ((b.time - a.time) / 3_600_000) * MAX_SPEED_KMH * 1000;
+    if (delta >= 0 && delta <= maxM) return { metres: delta, gps: false };
+  }
+  if (hasFix(a) && hasFix(b)) return { metres: haversineM(a, b), gps: true };
+  return { metres: 0, gps: true };
+}
+
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+/** Daily rows for one device, oldest day first (days without positions are left out). */
+export async function deviceMileage(
+  imei: string,
+  label: string | null,
+  range: TimeRange,
+  tz: string
+): Promise<MileageDay[]> {
+  const dayOf = bucketFn(DAY_MS, tz);
+  const dateFormat = new Intl.DateTimeFormat("en-CA", { timeZone: tz, year: "numeric", month: "2-digit", day: "2-digit" });
+
+  type Acc = { start: number; distance: number; gps: number; engine: number; idle: number; positions: number };
+  const days: Acc[] = [];
+  const dayAt = (t: number): Acc => {
+    const { start } = dayOf(t);
+    const last = days[days.length - 1];
+    if (last && last.start === start) return last;
+    const day = { start, distance: 0, gps: 0, engine: 0, idle: 0, positions: 0 };
+    days.push(day);
+    return day;
+  };
+
+  let prev: Point | null = null;
+  for await (const page of trackPages(imei, range, PAGE_SIZE)) {
+    for (const row of page) {
+      const p = toPoint(row);
+      if (prev && p.time > prev.time) {
+        const leg = legDistance(prev, p);
+        const tracked = p.time - prev.time <= MAX_GAP_MS;
+        const span = p.time - prev.time;
+
+        // Split [prev, p) at midnight, distance in proportion to time
+        let from = prev.time;
+        while (from < p.time) {
+          const to = Math.min(p.time, dayOf(from).end);
+          const share = (to - from) / span;
+          const day = dayAt(from);
+          day.distance += leg.metres * share;
+          if (leg.gps) day.gps += leg.metres * share;
+          if (tracked && prev.ignition) {
+            day.engine += to - from;
+            if (!prev.moving) day.idle += to - from;
+          }
+          from = to;
+        }
+      }
+      dayAt(p.time).positions++;
+      prev = p;
+    }
+  }
+
+  return days.map((d) => ({
+    imei,
+    label,
+    date: dateFormat.format(d.start),
+    distance_km: round(d.distance / 1000, 3),
+    gps_distance_km: round(d.gps / 1000, 3),
+    engine_h: round(d.engine / 3_600_000, 2),
+    idle_h: round(d.idle / 3_600_000, 2),
+    positions: d.positions,
+  }));
+}
+
+/** Report over several devices, processed one after another. */
+export async function mileageReport(
+  devices: Array<{ imei: string; label: string | null }>,
+  range: { from: string; to: string },
+  tz: string
+): Promise<MileageReport> {
+  const totals: MileageTotals[] = [];
+  const days: MileageDay[] = [];
+
+  for (const { imei, label } of devices) {
+    const rows = await deviceMileage(imei, label, range, tz);
+    days.push(...rows);
+    totals.push({
+      imei,
+      label,
+      distance_km: round(rows.reduce((s, r) => s + r.distance_km, 0), 3),
+      gps_distance_km: round(rows.reduce((s, r) => s + r.gps_distance_km, 0), 3),
+      engine_h: round(rows.reduce((s, r) => s + r.engine_h, 0), 2),
+      idle_h: round(rows.reduce((s, r) => s + r.idle_h, 0), 2),
+      positions: rows.reduce((s, r) => s + r.positions, 0),
+    });
+  }
+
+  return { from: range.from, to: range.to, tz, totals, days };
+}
+
+const CSV_COLUMNS = [
+  "imei", "label", "date", "distance_km", "gps_distance_km", "engine_h", "idle_h", "positions",
+] as const;
+
+/** The daily rows as CSV, one line per device and day. */
+export function mileageCsv(report: MileageReport): string {
+  return [
+    CSV_COLUMNS.join(","),
+    ...report.days.map((d) => CSV_COLUMNS.map((c) => csvCell(d[c])).join(",")),
+  ].join("\r\n") + "\r\n";
+}
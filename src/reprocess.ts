@@ -2,10 +2,15 @@
  * Reprocesses tracker_packets_raw rows.
  *
  * Default mode: only rows where parsed = false. Safe to run repeatedly.
+ * Rows that fail the CRC / record-count check are skipped and reported.
  *
  * --all: re-parse every raw row (e.g. after a parser change such as Phase 2.5
- *        IO capture). Existing tracker_positions rows for each raw packet are
- *        deleted before re-insert, so position counts stay consistent.
+ *        IO capture, or after changing a device's model or dictionary).
+ *        Existing tracker_positions rows for each raw packet are deleted
+ *        before re-insert, so position counts stay consistent.
+ *
+ * Trips of every device touched are rebuilt afterwards — from its earliest
+ * reprocessed record, or from scratch with --all.
  *
  * Usage:
  *   npx tsx src/reprocess.ts          # only unparsed
@@ -13,25 +18,19 @@
  */
 
 import "dotenv/config";
-import { supabase, savePositions, deletePositionsForRaw } from "./db.js";
-import { parseAvlPacket } from "./teltonika.js";
+import { listRawPackets, savePositions, deletePositionsForRaw } from "./db.js";
+import { parseAvlPacket, validateAvlPacket } from "./teltonika.js";
+import { rebuildTrips } from "./trips.js";
+import { dictionaryForDevice } from "./deviceModels.js";
 
 async function reprocess() {
   const reparseAll = process.argv.includes("--all");
 
   console.log(`[*] Fetching ${reparseAll ? "all" : "unparsed"} packets...`);
 
-  let query = supabase
-    .from("tracker_packets_raw")
-    .select("id, imei, packet_hex")
-    .order("id", { ascending: true });
-
-  if (!reparseAll) query = query.eq("parsed", false);
-
-  const { data: rows, error } = await query;
+  const rows = await listRawPackets({ onlyUnparsed: !reparseAll });
 
-  if (error) throw new Error(`Fetch failed: ${error.message}`);
-  if (!rows || rows.length === 0) {
+  if (rows.length === 0) {
     console.log("[✓] No packets to process.");
     return;
   }
@@ -40,15 +39,25 @@ async function reprocess() {
 
   let ok = 0;
   let failed = 0;
+  // imei → earliest gps_time reprocessed (ms)
+  const touched = new Map<string, number>();
 
   for (const row of rows) {
     try {
       const buf = Buffer.from(row.packet_hex, "hex");
-      const records = parseAvlPacket(buf);
+      const check = validateAvlPacket(buf);
+      if (!check.ok) throw new Error(`integrity check failed: ${check.reason}`);
+
+      const records = parseAvlPacket(buf, await dictionaryForDevice(row.imei));
 
       if (reparseAll) await deletePositionsForRaw(row.id);
       await savePositions(row.imei, records, row.id);
 
+      for (const r of records) {
+        const t = r.timestamp.getTime();
+        touched.set(row.imei, Math.min(t, touched.get(row.imei) ?? t));
+      }
+
       console.log(`[✓] raw_id ${row.id} — IMEI: ${row.imei}, positions: ${records.length}`);
       ok++;
     } catch (err) {
@@ -57,6 +66,18 @@ async function reprocess() {
     }
   }
 
+  console.log(`\n[*] Rebuilding trips for ${touched.size} device(s)...`);
+
+  for (const [imei, earliest] of touched) {
+    try {
+      await rebuildTrips(imei, reparseAll ? null : new Date(earliest).toISOString());
+      console.log(`[✓] Trips rebuilt — IMEI: ${imei}`);
+    } catch (err) {
+      console.error(`[✗] Trips for IMEI ${imei} — failed:`, (err as Error).message);
+      failed++;
+    }
+  }
+
   console.log(`\n[*] Done — ${ok} succeeded, ${failed} failed.`);
 }
 
@@ -1,96 +1,267 @@
 import "dotenv/config";
 import net from "node:net";
-import { upsertDevice, updateDeviceStatus, saveRawPacket, savePositions } from "./db.js";
-import { parseImeiPacket, extractAvlRecordCount, parseAvlPacket, buildAck } from "./teltonika.js";
-import "./api.js";
+import {
+  parseImeiPacket, extractCodecId, validateAvlPacket, parseCodec12Response, buildAck, CODEC_12,
+} from "./teltonika.js";
+import { createFrameReader, type Frame } from "./framing.js";
+import type { SessionEndReason } from "./db.js";
+import { deliverQueuedCommands, handleCommandResponse } from "./commands.js";
+import { registerSocket, unregisterSocket, wasReplaced } from "./sessions.js";
+import { closeSession, openSession, type SessionHandle } from "./sessionHistory.js";
+import { authorizeImei, isRateLimited, recordRejection } from "./handshake.js";
+import { ingestAvlPacket, flushSpoolEntry, discardSpoolEntry, markDeviceOnline, markDeviceOffline } from "./ingest.js";
+import { startSpoolWorker, stopSpoolWorker } from "./spool.js";
+import { startWebhookWorker } from "./webhooks.js";
+import { startWatchdog } from "./watchdog.js";
+import { handshakes, parseFailures, tcpConnections } from "./metrics.js";
+import { stopApi } from "./api.js";
+import { stopUdp } from "./udp.js";
 
 const PORT = Number(process.env.TCP_PORT || 5100);
 
+// Upper bound for a single frame and for bytes buffered per socket. FMC920
+// packets stay well under 2 KB; the default leaves room for large batches.
+const MAX_FRAME_BYTES = Number(process.env.MAX_FRAME_BYTES || 65_536);
+
+// A socket that sends nothing for this long is closed (0 = never). Half-open
+// GSM connections otherwise keep a device "online" indefinitely. Should be
+// comfortably above the devices' longest send period.
+const IDLE_TIMEOUT_MS = Number(process.env.TCP_IDLE_TIMEOUT_S || 900) * 1000;
+
+// TCP keepalive probes start after this much silence, so dead peers are
+// noticed even when the idle timeout is off
+const KEEPALIVE_MS = Number(process.env.TCP_KEEPALIVE_S || 60) * 1000;
+
+// Longest a graceful shutdown may take before the process exits regardless
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS || 15_000);
+
 type SocketState = {
   imei: string | null;
   imeiAccepted: boolean;
+  // Tail of the per-socket processing chain — frames run strictly in order
+  queue: Promise<void>;
+  // History row, from the accepted handshake on (see sessionHistory.ts)
+  session: SessionHandle | null;
+  packets: number;
+  records: number;
+  // First known cause of the socket ending; "closed" when the server ended it
+  endReason: SessionEndReason | null;
 };
 
+// Open connections, so shutdown can drain them
+const connections = new Map<net.Socket, SocketState>();
+let shuttingDown = false;
+
 const server = net.createServer((socket) => {
   const remote = socket.remoteAddress ?? "unknown";
-  const state: SocketState = { imei: null, imeiAccepted: false };
+
+  if (shuttingDown) {
+    socket.destroy();
+    return;
+  }
+
+  // Repeat offenders are dropped before we spend anything on them
+  if (isRateLimited(remote)) {
+    handshakes.inc({ transport: "tcp", result: "rate_limited" });
+    socket.destroy();
+    return;
+  }
+
+  tcpConnections.inc();
+  socket.on("close", () => tcpConnections.dec());
+
+  const state: SocketState = {
+    imei: null,
+    imeiAccepted: false,
+    queue: Promise.resolve(),
+    session: null,
+    packets: 0,
+    records: 0,
+    endReason: null,
+  };
+  const reader = createFrameReader(MAX_FRAME_BYTES);
+  connections.set(socket, state);
+
+  socket.setKeepAlive(true, KEEPALIVE_MS);
+  if (IDLE_TIMEOUT_MS > 0) socket.setTimeout(IDLE_TIMEOUT_MS);
 
   console.log(`[+] Connection from ${remote}`);
 
-  socket.on("data", async (buf: Buffer) => {
+  socket.on("data", (chunk: Buffer) => {
+    let frames: Frame[];
+    try {
+      frames = reader.push(chunk);
+    } catch (err) {
+      parseFailures.inc({ reason: "framing" });
+      console.error(`[✗] Framing error from ${state.imei ?? remote}:`, (err as Error).message);
+      socket.destroy();
+      return;
+    }
+
+    for (const frame of frames) {
+      state.queue = state.queue.then(() => handleFrame(frame));
+    }
+  });
+
+  async function handleFrame(frame: Frame): Promise<void> {
+    if (socket.destroyed) return;
+    const buf = frame.buf;
+
     try {
       // ── Phase 1: IMEI handshake ─────────────────────────────────────────
       if (!state.imeiAccepted) {
-        const imei = parseImeiPacket(buf);
+        const imei = frame.kind === "imei" ? parseImeiPacket(buf) : null;
 
-        if (!imei) {
-          console.warn(`[!] Bad IMEI packet from ${remote}, rejecting`);
+        const reject = (reason: string) => {
+          handshakes.inc({ transport: "tcp", result: "rejected" });
+          recordRejection(remote, imei, reason);
           socket.write(Buffer.from([0x00]));
           socket.destroy();
+        };
+
+        if (!imei) {
+          reject("malformed IMEI packet");
+          return;
+        }
+
+        const decision = await authorizeImei(imei);
+        if (!decision.ok) {
+          reject(decision.reason);
           return;
         }
 
         state.imei = imei;
         state.imeiAccepted = true;
+        handshakes.inc({ transport: "tcp", result: "accepted" });
 
-        await upsertDevice(imei);
-        await updateDeviceStatus(imei, "online");
+        markDeviceOnline(imei);
+        state.session = openSession(imei, remote);
 
         socket.write(Buffer.from([0x01])); // accept
         console.log(`[✓] IMEI accepted: ${imei} (${remote})`);
+
+        registerSocket(imei, socket);
+        deliverQueuedCommands(imei);
         return;
       }
 
       // ── Phase 2: AVL data packet ────────────────────────────────────────
-      if (!state.imei) {
+      if (!state.imei || frame.kind !== "avl") {
+        console.warn(`[!] Unexpected ${frame.kind} frame from ${state.imei ?? remote}, closing`);
         socket.destroy();
         return;
       }
 
-      const rawPacketId = await saveRawPacket(state.imei, remote, buf);
-
-      // ACK uses the header count so the device gets a correct response
-      // even if parsing partially fails
-      const recordCount = extractAvlRecordCount(buf);
-      socket.write(buildAck(recordCount));
-
-      // Parse and persist positions (best-effort — raw packet is already saved)
-      const records = parseAvlPacket(buf);
-      await savePositions(state.imei, records, rawPacketId);
+      // ── Codec 12 command response ───────────────────────────────────────
+      if (extractCodecId(buf) === CODEC_12) {
+        const response = validateAvlPacket(buf).ok ? parseCodec12Response(buf) : null;
+        if (response === null) {
+          parseFailures.inc({ reason: "malformed_codec12" });
+          console.warn(`[!] IMEI: ${state.imei} — malformed Codec 12 response, ignoring`);
+          return;
+        }
+        await handleCommandResponse(state.imei, response);
+        return;
+      }
 
-      console.log(
-        `[✓] IMEI: ${state.imei} — raw_id: ${rawPacketId}, records: ${recordCount}, positions: ${records.length}`
-      );
+      state.packets++;
+      state.records += await ingestAvlPacket(state.imei, remote, buf, (accepted) => {
+        socket.write(buildAck(accepted));
+      });
     } catch (err) {
       console.error(`[✗] Error handling data from ${remote}:`, err);
+      state.endReason ??= "error";
       socket.destroy();
     }
-  });
-
-  const markOffline = () => {
-    if (state.imei) {
-      updateDeviceStatus(state.imei, "offline").catch((err) =>
-        console.error(`[✗] Failed to mark offline (${state.imei}):`, err.message)
-      );
-    }
-  };
+  }
 
   socket.on("end", () => {
-    console.log(`[-] Disconnected: ${state.imei ?? remote}`);
-    markOffline();
+    state.endReason ??= "end";
+  });
+
+  socket.on("timeout", () => {
+    state.endReason ??= "timeout";
+    console.warn(`[!] Idle timeout: ${state.imei ?? remote} sent nothing for ${IDLE_TIMEOUT_MS / 1000} s, closing`);
+    socket.destroy();
   });
 
   socket.on("error", (err) => {
+    state.endReason ??= "error";
     console.error(`[✗] Socket error (${state.imei ?? remote}):`, err.message);
-    markOffline();
+  });
+
+  // "close" follows every way a socket ends (FIN, error, timeout, replaced
+  // by a newer session); only the device's current session marks it offline
+  // (or sleeping, see watchdog.ts)
+  socket.on("close", () => {
+    connections.delete(socket);
+    console.log(`[-] Disconnected: ${state.imei ?? remote}`);
+    if (state.imei && unregisterSocket(state.imei, socket)) markDeviceOffline(state.imei);
+    endSession(socket, state, wasReplaced(socket) ? "replaced" : state.endReason ?? "closed");
   });
 });
 
+/** Completes the socket's history row, once. Never rejects. */
+function endSession(socket: net.Socket, state: SocketState, reason: SessionEndReason): Promise<void> {
+  const session = state.session;
+  if (!session) return Promise.resolve();
+  state.session = null;
+  return closeSession(session, reason, {
+    bytes_in: socket.bytesRead,
+    bytes_out: socket.bytesWritten,
+    packets: state.packets,
+    records: state.records,
+  });
+}
+
 server.on("error", (err) => {
   console.error("[✗] Server error:", err);
   process.exit(1);
 });
 
+startSpoolWorker(flushSpoolEntry, discardSpoolEntry);
+startWebhookWorker();
+startWatchdog();
+
 server.listen(PORT, "0.0.0.0", () => {
   console.log(`[*] Teltonika TCP server listening on port ${PORT}`);
 });
+
+/**
+ * Graceful shutdown (SIGTERM from the container runtime, or Ctrl-C): stop
+ * accepting connections and datagrams, let every socket finish the frames it
+ * already received — so their ACKs go out — mark its device offline, then
+ * let the spool worker finish the write in progress. Whatever is still
+ * spooled is flushed after the next start.
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`[*] ${signal} received, shutting down (${connections.size} connection(s) open)`);
+
+  setTimeout(() => {
+    console.error(`[✗] Shutdown did not finish within ${SHUTDOWN_TIMEOUT_MS} ms, exiting`);
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  server.close();
+  stopApi();
+
+  await Promise.all([
+    stopUdp(),
+    ...[...connections].map(async ([socket, state]) => {
+      socket.pause(); // frames not yet read are never ACKed, so the device resends them
+      await state.queue;
+      if (state.imei && unregisterSocket(state.imei, socket)) await markDeviceOffline(state.imei);
+      await endSession(socket, state, "shutdown");
+      socket.end();
+    }),
+  ]);
+  await stopSpoolWorker();
+
+  console.log("[*] Shutdown complete");
+  process.exit(0);
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
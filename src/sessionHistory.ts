@@ -0,0 +1,129 @@
+/**
+ * TCP session history (tracker_sessions): one row per accepted connection,
+ * with the remote IP, connect / disconnect time, why it ended, bytes in and
+ * out, and the AVL packets and records it carried. UDP has no sessions.
+ *
+ * The row is inserted at the handshake and completed when the socket closes.
+ * Writes are best-effort and never hold up the connection; if the opening
+ * insert failed (database down), the complete row is inserted at close
+ * instead. A session still open when the server crashed keeps a null
+ * disconnected_at.
+ */
+
+import { insertSession, updateSession, type SessionEndReason, type SessionRow, type TimeRange } from "./db.js";
+import { bucketFn } from "./aggregate.js";
+
+const DAY_MS = 86_400_000;
+
+export type SessionStats = Pick<SessionRow, "bytes_in" | "bytes_out" | "packets" | "records">;
+
+export type SessionHandle = {
+  imei: string;
+  remoteIp: string;
+  connectedAt: string;
+  /** Row id once inserted; null if the insert failed. */
+  id: Promise<number | null>;
+};
+
+export function openSession(imei: string, remoteIp: string): SessionHandle {
+  const connectedAt = new Date().toISOString();
+  const id = insertSession({
+    imei,
+    remote_ip: remoteIp,
+    connected_at: connectedAt,
+    disconnected_at: null,
+    disconnect_reason: null,
+    bytes_in: 0,
+    bytes_out: 0,
+    packets: 0,
+    records: 0,
+  }).catch((err) => {
+    console.error(`[✗] Failed to record session start (${imei}):`, err.message);
+    return null;
+  });
+  return { imei, remoteIp, connectedAt, id };
+}
+
+/** Completes the session's row. Never rejects. */
+export async function closeSession(session: SessionHandle, reason: SessionEndReason, stats: SessionStats): Promise<void> {
+  const end = { disconnected_at: new Date().toISOString(), disconnect_reason: reason, ...stats };
+  try {
+    const id = await session.id;
+    if (id !== null) {
+      await updateSession(id, end);
+    } else {
+      await insertSession({ imei: session.imei, remote_ip: session.remoteIp, connected_at: session.connectedAt, ...end });
+    }
+  } catch (err) {
+    console.error(`[✗] Failed to record session end (${session.imei}):`, (err as Error).message);
+  }
+}
+
+// ── Connectivity summary ──────────────────────────────────────────────────────
+
+export type SessionDay = {
+  /** Local date, YYYY-MM-DD. */
+  date: string;
+  sessions: number;
+  median_duration_s: number | null;
+};
+
+export type SessionSummary = {
+  from: string;
+  to: string;
+  tz: string;
+  sessions: number;
+  /** Over sessions that have ended; the current one is left out. */
+  median_duration_s: number | null;
+  connected_h: number;
+  /** Ended sessions by disconnect reason. */
+  disconnect_reasons: Partial<Record<SessionEndReason, number>>;
+  remote_ips: string[];
+  /** Every local day in the range, oldest first, with zeros for days without sessions. */
+  days: SessionDay[];
+};
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const durationS = (s: SessionRow) =>
+  s.disconnected_at === null ? null : Math.max(0, (Date.parse(s.disconnected_at) - Date.parse(s.connected_at)) / 1000);
+
+/** Per-day session counts and lengths for sessions that started within `range`. */
+export function sessionSummary(rows: SessionRow[], range: Required<TimeRange>, tz: string): SessionSummary {
+  const dayOf = bucketFn(DAY_MS, tz);
+  const dateFormat = new Intl.DateTimeFormat("en-CA", { timeZone: tz, year: "numeric", month: "2-digit", day: "2-digit" });
+
+  const byDay = new Map<number, SessionRow[]>();
+  for (let t = dayOf(Date.parse(range.from)).start; t <= Date.parse(range.to); t = dayOf(t).end) {
+    byDay.set(t, []);
+  }
+  for (const row of rows) byDay.get(dayOf(Date.parse(row.connected_at)).start)?.push(row);
+
+  const durations = rows.map(durationS).filter((d): d is number => d !== null);
+  const reasons: Partial<Record<SessionEndReason, number>> = {};
+  for (const row of rows) {
+    if (row.disconnect_reason) reasons[row.disconnect_reason] = (reasons[row.disconnect_reason] ?? 0) + 1;
+  }
+  const round = (v: number | null) => (v === null ? null : Math.round(v));
+
+  return {
+    from: range.from,
+    to: range.to,
+    tz,
+    sessions: rows.length,
+    median_duration_s: round(median(durations)),
+    connected_h: Math.round((durations.reduce((s, d) => s + d, 0) / 3600) * 100) / 100,
+    disconnect_reasons: reasons,
+    remote_ips: [...new Set(rows.map((r) => r.remote_ip))],
+    days: [...byDay].map(([start, dayRows]) => ({
+      date: dateFormat.format(start),
+      sessions: dayRows.length,
+      median_duration_s: round(median(dayRows.map(durationS).filter((d): d is number => d !== null))),
+    })),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Registry of live, authenticated TCP sessions keyed by IMEI. Used to reach a
+ * connected device from outside its connection handler (commands, blocking)
+ * and to decide which socket speaks for a device's online status.
+ *
+ * A device has at most one session. When it reconnects before its old socket
+ * has died (common on GSM, where the old connection goes half-open), the new
+ * session replaces the old one and the old socket is closed. Only the
+ * current session's end marks the device offline, so the stale socket's
+ * eventual close cannot flip a connected device to offline.
+ */
+
+import type net from "node:net";
+
+const liveSockets = new Map<string, net.Socket>();
+
+// Sockets closed because a newer session took over, for the session history
+const replacedSockets = new WeakSet<net.Socket>();
+
+/**
+ * Called after a successful IMEI handshake. Closes the device's previous
+ * session, if it still has one.
+ */
+export function registerSocket(imei: string, socket: net.Socket): void {
+  const previous = liveSockets.get(imei);
+  liveSockets.set(imei, socket);
+  if (previous && previous !== socket && !previous.destroyed) {
+    console.warn(`[!] IMEI: ${imei} — new session from ${socket.remoteAddress}, closing the previous one`);
+    replacedSockets.add(previous);
+    previous.destroy();
+  }
+}
+
+/**
+ * Called on disconnect. Returns whether `socket` was the device's current
+ * session — only then is the device really gone. A newer socket for the same
+ * IMEI is left in place.
+ */
+export function unregisterSocket(imei: string, socket: net.Socket): boolean {
+  if (liveSockets.get(imei) !== socket) return false;
+  liveSockets.delete(imei);
+  return true;
+}
+
+/** Whether `socket` was closed by registerSocket in favour of a newer session. */
+export function wasReplaced(socket: net.Socket): boolean {
+  return replacedSockets.has(socket);
+}
+
+export function getSocket(imei: string): net.Socket | null {
+  const socket = liveSockets.get(imei);
+  return socket && !socket.destroyed ? socket : null;
+}
+
+export function isDeviceConnected(imei: string): boolean {
+  return getSocket(imei) !== null;
+}
+
+/** Drops the device's connection, if any. Returns whether one was open. */
+export function disconnectDevice(imei: string): boolean {
+  const socket = getSocket(imei);
+  if (!socket) return false;
+  socket.destroy();
+  return true;
+}
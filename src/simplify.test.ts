@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { saveRawPacket, savePositions } from "./db.js";
+import { downsampleTrack } from "./simplify.js";
+import type { AvlRecord } from "./teltonika.js";
+
+const START = Date.parse("2025-01-01T08:00:00Z");
+
+/** Position `i`, 20 s apart, at `north` / `east` × ~100 m from the origin. */
+function record(i: number, north: number, east: number, extra: Partial<AvlRecord> = {}): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(START + i * 20_000), priority: 0,
+    latitude: 54.68 + north * 0.0009, longitude: 25.28 + east * 0.00156, altitude: 0, angle: 0, satellites: 8,
+    speed: 40, eventIoId: 0, generationType: null, ioData: {}, ...extra,
+  };
+}
+
+async function store(imei: string, records: AvlRecord[]): Promise<void> {
+  const rawId = await saveRawPacket(imei, undefined, Buffer.alloc(12));
+  await savePositions(imei, records, rawId);
+}
+
+/** Indices of the returned positions, oldest first. */
+const kept = (positions: Array<{ gps_time: string }>) =>
+  positions.map((p) => (Date.parse(p.gps_time) - START) / 20_000).reverse();
+
+test("simplify keeps the corners of the track", async () => {
+  const imei = "356307046452001";
+  // Five steps north, then five steps east
+  await store(imei, Array.from({ length: 11 }, (_, i) => record(i, Math.min(i, 5), Math.max(i - 5, 0))));
+
+  const track = await downsampleTrack(imei, {}, { toleranceM: 10, everyS: null });
+  assert.deepEqual(kept(track.positions), [0, 5, 10]);
+  assert.equal(track.original_count, 11);
+  assert.equal(track.returned_count, 3);
+});
+
+test("event records and the ends of stops survive any tolerance", async () => {
+  const imei = "356307046452002";
+  await store(imei, Array.from({ length: 11 }, (_, i) => {
+    if (i === 3) return record(i, i, 0, { eventIoId: 247 });
+    // Stopped at the same spot for three positions
+    if (i >= 6 && i <= 8) return record(i, 6, 0, { speed: 0 });
+    return record(i, i, 0);
+  }));
+
+  const track = await downsampleTrack(imei, {}, { toleranceM: 1000, everyS: null });
+  assert.deepEqual(kept(track.positions), [0, 3, 6, 8, 10]);
+});
+
+test("every keeps the first position of each window, plus the last one", async () => {
+  const imei = "356307046452003";
+  await store(imei, Array.from({ length: 11 }, (_, i) => record(i, i, 0)));
+
+  const track = await downsampleTrack(imei, {}, { toleranceM: null, everyS: 60 });
+  assert.deepEqual(kept(track.positions), [0, 3, 6, 9, 10]);
+
+  const ranged = await downsampleTrack(imei, { from: "2025-01-01T08:01:00Z" }, { toleranceM: null, everyS: 60 });
+  assert.deepEqual(kept(ranged.positions), [3, 6, 9, 10]);
+  assert.equal(ranged.original_count, 8);
+});
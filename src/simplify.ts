@@ -0,0 +1,163 @@
+/**
+ * Server-side track thinning for position queries.
+ *
+ *   every=<s>      — time downsampling: the first position of each s-second
+ *                    window is kept
+ *   simplify=<m>   — Douglas-Peucker: positions within m metres of the line
+ *                    through their neighbours are dropped
+ *
+ * Both can be combined (every runs first). Some positions are always kept:
+ * the first and last, event records (non-zero event_io_id) and the first and
+ * last position of every stop (speed 0), so markers and dwell points survive
+ * any tolerance. Positions without a GNSS fix are never used as line
+ * geometry, but are kept when they carry an event.
+ *
+ * The range is read twice through trackPages: the first pass keeps only
+ * coordinates and ids to decide what survives, the second fetches the
+ * surviving rows. Memory therefore scales with a few numbers per position,
+ * not with full rows, and the API only thins bounded ranges (see
+ * GET /devices/:imei/positions).
+ */
+
+import { trackPages, type PositionRow, type TimeRange } from "./db.js";
+import { hasFix, segmentDistanceM, type LatLng } from "./geo.js";
+
+const PAGE_SIZE = 5000;
+
+export type DownsampleOptions = {
+  /** Douglas-Peucker tolerance in metres; null disables it. */
+  toleranceM: number | null;
+  /** Time window in seconds; null disables it. */
+  everyS: number | null;
+};
+
+export type DownsampledTrack = {
+  original_count: number;
+  returned_count: number;
+  /** Newest first, like the unfiltered endpoint. */
+  positions: PositionRow[];
+};
+
+type Track = {
+  ids: number[];
+  lat: number[];
+  lng: number[];
+  time: number[];
+  stopped: boolean[];
+  event: boolean[];
+};
+
+const pointAt = (t: Track, i: number): LatLng => ({ latitude: t.lat[i], longitude: t.lng[i] });
+
+/** Indices that must survive any thinning. */
+function forcedIndices(t: Track): Set<number> {
+  const n = t.ids.length;
+  const forced = new Set<number>();
+  if (n > 0) forced.add(0).add(n - 1);
+  for (let i = 0; i < n; i++) {
+    if (t.event[i]) forced.add(i);
+    // First / last position of a stop
+    if (t.stopped[i] && (i === 0 || !t.stopped[i - 1] || i === n - 1 || !t.stopped[i + 1])) forced.add(i);
+  }
+  return forced;
+}
+
+/** Douglas-Peucker over `indices` (ascending), marking survivors in `keep`. */
+function douglasPeucker(t: Track, indices: number[], toleranceM: number, keep: Set<number>): void {
+  const stack: Array<[number, number]> = [[0, indices.length - 1]];
+  while (stack.length > 0) {
+    const [from, to] = stack.pop()!;
+    if (to - from < 2) continue;
+
+    const a = pointAt(t, indices[from]);
+    const b = pointAt(t, indices[to]);
+    let maxDist = -1;
+    let maxAt = -1;
+    for (let k = from + 1; k < to; k++) {
+      const d = segmentDistanceM(pointAt(t, indices[k]), a, b);
+      if (d > maxDist) {
+        maxDist = d;
+        maxAt = k;
+      }
+    }
+
+    if (maxDist > toleranceM) {
+      keep.add(indices[maxAt]);
+      stack.push([from, maxAt], [maxAt, to]);
+    }
+  }
+}
+
+function select(t: Track, opts: DownsampleOptions): Set<number> {
+  const forced = forcedIndices(t);
+
+  // Time downsampling — candidates are the first position of each window
+  let candidates: number[] = [];
+  if (opts.everyS) {
+    const windowMs = opts.everyS * 1000;
+    let lastWindow = -Infinity;
+    for (let i = 0; i < t.ids.length; i++) {
+      const window = Math.floor(t.time[i] / windowMs);
+      if (window !== lastWindow || forced.has(i)) candidates.push(i);
+      lastWindow = window;
+    }
+  } else {
+    candidates = t.ids.map((_, i) => i);
+  }
+
+  if (!opts.toleranceM) return new Set(candidates);
+
+  // Simplify the fixed candidates between consecutive forced positions, so
+  // forced points act as fixed anchors of the line
+  const keep = new Set(forced);
+  let run: number[] = [];
+  const flush = () => {
+    if (run.length > 0) {
+      keep.add(run[0]).add(run[run.length - 1]);
+      douglasPeucker(t, run, opts.toleranceM!, keep);
+    }
+  };
+  for (const i of candidates) {
+    if (!hasFix(pointAt(t, i))) continue;
+    run.push(i);
+    if (forced.has(i)) {
+      flush();
+      run = [i];
+    }
+  }
+  flush();
+
+  // Forced positions without a fix are kept; other unfixed ones are dropped
+  return keep;
+}
+
+export async function downsampleTrack(
+  imei: string,
+  range: TimeRange,
+  opts: DownsampleOptions
+): Promise<DownsampledTrack> {
+  const track: Track = { ids: [], lat: [], lng: [], time: [], stopped: [], event: [] };
+  for await (const page of trackPages(imei, range, PAGE_SIZE)) {
+    for (const p of page) {
+      track.ids.push(p.id);
+      track.lat.push(p.latitude);
+      track.lng.push(p.longitude);
+      track.time.push(Date.parse(p.gps_time));
+      track.stopped.push(p.speed === 0);
+      track.event.push(p.event_io_id !== 0);
+    }
+  }
+
+  const keptIds = new Set([...select(track, opts)].map((i) => track.ids[i]));
+
+  const positions: PositionRow[] = [];
+  for await (const page of trackPages(imei, range, PAGE_SIZE)) {
+    for (const p of page) if (keptIds.has(p.id)) positions.push(p);
+  }
+
+  return {
+    original_count: track.ids.length,
+    returned_count: positions.length,
+    positions: positions.reverse(),
+  };
+}
@@ -9,6 +9,7 @@
  */
 
 import net from "node:net";
+import { crc16Ibm } from "./teltonika.js";
 
 const HOST = process.env.SIM_HOST ?? "127.0.0.1";
 const PORT = Number(process.env.SIM_PORT ?? 5555);
@@ -22,8 +23,7 @@ const AVL_SAMPLE_HEX =
 
 /**
  * Build a Codec 8 Extended AVL packet covering 1/2/4/8-byte and variable-
- * length IOs. CRC is left as 0 — the server doesn't validate it (only the
- * bytes it parses), so this is fine for end-to-end tests of IO capture.
+ * length IOs, with a real CRC-16/IBM trailer so it passes server validation.
  *
  * IO content per record:
  *   - 1B: ignition=1 (id 239), movement=1 (id 240), gsm_signal=4 (id 21),
@@ -105,7 +105,8 @@ function buildCodec8ExtendedPacket(): Buffer {
   header.writeUInt32BE(0, 0);            // preamble
   header.writeUInt32BE(data.length, 4);  // data length
 
-  const crc = Buffer.alloc(4); // CRC = 0; server does not validate
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc16Ibm(data), 0);
 
   return Buffer.concat([header, data, crc]);
 }
@@ -0,0 +1,119 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { SpoolEntry } from "./spool.js";
+
+// The spool reads its settings when loaded: point it at a scratch directory
+// holding a log left behind by an earlier process. Two entries in memory at
+// a time, so most of these tests read ahead from disk.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "spool-test-"));
+process.env.SPOOL_DIR = dir;
+process.env.SPOOL_SEGMENT_BYTES = "1";
+process.env.SPOOL_MAX_ATTEMPTS = "2";
+process.env.SPOOL_READ_AHEAD = "2";
+
+const entry = (seq: number): SpoolEntry => ({
+  seq,
+  imei: "356307046452013",
+  remote: "10.0.0.1",
+  received_at: "2025-01-01T00:00:00.000Z",
+  packet_hex: "00",
+  crc_valid: true,
+  parse_error: null,
+});
+
+let spool: typeof import("./spool.js");
+
+before(async () => {
+  const lines = [1, 2, 3].map((seq) => JSON.stringify(entry(seq))).join("\n");
+  // Torn final line: the process died mid-append
+  fs.writeFileSync(path.join(dir, "000000000001.jsonl"), `${lines}\n{"seq":4,"im`);
+  fs.writeFileSync(path.join(dir, "cursor"), "1");
+  spool = await import("./spool.js");
+});
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+async function until(done: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !done(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+test("recovers unflushed entries after the cursor and cuts a torn line", () => {
+  const stats = spool.spoolStats();
+  assert.equal(stats.depth, 2);
+  assert.equal(stats.last_flushed_seq, 1);
+  assert.ok(fs.readFileSync(path.join(dir, "000000000001.jsonl"), "utf8").endsWith("}\n"));
+});
+
+test("appends continue the sequence and are on disk when they resolve", async () => {
+  const appended = await spool.appendToSpool({
+    imei: "356307046452013", remote: "10.0.0.2", packet_hex: "01", crc_valid: true, parse_error: null,
+  });
+  assert.equal(appended.seq, 4);
+  const onDisk = fs.readFileSync(path.join(dir, "000000000004.jsonl"), "utf8");
+  assert.equal(JSON.parse(onDisk).seq, 4);
+  assert.equal(spool.spoolStats().depth, 3);
+});
+
+const flushed: number[] = [];
+const deadLettered: number[] = [];
+let failures = 0;
+
+async function handler(e: SpoolEntry): Promise<void> {
+  if (e.seq === 2 && failures++ === 0) throw new Error("database unavailable");
+  if (e.packet_hex === "ff") throw new Error("value out of range");
+  flushed.push(e.seq);
+}
+
+const append = (packet_hex: string) =>
+  spool.appendToSpool({ imei: "356307046452013", remote: "10.0.0.3", packet_hex, crc_valid: true, parse_error: null });
+
+test("flushes in order, retrying a failed entry, then drops flushed segments", async () => {
+  spool.startSpoolWorker(handler, (e) => deadLettered.push(e.seq));
+
+  await until(() => spool.spoolStats().consecutive_failures > 0);
+  assert.equal(spool.spoolStats().consecutive_failures, 1);
+  assert.equal(spool.spoolStats().last_error, "database unavailable");
+
+  await until(() => spool.spoolStats().depth === 0);
+  assert.deepEqual(flushed, [2, 3, 4]);
+  assert.equal(spool.spoolStats().consecutive_failures, 0);
+  assert.equal(fs.readFileSync(path.join(dir, "cursor"), "utf8"), "4");
+  assert.deepEqual(fs.readdirSync(dir).filter((f) => f.endsWith(".jsonl")), ["000000000004.jsonl"]);
+});
+
+test("an entry failing SPOOL_MAX_ATTEMPTS times while the next one flushes is dead-lettered", async () => {
+  await append("ff");
+  await append("02");
+
+  await until(() => spool.spoolStats().dead_lettered > 0);
+  assert.deepEqual(flushed, [2, 3, 4, 6]);
+  assert.equal(spool.spoolStats().depth, 0);
+  assert.equal(fs.readFileSync(path.join(dir, "cursor"), "utf8"), "6");
+
+  const [dead] = fs.readFileSync(path.join(dir, "dead-letter.jsonl"), "utf8").trim().split("\n").map((l) => JSON.parse(l));
+  assert.equal(dead.seq, 5);
+  assert.equal(dead.error, "value out of range");
+  assert.deepEqual(deadLettered, [5]);
+});
+
+test("a backlog longer than the read-ahead waits on disk and flushes in order", async () => {
+  await spool.stopSpoolWorker();
+  for (const hex of ["03", "04", "05", "06", "07"]) await append(hex);
+  assert.equal(spool.spoolStats().depth, 5);
+  assert.ok(spool.spoolStats().oldest_unflushed_at);
+
+  spool.startSpoolWorker(handler);
+  await until(() => spool.spoolStats().depth === 0);
+  assert.deepEqual(flushed.slice(4), [7, 8, 9, 10, 11]);
+  assert.equal(fs.readFileSync(path.join(dir, "cursor"), "utf8"), "11");
+
+  // Caught up: new appends go straight to the worker again
+  await append("08");
+  await until(() => spool.spoolStats().depth === 0);
+  assert.deepEqual(flushed.slice(9), [12]);
+});
@@ -0,0 +1,406 @@
+/**
+ * Durable on-disk spool between the transports and the database.
+ *
+ * Incoming AVL packets are appended (and fdatasync'd) to an append-only log
+ * before the device is ACKed; a single background worker then flushes them
+ * to the database in order, retrying with exponential backoff. A database
+ * outage therefore only delays data — the device is never left without an
+ * ACK and nothing is lost if the process restarts.
+ *
+ * On-disk layout (SPOOL_DIR, default ./spool):
+ *   <startSeq>.jsonl  segment files, one JSON entry per line, appended in order
+ *   cursor            seq of the last entry flushed to the database
+ *
+ * A segment is deleted once every entry in it has been flushed and a newer
+ * segment exists. Segments roll over at SPOOL_SEGMENT_BYTES.
+ *
+ * Only the next SPOOL_READ_AHEAD unflushed entries are held in memory; the
+ * rest of a backlog stays on disk and is read in as the worker catches up,
+ * so a long outage does not grow the heap.
+ *
+ * An entry that keeps failing must not hold up the rest forever. After
+ * SPOOL_MAX_ATTEMPTS failures the worker tries the entry after it: if that
+ * one flushes, the database is fine and the stuck entry is moved to
+ *   dead-letter.jsonl  entries given up on, with the last error
+ * for inspection. If it fails too, the database is the problem (an outage),
+ * and the worker keeps retrying in order. The worker's `onDeadLetter`
+ * callback is told about each entry given up on.
+ *
+ * Delivery is at-least-once: a crash between a database write and the cursor
+ * update replays that entry on restart.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+const SPOOL_DIR = process.env.SPOOL_DIR || "./spool";
+const SEGMENT_BYTES = Number(process.env.SPOOL_SEGMENT_BYTES || 16 * 1024 * 1024);
+const RETRY_MIN_MS = 1_000;
+const RETRY_MAX_MS = 60_000;
+const MAX_ATTEMPTS = Number(process.env.SPOOL_MAX_ATTEMPTS || 10);
+// At least two: flushNext needs the entry after the head
+const READ_AHEAD = Math.max(2, Number(process.env.SPOOL_READ_AHEAD || 1000));
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+export type SpoolEntry = {
+  seq: number;
+  imei: string;
+  remote: string;
+  received_at: string;
+  packet_hex: string;
+  crc_valid: boolean;
+  parse_error: string | null;
+};
+
+export type SpoolStats = {
+  depth: number;
+  oldest_unflushed_at: string | null;
+  oldest_unflushed_age_s: number | null;
+  last_flushed_seq: number;
+  consecutive_failures: number;
+  last_error: string | null;
+  next_retry_at: string | null;
+  /** Entries moved to dead-letter.jsonl since startup. */
+  dead_lettered: number;
+};
+
+type Segment = { startSeq: number; file: string };
+
+// The oldest unflushed entries, at most READ_AHEAD of them. Entries past
+// them are on disk from `reader` on; reader is null when pending holds every
+// unflushed entry, and appends then go straight into pending.
+const pending: SpoolEntry[] = [];
+let reader: { startSeq: number; offset: number } | null = null;
+let unflushed = 0;
+const segments: Segment[] = [];
+let lastFlushedSeq = 0;
+let nextSeq = 1;
+let active: { startSeq: number; fd: number; bytes: number } | null = null;
+let loaded = false;
+
+// Appends are serialised so sequence numbers match file order
+let appendChain: Promise<void> = Promise.resolve();
+
+let flushHandler: ((entry: SpoolEntry) => Promise<void>) | null = null;
+let deadLetterHandler: ((entry: SpoolEntry) => void) | null = null;
+let workerRun: Promise<void> | null = null;
+let wakeTimer: NodeJS.Timeout | null = null;
+let consecutiveFailures = 0;
+let lastError: string | null = null;
+let nextRetryAt: Date | null = null;
+let deadLettered = 0;
+
+const cursorPath = () => path.join(SPOOL_DIR, "cursor");
+const deadLetterPath = () => path.join(SPOOL_DIR, "dead-letter.jsonl");
+const segmentPath = (startSeq: number) =>
+  path.join(SPOOL_DIR, `${String(startSeq).padStart(12, "0")}.jsonl`);
+
+/** Reads existing segments and the cursor. Runs once, synchronously, at startup. */
+function load(): void {
+  if (loaded) return;
+  loaded = true;
+
+  fs.mkdirSync(SPOOL_DIR, { recursive: true });
+
+  if (fs.existsSync(cursorPath())) {
+    lastFlushedSeq = Number(fs.readFileSync(cursorPath(), "utf8").trim()) || 0;
+  }
+  nextSeq = lastFlushedSeq + 1;
+
+  // Every segment is scanned for the next seq and the backlog size, one at a
+  // time; only the first READ_AHEAD unflushed entries are kept
+  const files = fs.readdirSync(SPOOL_DIR).filter((f) => /^\d+\.jsonl$/.test(f)).sort();
+  for (const name of files) {
+    const file = path.join(SPOOL_DIR, name);
+    const startSeq = Number(name.slice(0, -".jsonl".length));
+    segments.push({ startSeq, file });
+
+    let content = fs.readFileSync(file, "utf8");
+    if (content.length > 0 && !content.endsWith("\n")) {
+      // Torn final line from a crash mid-append — the device was never ACKed
+      // for it and will resend. Cut it off so later appends start clean.
+      content = content.slice(0, content.lastIndexOf("\n") + 1);
+      fs.truncateSync(file, Buffer.byteLength(content));
+      console.warn(`[!] Spool: truncated torn line at end of ${name}`);
+    }
+
+    let offset = 0;
+    for (const line of content.split("\n")) {
+      const lineOffset = offset;
+      offset += Buffer.byteLength(line) + 1;
+      const entry = parseLine(line, name);
+      if (!entry) continue;
+      nextSeq = Math.max(nextSeq, entry.seq + 1);
+      if (entry.seq <= lastFlushedSeq) continue;
+
+      unflushed++;
+      if (reader === null && pending.length < READ_AHEAD) pending.push(entry);
+      else reader ??= { startSeq, offset: lineOffset };
+    }
+  }
+
+  openSegment(nextSeq);
+
+  if (unflushed > 0) {
+    console.log(`[*] Spool: ${unflushed} unflushed entr${unflushed === 1 ? "y" : "ies"} recovered`);
+  }
+}
+
+function parseLine(line: string, name: string): SpoolEntry | null {
+  if (!line) return null;
+  try {
+    return JSON.parse(line);
+  } catch {
+    console.warn(`[!] Spool: skipping unreadable line in ${name}`);
+    return null;
+  }
+}
+
+function openSegment(startSeq: number): void {
+  if (active) fs.closeSync(active.fd);
+  const file = segmentPath(startSeq);
+  const fd = fs.openSync(file, "a");
+  active = { startSeq, fd, bytes: fs.fstatSync(fd).size };
+  if (!segments.some((s) => s.file === file)) segments.push({ startSeq, file });
+}
+
+/**
+ * Tops pending up to READ_AHEAD from the log on disk, starting at `reader`.
+ * The active segment is read only as far as appends have completed; a line
+ * still being written is picked up by a later call.
+ */
+function readAhead(): void {
+  while (reader !== null && pending.length < READ_AHEAD) {
+    const at = reader;
+    // The segment may be gone if it was read to its end and then flushed
+    const segment = segments.find((s) => s.startSeq >= at.startSeq);
+    if (!segment) {
+      reader = null;
+      break;
+    }
+    if (segment.startSeq !== at.startSeq) {
+      reader = { startSeq: segment.startSeq, offset: 0 };
+      continue;
+    }
+    const end = segment.startSeq === active!.startSeq ? active!.bytes : fs.statSync(segment.file).size;
+
+    if (at.offset >= end) {
+      const next = segments.find((s) => s.startSeq > at.startSeq);
+      reader = next ? { startSeq: next.startSeq, offset: 0 } : null;
+      continue;
+    }
+
+    const fd = fs.openSync(segment.file, "r");
+    let chunk: Buffer;
+    try {
+      // A line longer than a chunk is read with the rest of the segment
+      chunk = Buffer.alloc(Math.min(end - at.offset, READ_CHUNK_BYTES));
+      fs.readSync(fd, chunk, 0, chunk.length, at.offset);
+      if (chunk.lastIndexOf(0x0a) === -1) {
+        chunk = Buffer.alloc(end - at.offset);
+        fs.readSync(fd, chunk, 0, chunk.length, at.offset);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    let offset = at.offset;
+    let start = 0;
+    for (let nl = chunk.indexOf(0x0a); nl !== -1 && pending.length < READ_AHEAD; nl = chunk.indexOf(0x0a, start)) {
+      const entry = parseLine(chunk.toString("utf8", start, nl), path.basename(segment.file));
+      if (entry && entry.seq > lastFlushedSeq) pending.push(entry);
+      offset += nl + 1 - start;
+      start = nl + 1;
+    }
+    reader = { startSeq: at.startSeq, offset };
+  }
+}
+
+/**
+ * Appends a packet to the spool and resolves once it is on disk. Only then
+ * may the device be ACKed.
+ */
+export function appendToSpool(
+  entry: Omit<SpoolEntry, "seq" | "received_at">
+): Promise<SpoolEntry> {
+  load();
+
+  const result = appendChain.then(async () => {
+    if (active!.bytes >= SEGMENT_BYTES) openSegment(nextSeq);
+
+    const full: SpoolEntry = { seq: nextSeq, received_at: new Date().toISOString(), ...entry };
+    const line = Buffer.from(JSON.stringify(full) + "\n");
+
+    const fd = active!.fd;
+    await new Promise<void>((resolve, reject) =>
+      fs.write(fd, line, (err) => (err ? reject(err) : resolve()))
+    );
+    await new Promise<void>((resolve, reject) =>
+      fs.fdatasync(fd, (err) => (err ? reject(err) : resolve()))
+    );
+
+    nextSeq++;
+    unflushed++;
+    if (reader === null && pending.length < READ_AHEAD) pending.push(full);
+    else reader ??= { startSeq: active!.startSeq, offset: active!.bytes };
+    active!.bytes += line.length;
+    wakeWorker();
+    return full;
+  });
+
+  // Keep the chain alive after a failed append
+  appendChain = result.then(() => undefined, () => undefined);
+  return result;
+}
+
+/**
+ * Starts the background worker that flushes spooled entries to the database.
+ * `onDeadLetter` is called for each entry moved to dead-letter.jsonl, which
+ * will not be passed to `handler` again.
+ */
+export function startSpoolWorker(
+  handler: (entry: SpoolEntry) => Promise<void>,
+  onDeadLetter?: (entry: SpoolEntry) => void
+): void {
+  load();
+  flushHandler = handler;
+  deadLetterHandler = onDeadLetter ?? null;
+  wakeWorker();
+}
+
+/**
+ * Stops the worker once the entry it is flushing (if any) is written. The
+ * rest stays in the spool and is flushed after the next start.
+ */
+export async function stopSpoolWorker(): Promise<void> {
+  flushHandler = null;
+  deadLetterHandler = null;
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+  await appendChain;
+  await workerRun;
+}
+
+function wakeWorker(): void {
+  if (!flushHandler || workerRun || wakeTimer) return;
+  workerRun = runWorker()
+    .catch((err) => console.error("[✗] Spool worker error:", err.message))
+    .finally(() => {
+      workerRun = null;
+    });
+}
+
+async function runWorker(): Promise<void> {
+  while (pending.length > 0 && flushHandler) {
+    const entry = pending[0];
+    try {
+      await flushHandler(entry);
+    } catch (err) {
+      consecutiveFailures++;
+      lastError = (err as Error).message;
+
+      if (consecutiveFailures >= MAX_ATTEMPTS) {
+        const flushed = await flushNext();
+        if (flushed) {
+          deadLetter(entry, lastError, flushed.seq);
+          continue;
+        }
+      }
+
+      const delay = Math.min(RETRY_MIN_MS * 2 ** (consecutiveFailures - 1), RETRY_MAX_MS);
+      nextRetryAt = new Date(Date.now() + delay);
+      console.error(
+        `[✗] Spool: flush of seq ${entry.seq} failed (attempt ${consecutiveFailures}), retrying in ${delay} ms:`,
+        lastError
+      );
+
+      wakeTimer = setTimeout(() => {
+        wakeTimer = null;
+        wakeWorker();
+      }, delay);
+      return;
+    }
+
+    if (consecutiveFailures > 0) {
+      console.log(`[✓] Spool: flushing resumed after ${consecutiveFailures} failed attempt(s)`);
+    }
+    consecutiveFailures = 0;
+    lastError = null;
+    nextRetryAt = null;
+
+    pending.shift();
+    unflushed--;
+    advanceCursor(entry.seq);
+  }
+}
+
+/**
+ * Flushes the entry after the head, out of order, to tell a poison entry
+ * from a database outage. Returns it if it was written.
+ */
+async function flushNext(): Promise<SpoolEntry | null> {
+  readAhead();
+  const next = pending[1];
+  if (!next || !flushHandler) return null;
+  try {
+    await flushHandler(next);
+  } catch {
+    return null;
+  }
+  pending.splice(1, 1);
+  unflushed--;
+  return next;
+}
+
+/**
+ * Gives up on the head entry: appends it to dead-letter.jsonl and moves the
+ * cursor past it and past `flushedSeq`, the entry flushNext wrote.
+ */
+function deadLetter(entry: SpoolEntry, error: string, flushedSeq: number): void {
+  fs.appendFileSync(deadLetterPath(), JSON.stringify({ ...entry, error, failed_at: new Date().toISOString() }) + "\n");
+  console.error(`[✗] Spool: gave up on seq ${entry.seq} after ${consecutiveFailures} attempts, moved to dead-letter.jsonl`);
+  deadLettered++;
+
+  consecutiveFailures = 0;
+  lastError = null;
+  nextRetryAt = null;
+
+  pending.shift();
+  unflushed--;
+  advanceCursor(flushedSeq);
+  deadLetterHandler?.(entry);
+}
+
+function advanceCursor(seq: number): void {
+  lastFlushedSeq = seq;
+
+  const tmp = `${cursorPath()}.tmp`;
+  fs.writeFileSync(tmp, String(seq));
+  fs.renameSync(tmp, cursorPath());
+
+  // Drop segments whose entries are all flushed (every segment but the last
+  // ends right before the next one starts)
+  while (segments.length > 1 && segments[1].startSeq - 1 <= lastFlushedSeq) {
+    const done = segments.shift()!;
+    fs.rmSync(done.file, { force: true });
+  }
+
+  if (pending.length === 0) readAhead();
+}
+
+export function spoolStats(): SpoolStats {
+  load();
+  const oldest = pending[0];
+  return {
+    depth: unflushed,
+    oldest_unflushed_at: oldest?.received_at ?? null,
+    oldest_unflushed_age_s: oldest
+      ? Math.round((Date.now() - Date.parse(oldest.received_at)) / 1000)
+      : null,
+    last_flushed_seq: lastFlushedSeq,
+    consecutive_failures: consecutiveFailures,
+    last_error: lastError,
+    next_retry_at: nextRetryAt?.toISOString() ?? null,
+    dead_lettered: deadLettered,
+  };
+}
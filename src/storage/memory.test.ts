@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryStorage } from "./memory.js";
+import type { AvlRecord, IoData } from "../teltonika.js";
+
+const IMEI = "356307046452013";
+
+function record(time: string, ioData: IoData = {}): AvlRecord {
+  return {
+    codecId: 0x08,
+    timestamp: new Date(time),
+    priority: 0,
+    longitude: 25.2797,
+    latitude: 54.6872,
+    altitude: 120,
+    angle: 90,
+    satellites: 9,
+    speed: 40,
+    eventIoId: 0,
+    generationType: null,
+    ioData,
+  };
+}
+
+test("upsertDevice keeps an existing device; status updates stamp last_seen_at", async () => {
+  const storage = createMemoryStorage();
+  await storage.upsertDevice(IMEI);
+  await storage.updateDeviceLabel(IMEI, "van 1");
+  await storage.upsertDevice(IMEI);
+  await storage.upsertDevice("356307046452099");
+  await storage.updateDeviceStatus(IMEI, "online");
+
+  const device = await storage.getDevice(IMEI);
+  assert.equal(device?.label, "van 1");
+  assert.equal(device?.status, "online");
+  assert.ok(device?.last_seen_at);
+  // Never-seen devices first, then most recently seen
+  assert.deepEqual((await storage.listDevices()).map((d) => d.imei), ["356307046452099", IMEI]);
+  assert.equal(await storage.getDevice("000000000000000"), null);
+});
+
+test("savePositions marks the raw packet parsed and promotes IO columns", async () => {
+  const storage = createMemoryStorage();
+  const rawId = await storage.saveRawPacket(IMEI, "10.0.0.1", Buffer.from("000000000000000108", "hex"));
+  assert.deepEqual((await storage.listRawPackets({ onlyUnparsed: true })).map((r) => r.id), [rawId]);
+
+  await storage.savePositions(IMEI, [record("2025-01-01T00:00:00Z", { external_voltage: 12.5, ignition: true })], rawId);
+
+  assert.deepEqual(await storage.listRawPackets({ onlyUnparsed: true }), []);
+  assert.equal((await storage.listRawPackets({ onlyUnparsed: false })).length, 1);
+  const latest = await storage.latestPosition(IMEI);
+  assert.equal(latest?.raw_packet_id, rawId);
+  assert.equal(latest?.external_voltage_v, 12.5);
+  assert.equal(latest?.ignition, true);
+  assert.deepEqual(latest?.io_data, { external_voltage: 12.5, ignition: true });
+
+  await storage.deletePositionsForRaw(rawId);
+  assert.equal(await storage.latestPosition(IMEI), null);
+});
+
+test("positions and sensor series are newest first within the range", async () => {
+  const storage = createMemoryStorage();
+  const rawId = await storage.saveRawPacket(IMEI, undefined, Buffer.alloc(12));
+  await storage.savePositions(IMEI, [
+    record("2025-01-01T00:00:00Z", { external_voltage: 12.1 }),
+    record("2025-01-01T02:00:00Z", { external_voltage: 12.3, axis_x: 5 }),
+    record("2025-01-01T01:00:00Z", {}),
+  ], rawId);
+
+  const times = (rows: Array<{ gps_time: string }>) => rows.map((r) => r.gps_time.slice(11, 13));
+  assert.deepEqual(times(await storage.listPositions(IMEI, {}, null)), ["02", "01", "00"]);
+  assert.deepEqual(times(await storage.listPositions(IMEI, { from: "2025-01-01T00:30:00Z" }, null)), ["02", "01"]);
+  assert.deepEqual(times(await storage.listPositions(IMEI, {}, 1)), ["02"]);
+
+  // Column series keep nulls; io_data series only rows that have the key
+  const column = await storage.sensorSeries(IMEI, { column: "external_voltage_v" }, {}, 10);
+  assert.deepEqual(column.map((p) => p.value), [12.3, null, 12.1]);
+  const io = await storage.sensorSeries(IMEI, { ioKey: "axis_x" }, {}, 10);
+  assert.deepEqual(io, [{ gps_time: "2025-01-01T02:00:00.000Z", value: 5 }]);
+  assert.equal((await storage.recentIoData(IMEI, 2)).length, 2);
+});
+
+test("commands queue oldest first and list newest first", async () => {
+  const storage = createMemoryStorage();
+  const first = await storage.insertCommand(IMEI, "getinfo");
+  const second = await storage.insertCommand(IMEI, "getver");
+
+  assert.equal((await storage.nextQueuedCommand(IMEI))?.id, first.id);
+  await storage.updateCommand(first.id, { status: "sent", sent_at: new Date().toISOString() });
+  assert.equal((await storage.nextQueuedCommand(IMEI))?.id, second.id);
+
+  assert.deepEqual((await storage.listCommands(IMEI, { limit: 10 })).map((c) => c.id), [second.id, first.id]);
+  assert.deepEqual((await storage.listCommands(IMEI, { status: "sent", limit: 10 })).map((c) => c.id), [first.id]);
+});
+
+test("returned rows are copies", async () => {
+  const storage = createMemoryStorage();
+  await storage.upsertDevice(IMEI);
+  const device = await storage.getDevice(IMEI);
+  device!.label = "changed";
+  assert.equal((await storage.getDevice(IMEI))?.label, null);
+});
@@ -0,0 +1,650 @@
+import { buildPositionRows, buildRawPacketRow } from "./rows.js";
+import type {
+  CommandRow, DeviceRow, GeofenceEventRow, GeofenceRow, GeofenceStateRow, PositionRow, Storage, TimeRange,
+  TripRow, AlertRuleRow, AlertRow, WebhookRow, WebhookDeliveryRow, ApiKeyRow, AuditLogRow,
+  OrganisationRow, GroupRow, GroupMemberRow, SessionRow,
+} from "./types.js";
+
+type RawRow = ReturnType<typeof buildRawPacketRow> & { id: number; parsed: boolean; received_at: string };
+
+/**
+ * In-process backend for local development and automated tests. Nothing is
+ * persisted — every restart begins with an empty store.
+ */
+export function createMemoryStorage(): Storage {
+  const devices = new Map<string, DeviceRow>();
+  const rawPackets: RawRow[] = [];
+  const positions: PositionRow[] = [];
+  const commands: CommandRow[] = [];
+  const geofences = new Map<number, GeofenceRow>();
+  const geofenceEvents: GeofenceEventRow[] = [];
+  const geofenceStates = new Map<string, GeofenceStateRow>(); // key: imei:geofence_id
+  let nextRawId = 1;
+  let nextPositionId = 1;
+  let nextCommandId = 1;
+  let nextGeofenceId = 1;
+  let nextGeofenceEventId = 1;
+  const trips: TripRow[] = [];
+  let nextTripId = 1;
+  const alertRules = new Map<number, AlertRuleRow>();
+  const alerts = new Map<number, AlertRow>();
+  let nextAlertRuleId = 1;
+  let nextAlertId = 1;
+  const webhooks = new Map<number, WebhookRow>();
+  const webhookDeliveries: WebhookDeliveryRow[] = [];
+  let nextWebhookId = 1;
+  let nextWebhookDeliveryId = 1;
+  const apiKeys = new Map<number, ApiKeyRow>();
+  const auditLog: AuditLogRow[] = [];
+  let nextApiKeyId = 1;
+  let nextAuditId = 1;
+  const organisations = new Map<number, OrganisationRow>();
+  const groups = new Map<number, GroupRow>();
+  const groupMembers: GroupMemberRow[] = [];
+  let nextOrganisationId = 1;
+  let nextGroupId = 1;
+  const sessions: SessionRow[] = [];
+  let nextSessionId = 1;
+
+  const removeMembers = (match: (m: GroupMemberRow) => boolean) => {
+    for (let i = groupMembers.length - 1; i >= 0; i--) {
+      if (match(groupMembers[i])) groupMembers.splice(i, 1);
+    }
+  };
+
+  const inRange = (row: { gps_time: string }, range: TimeRange) =>
+    (!range.from || Date.parse(row.gps_time) >= Date.parse(range.from)) &&
+    (!range.to || Date.parse(row.gps_time) <= Date.parse(range.to));
+
+  /** Device positions, newest first. */
+  const positionsFor = (imei: string, range: TimeRange = {}) =>
+    positions
+      .filter((p) => p.imei === imei && inRange(p, range))
+      .sort((a, b) => Date.parse(b.gps_time) - Date.parse(a.gps_time));
+
+  return {
+    async upsertDevice(imei, approval = "approved") {
+      if (devices.has(imei)) return;
+      devices.set(imei, {
+        imei,
+        label: null,
+        status: null,
+        approval_status: approval,
+        model: null,
+        organisation_id: null,
+        last_seen_at: null,
+        last_data_at: null,
+        report_interval_s: null,
+        created_at: new Date().toISOString(),
+      });
+    },
+
+    async updateDeviceStatus(imei, status, seen = true) {
+      const device = devices.get(imei);
+      if (!device) return;
+      device.status = status;
+      if (seen) device.last_seen_at = new Date().toISOString();
+    },
+
+    async updateDeviceLastData(imei, receivedAt) {
+      const device = devices.get(imei);
+      if (!device) return;
+      if (device.last_data_at === null || Date.parse(device.last_data_at) < Date.parse(receivedAt)) {
+        device.last_data_at = receivedAt;
+      }
+    },
+
+    async saveRawPacket(imei, remoteIp, buf, integrity) {
+      const id = nextRawId++;
+      rawPackets.push({
+        ...buildRawPacketRow(imei, remoteIp, buf, integrity),
+        id,
+        parsed: false,
+        received_at: new Date().toISOString(),
+      });
+      return id;
+    },
+
+    async deletePositionsForRaw(rawPacketId) {
+      for (let i = positions.length - 1; i >= 0; i--) {
+        if (positions[i].raw_packet_id === rawPacketId) positions.splice(i, 1);
+      }
+    },
+
+    async savePositions(imei, records, rawPacketId) {
+      if (records.length === 0) return;
+
+      for (const row of buildPositionRows(imei, records, rawPacketId)) {
+        positions.push({ ...row, id: nextPositionId++ });
+      }
+
+      const raw = rawPackets.find((r) => r.id === rawPacketId);
+      if (raw) raw.parsed = true;
+    },
+
+    async listRawPackets({ onlyUnparsed }) {
+      return rawPackets
+        .filter((r) => !onlyUnparsed || !r.parsed)
+        .map(({ id, imei, packet_hex }) => ({ id, imei, packet_hex }));
+    },
+
+    async listDevices() {
+      // Never-seen devices first, like Postgres' DESC ordering of NULLs
+      return [...devices.values()]
+        .sort((a, b) => {
+          if (a.last_seen_at === b.last_seen_at) return 0;
+          if (a.last_seen_at === null) return -1;
+          if (b.last_seen_at === null) return 1;
+          return b.last_seen_at.localeCompare(a.last_seen_at);
+        })
+        .map((d) => ({ ...d }));
+    },
+
+    async getDevice(imei) {
+      const device = devices.get(imei);
+      return device ? { ...device } : null;
+    },
+
+    async updateDeviceLabel(imei, label) {
+      const device = devices.get(imei);
+      if (device) device.label = label;
+    },
+
+    async updateDeviceModel(imei, model) {
+      const device = devices.get(imei);
+      if (device) device.model = model;
+    },
+
+    async updateDeviceReportInterval(imei, seconds) {
+      const device = devices.get(imei);
+      if (device) device.report_interval_s = seconds;
+    },
+
+    async setDeviceOrganisation(imei, organisationId) {
+      removeMembers((m) => m.imei === imei);
+      const device = devices.get(imei);
+      if (device) device.organisation_id = organisationId;
+    },
+
+    async setDeviceApproval(imei, approval) {
+      const device = devices.get(imei);
+      if (device) {
+        device.approval_status = approval;
+        return;
+      }
+      devices.set(imei, {
+        imei,
+        label: null,
+        status: null,
+        approval_status: approval,
+        model: null,
+        organisation_id: null,
+        last_seen_at: null,
+        last_data_at: null,
+        report_interval_s: null,
+        created_at: new Date().toISOString(),
+      });
+    },
+
+    async latestPosition(imei) {
+      return positionsFor(imei)[0] ?? null;
+    },
+
+    async listPositions(imei, range, limit) {
+      const rows = positionsFor(imei, range);
+      return limit === null ? rows : rows.slice(0, limit);
+    },
+
+    async sensorSeries(imei, source, range, limit) {
+      const rows = positionsFor(imei, range);
+
+      if ("column" in source) {
+        return rows
+          .slice(0, limit)
+          .map((p) => ({ gps_time: p.gps_time, value: p[source.column] ?? null }));
+      }
+
+      return rows
+        .filter((p) => source.ioKey in p.io_data)
+        .slice(0, limit)
+        .map((p) => ({ gps_time: p.gps_time, value: p.io_data[source.ioKey] }));
+    },
+
+    async *sensorPages(imei, source, range, pageSize) {
+      const rows = positionsFor(imei, range)
+        .reverse()
+        .filter((p) => "column" in source || source.ioKey in p.io_data)
+        .map((p) => ({
+          gps_time: p.gps_time,
+          value: "column" in source ? p[source.column] ?? null : p.io_data[source.ioKey],
+        }));
+      for (let i = 0; i < rows.length; i += pageSize) {
+        yield rows.slice(i, i + pageSize);
+      }
+    },
+
+    async *trackPages(imei, range, pageSize) {
+      const rows = positionsFor(imei, range).reverse();
+      for (let i = 0; i < rows.length; i += pageSize) {
+        yield rows.slice(i, i + pageSize);
+      }
+    },
+
+    async recentIoData(imei, limit) {
+      return positionsFor(imei).slice(0, limit).map((p) => p.io_data);
+    },
+
+    async insertCommand(imei, command) {
+      const row: CommandRow = {
+        id: nextCommandId++,
+        imei,
+        command,
+        status: "queued",
+        response: null,
+        created_at: new Date().toISOString(),
+        sent_at: null,
+        answered_at: null,
+      };
+      commands.push(row);
+      return { ...row };
+    },
+
+    async nextQueuedCommand(imei) {
+      const row = commands.find((c) => c.imei === imei && c.status === "queued");
+      return row ? { ...row } : null;
+    },
+
+    async updateCommand(id, patch) {
+      const row = commands.find((c) => c.id === id);
+      if (row) Object.assign(row, patch);
+    },
+
+    async listCommands(imei, { status, limit }) {
+      return commands
+        .filter((c) => c.imei === imei && (!status || c.status === status))
+        .sort((a, b) => b.id - a.id)
+        .slice(0, limit)
+        .map((c) => ({ ...c }));
+    },
+
+    async listGeofences() {
+      return [...geofences.values()].map((g) => structuredClone(g));
+    },
+
+    async getGeofence(id) {
+      const row = geofences.get(id);
+      return row ? structuredClone(row) : null;
+    },
+
+    async createGeofence(input) {
+      const row: GeofenceRow = {
+        ...structuredClone(input),
+        id: nextGeofenceId++,
+        created_at: new Date().toISOString(),
+      };
+      geofences.set(row.id, row);
+      return structuredClone(row);
+    },
+
+    async updateGeofence(id, patch) {
+      const row = geofences.get(id);
+      if (!row) return null;
+      for (const [key, value] of Object.entries(structuredClone(patch))) {
+        if (value !== undefined) (row as Record<string, unknown>)[key] = value;
+      }
+      return structuredClone(row);
+    },
+
+    async deleteGeofence(id) {
+      for (let i = geofenceEvents.length - 1; i >= 0; i--) {
+        if (geofenceEvents[i].geofence_id === id) geofenceEvents.splice(i, 1);
+      }
+      for (const [key, state] of geofenceStates) {
+        if (state.geofence_id === id) geofenceStates.delete(key);
+      }
+      return geofences.delete(id);
+    },
+
+    async insertGeofenceEvents(events) {
+      const created_at = new Date().toISOString();
+      for (const event of events) {
+        geofenceEvents.push({ ...event, id: nextGeofenceEventId++, created_at });
+      }
+    },
+
+    async listGeofenceEvents(filter, range, limit) {
+      return geofenceEvents
+        .filter((e) =>
+          (!filter.imei || e.imei === filter.imei) &&
+          (!filter.imeis || filter.imeis.includes(e.imei)) &&
+          (filter.geofenceId === undefined || e.geofence_id === filter.geofenceId) &&
+          inRange(e, range))
+        .sort((a, b) => Date.parse(b.gps_time) - Date.parse(a.gps_time))
+        .slice(0, limit)
+        .map((e) => ({ ...e }));
+    },
+
+    async loadGeofenceStates(imei) {
+      return [...geofenceStates.values()]
+        .filter((s) => s.imei === imei)
+        .map((s) => ({ ...s }));
+    },
+
+    async saveGeofenceStates(states) {
+      for (const state of states) {
+        geofenceStates.set(`${state.imei}:${state.geofence_id}`, { ...state });
+      }
+    },
+
+    async listTrips(imei, range, limit) {
+      return trips
+        .filter((t) => t.imei === imei && inRange({ gps_time: t.start_time }, range))
+        .sort((a, b) => Date.parse(b.start_time) - Date.parse(a.start_time))
+        .slice(0, limit)
+        .map((t) => ({ ...t }));
+    },
+
+    async getTrip(id) {
+      const trip = trips.find((t) => t.id === id);
+      return trip ? { ...trip } : null;
+    },
+
+    async upsertTrips(rows) {
+      const updated_at = new Date().toISOString();
+      for (const row of rows) {
+        const existing = trips.find((t) => t.imei === row.imei && t.start_time === row.start_time);
+        if (existing) Object.assign(existing, row, { updated_at });
+        else trips.push({ ...row, id: nextTripId++, updated_at });
+      }
+    },
+
+    async deleteTripsSince(imei, from) {
+      for (let i = trips.length - 1; i >= 0; i--) {
+        const t = trips[i];
+        if (t.imei === imei && (!from || Date.parse(t.start_time) >= Date.parse(from))) trips.splice(i, 1);
+      }
+    },
+
+    async listAlertRules() {
+      return [...alertRules.values()].map((r) => structuredClone(r));
+    },
+
+    async getAlertRule(id) {
+      const row = alertRules.get(id);
+      return row ? structuredClone(row) : null;
+    },
+
+    async createAlertRule(input) {
+      const row: AlertRuleRow = {
+        ...structuredClone(input),
+        id: nextAlertRuleId++,
+        created_at: new Date().toISOString(),
+      };
+      alertRules.set(row.id, row);
+      return structuredClone(row);
+    },
+
+    async updateAlertRule(id, patch) {
+      const row = alertRules.get(id);
+      if (!row) return null;
+      for (const [key, value] of Object.entries(structuredClone(patch))) {
+        if (value !== undefined) (row as Record<string, unknown>)[key] = value;
+      }
+      return structuredClone(row);
+    },
+
+    async deleteAlertRule(id) {
+      for (const [alertId, alert] of alerts) {
+        if (alert.rule_id === id) alerts.delete(alertId);
+      }
+      return alertRules.delete(id);
+    },
+
+    async insertAlert(input) {
+      const row: AlertRow = { ...input, id: nextAlertId++, created_at: new Date().toISOString() };
+      alerts.set(row.id, row);
+      return { ...row };
+    },
+
+    async getAlert(id) {
+      const row = alerts.get(id);
+      return row ? { ...row } : null;
+    },
+
+    async updateAlert(id, patch) {
+      const row = alerts.get(id);
+      if (!row) return null;
+      for (const [key, value] of Object.entries(patch)) {
+        if (value !== undefined) (row as Record<string, unknown>)[key] = value;
+      }
+      return { ...row };
+    },
+
+    async listAlerts(filter, range, limit) {
+      return [...alerts.values()]
+        .filter((a) =>
+          (!filter.imei || a.imei === filter.imei) &&
+          (!filter.imeis || filter.imeis.includes(a.imei)) &&
+          (filter.ruleId === undefined || a.rule_id === filter.ruleId) &&
+          (!filter.statuses || filter.statuses.includes(a.status)) &&
+          inRange({ gps_time: a.opened_at }, range))
+        .sort((a, b) => Date.parse(b.opened_at) - Date.parse(a.opened_at))
+        .slice(0, limit)
+        .map((a) => ({ ...a }));
+    },
+
+    async listWebhooks() {
+      return [...webhooks.values()].map((w) => structuredClone(w));
+    },
+
+    async getWebhook(id) {
+      const row = webhooks.get(id);
+      return row ? structuredClone(row) : null;
+    },
+
+    async createWebhook(input) {
+      const row: WebhookRow = {
+        ...structuredClone(input),
+        id: nextWebhookId++,
+        created_at: new Date().toISOString(),
+      };
+      webhooks.set(row.id, row);
+      return structuredClone(row);
+    },
+
+    async updateWebhook(id, patch) {
+      const row = webhooks.get(id);
+      if (!row) return null;
+      for (const [key, value] of Object.entries(structuredClone(patch))) {
+        if (value !== undefined) (row as Record<string, unknown>)[key] = value;
+      }
+      return structuredClone(row);
+    },
+
+    async deleteWebhook(id) {
+      for (let i = webhookDeliveries.length - 1; i >= 0; i--) {
+        if (webhookDeliveries[i].webhook_id === id) webhookDeliveries.splice(i, 1);
+      }
+      return webhooks.delete(id);
+    },
+
+    async insertWebhookDeliveries(deliveries) {
+      const now = new Date().toISOString();
+      for (const d of deliveries) {
+        webhookDeliveries.push({
+          ...structuredClone(d),
+          id: nextWebhookDeliveryId++,
+          status: "pending",
+          attempts: 0,
+          next_attempt_at: now,
+          last_status_code: null,
+          last_error: null,
+          delivered_at: null,
+          created_at: now,
+        });
+      }
+    },
+
+    async dueWebhookDeliveries(now, limit) {
+      return webhookDeliveries
+        .filter((d) => d.status === "pending" && Date.parse(d.next_attempt_at) <= Date.parse(now))
+        .slice(0, limit)
+        .map((d) => structuredClone(d));
+    },
+
+    async updateWebhookDelivery(id, patch) {
+      const row = webhookDeliveries.find((d) => d.id === id);
+      if (row) Object.assign(row, patch);
+    },
+
+    async listWebhookDeliveries(filter, limit) {
+      return webhookDeliveries
+        .filter((d) =>
+          (filter.webhookId === undefined || d.webhook_id === filter.webhookId) &&
+          (!filter.status || d.status === filter.status))
+        .sort((a, b) => b.id - a.id)
+        .slice(0, limit)
+        .map((d) => structuredClone(d));
+    },
+
+    async listApiKeys() {
+      return [...apiKeys.values()].map((k) => structuredClone(k));
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const row = [...apiKeys.values()].find((k) => k.key_hash === keyHash);
+      return row ? structuredClone(row) : null;
+    },
+
+    async createApiKey(input) {
+      const row: ApiKeyRow = {
+        ...structuredClone(input),
+        id: nextApiKeyId++,
+        created_at: new Date().toISOString(),
+        last_used_at: null,
+        revoked_at: null,
+      };
+      apiKeys.set(row.id, row);
+      return structuredClone(row);
+    },
+
+    async updateApiKey(id, patch) {
+      const row = apiKeys.get(id);
+      if (!row) return null;
+      Object.assign(row, patch);
+      return structuredClone(row);
+    },
+
+    async insertAuditLog(entry) {
+      auditLog.push({ ...structuredClone(entry), id: nextAuditId++, created_at: new Date().toISOString() });
+    },
+
+    async listAuditLog(filter, range, limit) {
+      return auditLog
+        .filter((e) =>
+          (filter.apiKeyId === undefined || e.api_key_id === filter.apiKeyId) &&
+          (!filter.imei || e.imei === filter.imei) &&
+          inRange({ gps_time: e.created_at }, range))
+        .sort((a, b) => b.id - a.id)
+        .slice(0, limit)
+        .map((e) => structuredClone(e));
+    },
+
+    async listOrganisations() {
+      return [...organisations.values()].map((o) => structuredClone(o));
+    },
+
+    async getOrganisation(id) {
+      const row = organisations.get(id);
+      return row ? structuredClone(row) : null;
+    },
+
+    async createOrganisation(name) {
+      const row: OrganisationRow = { id: nextOrganisationId++, name, created_at: new Date().toISOString() };
+      organisations.set(row.id, row);
+      return structuredClone(row);
+    },
+
+    async updateOrganisation(id, name) {
+      const row = organisations.get(id);
+      if (!row) return null;
+      row.name = name;
+      return structuredClone(row);
+    },
+
+    async deleteOrganisation(id) {
+      return organisations.delete(id);
+    },
+
+    async listGroups(organisationId) {
+      return [...groups.values()]
+        .filter((g) => organisationId === undefined || g.organisation_id === organisationId)
+        .map((g) => structuredClone(g));
+    },
+
+    async getGroup(id) {
+      const row = groups.get(id);
+      return row ? structuredClone(row) : null;
+    },
+
+    async createGroup(input) {
+      const row: GroupRow = { ...structuredClone(input), id: nextGroupId++, created_at: new Date().toISOString() };
+      groups.set(row.id, row);
+      return structuredClone(row);
+    },
+
+    async updateGroup(id, patch) {
+      const row = groups.get(id);
+      if (!row) return null;
+      for (const [key, value] of Object.entries(structuredClone(patch))) {
+        if (value !== undefined) (row as Record<string, unknown>)[key] = value;
+      }
+      return structuredClone(row);
+    },
+
+    async deleteGroup(id) {
+      removeMembers((m) => m.group_id === id);
+      return groups.delete(id);
+    },
+
+    async listGroupMembers(groupIds) {
+      return groupMembers
+        .filter((m) => groupIds.includes(m.group_id))
+        .sort((a, b) => a.group_id - b.group_id || a.imei.localeCompare(b.imei))
+        .map((m) => structuredClone(m));
+    },
+
+    async addGroupMembers(groupId, imeis) {
+      const now = new Date().toISOString();
+      for (const imei of new Set(imeis)) {
+        if (groupMembers.some((m) => m.group_id === groupId && m.imei === imei)) continue;
+        groupMembers.push({ group_id: groupId, imei, created_at: now });
+      }
+    },
+
+    async removeGroupMember(groupId, imei) {
+      const before = groupMembers.length;
+      removeMembers((m) => m.group_id === groupId && m.imei === imei);
+      return groupMembers.length < before;
+    },
+
+    async insertSession(input) {
+      const row: SessionRow = { ...structuredClone(input), id: nextSessionId++ };
+      sessions.push(row);
+      return row.id;
+    },
+
+    async updateSession(id, patch) {
+      const row = sessions.find((s) => s.id === id);
+      if (row) Object.assign(row, patch);
+    },
+
+    async listSessions(imei, range, limit) {
+      const rows = sessions
+        .filter((s) => s.imei === imei && inRange({ gps_time: s.connected_at }, range))
+        .sort((a, b) => Date.parse(b.connected_at) - Date.parse(a.connected_at))
+        .map((s) => structuredClone(s));
+      return limit === null ? rows : rows.slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,760 @@
+import pg from "pg";
+import { buildPositionRows, buildRawPacketRow } from "./rows.js";
+import type {
+  CommandRow, DeviceRow, GeofenceEventRow, GeofenceRow, GeofenceStateRow, PositionRow, RawPacketRow,
+  SensorPoint, Storage, TripRow, AlertRuleRow, AlertRow,
+  WebhookRow, WebhookDeliveryRow, ApiKeyRow, AuditLogRow, OrganisationRow, GroupRow, GroupMemberRow,
+  SessionRow,
+} from "./types.js";
+
+// Match the JSON shapes Supabase returns: bigint ids and numerics as numbers,
+// timestamps as ISO 8601 strings
+pg.types.setTypeParser(pg.types.builtins.INT8, Number);
+pg.types.setTypeParser(pg.types.builtins.NUMERIC, parseFloat);
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMPTZ, (v) => new Date(v).toISOString());
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMP, (v) => new Date(`${v}Z`).toISOString());
+
+const DEVICE_COLUMNS =
+  "imei, label, status, approval_status, model, organisation_id, last_seen_at, last_data_at, report_interval_s, created_at";
+
+function ident(name: string): string {
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) throw new Error(`Invalid column name: ${name}`);
+  return `"${name}"`;
+}
+
+/**
+ * Builds a parameterised multi-row INSERT. Rows may carry different keys (the
+ * promoted IO columns vary per record); missing values are inserted as NULL.
+ */
+function insertSql(table: string, rows: Record<string, unknown>[]): { text: string; values: unknown[] } {
+  const columns = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  const values: unknown[] = [];
+
+  const tuples = rows.map((row) => {
+    const params = columns.map((col) => {
+      const v = row[col];
+      values.push(v !== null && typeof v === "object" ? JSON.stringify(v) : v ?? null);
+      return `$${values.length}`;
+    });
+    return `(${params.join(", ")})`;
+  });
+
+  return {
+    text: `INSERT INTO ${ident(table)} (${columns.map(ident).join(", ")}) VALUES ${tuples.join(", ")}`,
+    values,
+  };
+}
+
+/** Builds a parameterised `UPDATE … SET … WHERE id = $1`; object values go in as JSON. */
+function updateByIdSql(table: string, id: number, patch: Record<string, unknown>): { text: string; values: unknown[] } {
+  const entries = Object.entries(patch).filter(([, v]) => v !== undefined);
+  const values: unknown[] = [id];
+  const sets = entries.map(([col, v]) => {
+    values.push(v !== null && typeof v === "object" ? JSON.stringify(v) : v);
+    return `${ident(col)} = $${values.length}`;
+  });
+  return { text: `UPDATE ${ident(table)} SET ${sets.join(", ")} WHERE id = $1`, values };
+}
+
+/**
+ * Plain PostgreSQL backend, reached through a connection string. The schema
+ * is the one migrations/ builds (see migrate.ts), shared with the Supabase
+ * project — Supabase is Postgres underneath.
+ */
+export function createPostgresStorage(connectionString: string): Storage {
+  const pool = new pg.Pool({ connectionString });
+
+  pool.on("error", (err) => {
+    console.error("[✗] Postgres pool error:", err.message);
+  });
+
+  async function query<T>(label: string, text: string, values: unknown[] = []): Promise<T[]> {
+    try {
+      const result = await pool.query(text, values);
+      return result.rows as T[];
+    } catch (err) {
+      throw new Error(`${label}: ${(err as Error).message}`);
+    }
+  }
+
+  function rangeClause(
+    range: { from?: string; to?: string },
+    values: unknown[]
+  ): string {
+    let sql = "";
+    if (range.from) {
+      values.push(range.from);
+      sql += ` AND gps_time >= $${values.length}`;
+    }
+    if (range.to) {
+      values.push(range.to);
+      sql += ` AND gps_time <= $${values.length}`;
+    }
+    return sql;
+  }
+
+  return {
+    async upsertDevice(imei, approval = "approved") {
+      await query("upsertDevice",
+        `INSERT INTO tracker_devices (imei, approval_status) VALUES ($1, $2)
+         ON CONFLICT (imei) DO NOTHING`, [imei, approval]);
+    },
+
+    async updateDeviceStatus(imei, status, seen = true) {
+      await query("updateDeviceStatus",
+        seen
+          ? "UPDATE tracker_devices SET status = $2, last_seen_at = now() WHERE imei = $1"
+          : "UPDATE tracker_devices SET status = $2 WHERE imei = $1",
+        [imei, status]);
+    },
+
+    async updateDeviceLastData(imei, receivedAt) {
+      // GREATEST ignores nulls, so the first packet sets it
+      await query("updateDeviceLastData",
+        "UPDATE tracker_devices SET last_data_at = GREATEST(last_data_at, $2::timestamptz) WHERE imei = $1",
+        [imei, receivedAt]);
+    },
+
+    async saveRawPacket(imei, remoteIp, buf, integrity) {
+      const { text, values } = insertSql("tracker_packets_raw", [
+        buildRawPacketRow(imei, remoteIp, buf, integrity),
+      ]);
+      const [row] = await query<{ id: number }>("saveRawPacket", `${text} RETURNING id`, values);
+      return row.id;
+    },
+
+    async deletePositionsForRaw(rawPacketId) {
+      await query("deletePositionsForRaw",
+        "DELETE FROM tracker_positions WHERE raw_packet_id = $1", [rawPacketId]);
+    },
+
+    async savePositions(imei, records, rawPacketId) {
+      if (records.length === 0) return;
+
+      const { text, values } = insertSql("tracker_positions", buildPositionRows(imei, records, rawPacketId));
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        await client.query(text, values);
+        await client.query("UPDATE tracker_packets_raw SET parsed = true WHERE id = $1", [rawPacketId]);
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK").catch(() => {});
+        throw new Error(`savePositions: ${(err as Error).message}`);
+      } finally {
+        client.release();
+      }
+    },
+
+    async listRawPackets({ onlyUnparsed }) {
+      return query<RawPacketRow>("listRawPackets",
+        `SELECT id, imei, packet_hex FROM tracker_packets_raw
+         ${onlyUnparsed ? "WHERE parsed = false" : ""} ORDER BY id ASC`);
+    },
+
+    async listDevices() {
+      return query<DeviceRow>("listDevices",
+        `SELECT ${DEVICE_COLUMNS} FROM tracker_devices ORDER BY last_seen_at DESC NULLS FIRST`);
+    },
+
+    async getDevice(imei) {
+      const [row] = await query<DeviceRow>("getDevice",
+        `SELECT ${DEVICE_COLUMNS} FROM tracker_devices WHERE imei = $1`, [imei]);
+      return row ?? null;
+    },
+
+    async updateDeviceLabel(imei, label) {
+      await query("updateDeviceLabel", "UPDATE tracker_devices SET label = $2 WHERE imei = $1", [imei, label]);
+    },
+
+    async updateDeviceModel(imei, model) {
+      await query("updateDeviceModel", "UPDATE tracker_devices SET model = $2 WHERE imei = $1", [imei, model]);
+    },
+
+    async updateDeviceReportInterval(imei, seconds) {
+      await query("updateDeviceReportInterval",
+        "UPDATE tracker_devices SET report_interval_s = $2 WHERE imei = $1", [imei, seconds]);
+    },
+
+    async setDeviceOrganisation(imei, organisationId) {
+      await query("setDeviceOrganisation", "DELETE FROM tracker_group_members WHERE imei = $1", [imei]);
+      await query("setDeviceOrganisation",
+        "UPDATE tracker_devices SET organisation_id = $2 WHERE imei = $1", [imei, organisationId]);
+    },
+
+    async setDeviceApproval(imei, approval) {
+      await query("setDeviceApproval",
+        `INSERT INTO tracker_devices (imei, approval_status) VALUES ($1, $2)
+         ON CONFLICT (imei) DO UPDATE SET approval_status = EXCLUDED.approval_status`, [imei, approval]);
+    },
+
+    async latestPosition(imei) {
+      const [row] = await query<PositionRow>("latestPosition",
+        "SELECT * FROM tracker_positions WHERE imei = $1 ORDER BY gps_time DESC LIMIT 1", [imei]);
+      return row ?? null;
+    },
+
+    async listPositions(imei, range, limit) {
+      const values: unknown[] = [imei];
+      let sql = "SELECT * FROM tracker_positions WHERE imei = $1" + rangeClause(range, values);
+      sql += " ORDER BY gps_time DESC";
+      if (limit !== null) {
+        values.push(limit);
+        sql += ` LIMIT $${values.length}`;
+      }
+      return query<PositionRow>("listPositions", sql, values);
+    },
+
+    async sensorSeries(imei, source, range, limit) {
+      const values: unknown[] = [imei];
+      let sql: string;
+      if ("column" in source) {
+        sql = `SELECT gps_time, ${ident(source.column)} AS value FROM tracker_positions WHERE imei = $1`;
+      } else {
+        values.push(source.ioKey);
+        sql = `SELECT gps_time, io_data -> $2 AS value FROM tracker_positions
+               WHERE imei = $1 AND io_data ? $2`;
+      }
+      sql += rangeClause(range, values);
+      values.push(limit);
+      sql += ` ORDER BY gps_time DESC LIMIT $${values.length}`;
+
+      const rows = await query<SensorPoint>("sensorSeries", sql, values);
+      return "column" in source ? rows : rows.filter((row) => row.value !== null);
+    },
+
+    async *sensorPages(imei, source, range, pageSize) {
+      let after: { gps_time: string; id: number } | null = null;
+      for (;;) {
+        const values: unknown[] = [imei];
+        let sql: string;
+        if ("column" in source) {
+          sql = `SELECT id, gps_time, ${ident(source.column)} AS value FROM tracker_positions WHERE imei = $1`;
+        } else {
+          values.push(source.ioKey);
+          sql = `SELECT id, gps_time, io_data -> $2 AS value FROM tracker_positions
+                 WHERE imei = $1 AND io_data ? $2`;
+        }
+        sql += rangeClause(range, values);
+        if (after) {
+          values.push(after.gps_time, after.id);
+          sql += ` AND (gps_time, id) > ($${values.length - 1}, $${values.length})`;
+        }
+        values.push(pageSize);
+        sql += ` ORDER BY gps_time ASC, id ASC LIMIT $${values.length}`;
+
+        const rows = await query<SensorPoint & { id: number }>("sensorPages", sql, values);
+        if (rows.length === 0) return;
+
+        yield rows
+          .filter((row) => "column" in source || row.value !== null)
+          .map(({ gps_time, value }) => ({ gps_time, value }));
+        if (rows.length < pageSize) return;
+        const last = rows[rows.length - 1];
+        after = { gps_time: last.gps_time, id: last.id };
+      }
+    },
+
+    async *trackPages(imei, range, pageSize) {
+      // Keyset pagination on (gps_time, id) — stable while rows are appended
+      let after: { gps_time: string; id: number } | null = null;
+      for (;;) {
+        const values: unknown[] = [imei];
+        let sql = "SELECT * FROM tracker_positions WHERE imei = $1" + rangeClause(range, values);
+        if (after) {
+          values.push(after.gps_time, after.id);
+          sql += ` AND (gps_time, id) > ($${values.length - 1}, $${values.length})`;
+        }
+        values.push(pageSize);
+        sql += ` ORDER BY gps_time ASC, id ASC LIMIT $${values.length}`;
+
+        const rows = await query<PositionRow>("trackPages", sql, values);
+        if (rows.length === 0) return;
+
+        yield rows;
+        if (rows.length < pageSize) return;
+        const last = rows[rows.length - 1];
+        after = { gps_time: last.gps_time, id: last.id };
+      }
+    },
+
+    async recentIoData(imei, limit) {
+      const rows = await query<{ io_data: PositionRow["io_data"] | null }>("recentIoData",
+        `SELECT io_data FROM tracker_positions WHERE imei = $1
+         ORDER BY gps_time DESC LIMIT $2`, [imei, limit]);
+      return rows.flatMap((row) => (row.io_data ? [row.io_data] : []));
+    },
+
+    async insertCommand(imei, command) {
+      const [row] = await query<CommandRow>("insertCommand",
+        "INSERT INTO tracker_commands (imei, command, status) VALUES ($1, $2, 'queued') RETURNING *",
+        [imei, command]);
+      return row;
+    },
+
+    async nextQueuedCommand(imei) {
+      const [row] = await query<CommandRow>("nextQueuedCommand",
+        `SELECT * FROM tracker_commands WHERE imei = $1 AND status = 'queued'
+         ORDER BY id ASC LIMIT 1`, [imei]);
+      return row ?? null;
+    },
+
+    async updateCommand(id, patch) {
+      if (Object.keys(patch).length === 0) return;
+      const { text, values } = updateByIdSql("tracker_commands", id, patch);
+      await query("updateCommand", text, values);
+    },
+
+    async listCommands(imei, { status, limit }) {
+      const values: unknown[] = [imei];
+      let sql = "SELECT * FROM tracker_commands WHERE imei = $1";
+      if (status) {
+        values.push(status);
+        sql += ` AND status = $${values.length}`;
+      }
+      values.push(limit);
+      sql += ` ORDER BY id DESC LIMIT $${values.length}`;
+      return query<CommandRow>("listCommands", sql, values);
+    },
+
+    async listGeofences() {
+      return query<GeofenceRow>("listGeofences", "SELECT * FROM tracker_geofences ORDER BY id ASC");
+    },
+
+    async getGeofence(id) {
+      const [row] = await query<GeofenceRow>("getGeofence",
+        "SELECT * FROM tracker_geofences WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async createGeofence(input) {
+      const { text, values } = insertSql("tracker_geofences", [input]);
+      const [row] = await query<GeofenceRow>("createGeofence", `${text} RETURNING *`, values);
+      return row;
+    },
+
+    async updateGeofence(id, patch) {
+      if (Object.keys(patch).length === 0) {
+        const [row] = await query<GeofenceRow>("updateGeofence",
+          "SELECT * FROM tracker_geofences WHERE id = $1", [id]);
+        return row ?? null;
+      }
+
+      const { text, values } = updateByIdSql("tracker_geofences", id, patch);
+      const [row] = await query<GeofenceRow>("updateGeofence", `${text} RETURNING *`, values);
+      return row ?? null;
+    },
+
+    async deleteGeofence(id) {
+      await query("deleteGeofence", "DELETE FROM tracker_geofence_events WHERE geofence_id = $1", [id]);
+      await query("deleteGeofence", "DELETE FROM tracker_geofence_state WHERE geofence_id = $1", [id]);
+      const rows = await query("deleteGeofence", "DELETE FROM tracker_geofences WHERE id = $1 RETURNING id", [id]);
+      return rows.length > 0;
+    },
+
+    async insertGeofenceEvents(events) {
+      if (events.length === 0) return;
+      const { text, values } = insertSql("tracker_geofence_events", events);
+      await query("insertGeofenceEvents", text, values);
+    },
+
+    async listGeofenceEvents(filter, range, limit) {
+      const values: unknown[] = [];
+      let sql = "SELECT * FROM tracker_geofence_events WHERE true";
+      if (filter.imei) {
+        values.push(filter.imei);
+        sql += ` AND imei = $${values.length}`;
+      }
+      if (filter.imeis) {
+        values.push(filter.imeis);
+        sql += ` AND imei = ANY($${values.length})`;
+      }
+      if (filter.geofenceId !== undefined) {
+        values.push(filter.geofenceId);
+        sql += ` AND geofence_id = $${values.length}`;
+      }
+      sql += rangeClause(range, values);
+      values.push(limit);
+      sql += ` ORDER BY gps_time DESC LIMIT $${values.length}`;
+      return query<GeofenceEventRow>("listGeofenceEvents", sql, values);
+    },
+
+    async loadGeofenceStates(imei) {
+      return query<GeofenceStateRow>("loadGeofenceStates",
+        "SELECT * FROM tracker_geofence_state WHERE imei = $1", [imei]);
+    },
+
+    async saveGeofenceStates(states) {
+      if (states.length === 0) return;
+      const { text, values } = insertSql("tracker_geofence_state", states);
+      await query("saveGeofenceStates",
+        `${text} ON CONFLICT (imei, geofence_id) DO UPDATE SET
+           inside = EXCLUDED.inside, since = EXCLUDED.since,
+           last_gps_time = EXCLUDED.last_gps_time, dwell_reported = EXCLUDED.dwell_reported`,
+        values);
+    },
+
+    async listTrips(imei, range, limit) {
+      const values: unknown[] = [imei];
+      let sql = "SELECT * FROM tracker_trips WHERE imei = $1";
+      if (range.from) {
+        values.push(range.from);
+        sql += ` AND start_time >= $${values.length}`;
+      }
+      if (range.to) {
+        values.push(range.to);
+        sql += ` AND start_time <= $${values.length}`;
+      }
+      values.push(limit);
+      sql += ` ORDER BY start_time DESC LIMIT $${values.length}`;
+      return query<TripRow>("listTrips", sql, values);
+    },
+
+    async getTrip(id) {
+      const [row] = await query<TripRow>("getTrip", "SELECT * FROM tracker_trips WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async upsertTrips(trips) {
+      if (trips.length === 0) return;
+      const { text, values } = insertSql("tracker_trips", trips);
+      const columns = Object.keys(trips[0]).filter((c) => c !== "imei" && c !== "start_time");
+      await query("upsertTrips",
+        `${text} ON CONFLICT (imei, start_time) DO UPDATE SET
+           ${columns.map((c) => `${ident(c)} = EXCLUDED.${ident(c)}`).join(", ")}, updated_at = now()`,
+        values);
+    },
+
+    async deleteTripsSince(imei, from) {
+      if (from) {
+        await query("deleteTripsSince",
+          "DELETE FROM tracker_trips WHERE imei = $1 AND start_time >= $2", [imei, from]);
+      } else {
+        await query("deleteTripsSince", "DELETE FROM tracker_trips WHERE imei = $1", [imei]);
+      }
+    },
+
+    async listAlertRules() {
+      return query<AlertRuleRow>("listAlertRules", "SELECT * FROM tracker_alert_rules ORDER BY id ASC");
+    },
+
+    async getAlertRule(id) {
+      const [row] = await query<AlertRuleRow>("getAlertRule",
+        "SELECT * FROM tracker_alert_rules WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async createAlertRule(input) {
+      const { text, values } = insertSql("tracker_alert_rules", [input]);
+      const [row] = await query<AlertRuleRow>("createAlertRule", `${text} RETURNING *`, values);
+      return row;
+    },
+
+    async updateAlertRule(id, patch) {
+      if (Object.keys(patch).length === 0) {
+        const [row] = await query<AlertRuleRow>("updateAlertRule",
+          "SELECT * FROM tracker_alert_rules WHERE id = $1", [id]);
+        return row ?? null;
+      }
+
+      const { text, values } = updateByIdSql("tracker_alert_rules", id, patch);
+      const [row] = await query<AlertRuleRow>("updateAlertRule", `${text} RETURNING *`, values);
+      return row ?? null;
+    },
+
+    async deleteAlertRule(id) {
+      await query("deleteAlertRule", "DELETE FROM tracker_alerts WHERE rule_id = $1", [id]);
+      const rows = await query("deleteAlertRule", "DELETE FROM tracker_alert_rules WHERE id = $1 RETURNING id", [id]);
+      return rows.length > 0;
+    },
+
+    async insertAlert(input) {
+      const { text, values } = insertSql("tracker_alerts", [input]);
+      const [row] = await query<AlertRow>("insertAlert", `${text} RETURNING *`, values);
+      return row;
+    },
+
+    async getAlert(id) {
+      const [row] = await query<AlertRow>("getAlert", "SELECT * FROM tracker_alerts WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async updateAlert(id, patch) {
+      const { text, values } = updateByIdSql("tracker_alerts", id, patch);
+      const [row] = await query<AlertRow>("updateAlert", `${text} RETURNING *`, values);
+      return row ?? null;
+    },
+
+    async listAlerts(filter, range, limit) {
+      const values: unknown[] = [];
+      let sql = "SELECT * FROM tracker_alerts WHERE true";
+      if (filter.imei) {
+        values.push(filter.imei);
+        sql += ` AND imei = $${values.length}`;
+      }
+      if (filter.imeis) {
+        values.push(filter.imeis);
+        sql += ` AND imei = ANY($${values.length})`;
+      }
+      if (filter.ruleId !== undefined) {
+        values.push(filter.ruleId);
+        sql += ` AND rule_id = $${values.length}`;
+      }
+      if (filter.statuses) {
+        values.push(filter.statuses);
+        sql += ` AND status = ANY($${values.length})`;
+      }
+      if (range.from) {
+        values.push(range.from);
+        sql += ` AND opened_at >= $${values.length}`;
+      }
+      if (range.to) {
+        values.push(range.to);
+        sql += ` AND opened_at <= $${values.length}`;
+      }
+      values.push(limit);
+      sql += ` ORDER BY opened_at DESC LIMIT $${values.length}`;
+      return query<AlertRow>("listAlerts", sql, values);
+    },
+
+    async listWebhooks() {
+      return query<WebhookRow>("listWebhooks", "SELECT * FROM tracker_webhooks ORDER BY id ASC");
+    },
+
+    async getWebhook(id) {
+      const [row] = await query<WebhookRow>("getWebhook", "SELECT * FROM tracker_webhooks WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async createWebhook(input) {
+      const { text, values } = insertSql("tracker_webhooks", [input]);
+      const [row] = await query<WebhookRow>("createWebhook", `${text} RETURNING *`, values);
+      return row;
+    },
+
+    async updateWebhook(id, patch) {
+      if (Object.keys(patch).length === 0) {
+        const [row] = await query<WebhookRow>("updateWebhook",
+          "SELECT * FROM tracker_webhooks WHERE id = $1", [id]);
+        return row ?? null;
+      }
+
+      const { text, values } = updateByIdSql("tracker_webhooks", id, patch);
+      const [row] = await query<WebhookRow>("updateWebhook", `${text} RETURNING *`, values);
+      return row ?? null;
+    },
+
+    async deleteWebhook(id) {
+      await query("deleteWebhook", "DELETE FROM tracker_webhook_deliveries WHERE webhook_id = $1", [id]);
+      const rows = await query("deleteWebhook", "DELETE FROM tracker_webhooks WHERE id = $1 RETURNING id", [id]);
+      return rows.length > 0;
+    },
+
+    async insertWebhookDeliveries(deliveries) {
+      if (deliveries.length === 0) return;
+      const next_attempt_at = new Date().toISOString();
+      const { text, values } = insertSql("tracker_webhook_deliveries",
+        deliveries.map((d) => ({ ...d, status: "pending", attempts: 0, next_attempt_at })));
+      await query("insertWebhookDeliveries", text, values);
+    },
+
+    async dueWebhookDeliveries(now, limit) {
+      return query<WebhookDeliveryRow>("dueWebhookDeliveries",
+        `SELECT * FROM tracker_webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= $1
+         ORDER BY id ASC LIMIT $2`,
+        [now, limit]);
+    },
+
+    async updateWebhookDelivery(id, patch) {
+      if (Object.keys(patch).length === 0) return;
+      const { text, values } = updateByIdSql("tracker_webhook_deliveries", id, patch);
+      await query("updateWebhookDelivery", text, values);
+    },
+
+    async listWebhookDeliveries(filter, limit) {
+      const values: unknown[] = [];
+      let sql = "SELECT * FROM tracker_webhook_deliveries WHERE true";
+      if (filter.webhookId !== undefined) {
+        values.push(filter.webhookId);
+        sql += ` AND webhook_id = $${values.length}`;
+      }
+      if (filter.status) {
+        values.push(filter.status);
+        sql += ` AND status = $${values.length}`;
+      }
+      values.push(limit);
+      sql += ` ORDER BY id DESC LIMIT $${values.length}`;
+      return query<WebhookDeliveryRow>("listWebhookDeliveries", sql, values);
+    },
+
+    async listApiKeys() {
+      return query<ApiKeyRow>("listApiKeys", "SELECT * FROM tracker_api_keys ORDER BY id ASC");
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const [row] = await query<ApiKeyRow>("getApiKeyByHash",
+        "SELECT * FROM tracker_api_keys WHERE key_hash = $1", [keyHash]);
+      return row ?? null;
+    },
+
+    async createApiKey(input) {
+      const { text, values } = insertSql("tracker_api_keys", [input]);
+      const [row] = await query<ApiKeyRow>("createApiKey", `${text} RETURNING *`, values);
+      return row;
+    },
+
+    async updateApiKey(id, patch) {
+      if (Object.keys(patch).length === 0) {
+        const [row] = await query<ApiKeyRow>("updateApiKey", "SELECT * FROM tracker_api_keys WHERE id = $1", [id]);
+        return row ?? null;
+      }
+
+      const { text, values } = updateByIdSql("tracker_api_keys", id, patch);
+      const [row] = await query<ApiKeyRow>("updateApiKey", `${text} RETURNING *`, values);
+      return row ?? null;
+    },
+
+    async insertAuditLog(entry) {
+      const { text, values } = insertSql("tracker_audit_log", [entry]);
+      await query("insertAuditLog", text, values);
+    },
+
+    async listAuditLog(filter, range, limit) {
+      const values: unknown[] = [];
+      let sql = "SELECT * FROM tracker_audit_log WHERE true";
+      if (filter.apiKeyId !== undefined) {
+        values.push(filter.apiKeyId);
+        sql += ` AND api_key_id = $${values.length}`;
+      }
+      if (filter.imei) {
+        values.push(filter.imei);
+        sql += ` AND imei = $${values.length}`;
+      }
+      if (range.from) {
+        values.push(range.from);
+        sql += ` AND created_at >= $${values.length}`;
+      }
+      if (range.to) {
+        values.push(range.to);
+        sql += ` AND created_at <= $${values.length}`;
+      }
+      values.push(limit);
+      sql += ` ORDER BY id DESC LIMIT $${values.length}`;
+      return query<AuditLogRow>("listAuditLog", sql, values);
+    },
+
+    async listOrganisations() {
+      return query<OrganisationRow>("listOrganisations", "SELECT * FROM tracker_organisations ORDER BY id ASC");
+    },
+
+    async getOrganisation(id) {
+      const [row] = await query<OrganisationRow>("getOrganisation",
+        "SELECT * FROM tracker_organisations WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async createOrganisation(name) {
+      const [row] = await query<OrganisationRow>("createOrganisation",
+        "INSERT INTO tracker_organisations (name) VALUES ($1) RETURNING *", [name]);
+      return row;
+    },
+
+    async updateOrganisation(id, name) {
+      const [row] = await query<OrganisationRow>("updateOrganisation",
+        "UPDATE tracker_organisations SET name = $2 WHERE id = $1 RETURNING *", [id, name]);
+      return row ?? null;
+    },
+
+    async deleteOrganisation(id) {
+      const rows = await query("deleteOrganisation",
+        "DELETE FROM tracker_organisations WHERE id = $1 RETURNING id", [id]);
+      return rows.length > 0;
+    },
+
+    async listGroups(organisationId) {
+      if (organisationId === undefined) {
+        return query<GroupRow>("listGroups", "SELECT * FROM tracker_groups ORDER BY id ASC");
+      }
+      return query<GroupRow>("listGroups",
+        "SELECT * FROM tracker_groups WHERE organisation_id = $1 ORDER BY id ASC", [organisationId]);
+    },
+
+    async getGroup(id) {
+      const [row] = await query<GroupRow>("getGroup", "SELECT * FROM tracker_groups WHERE id = $1", [id]);
+      return row ?? null;
+    },
+
+    async createGroup(input) {
+      const { text, values } = insertSql("tracker_groups", [input]);
+      const [row] = await query<GroupRow>("createGroup", `${text} RETURNING *`, values);
+      return row;
+    },
+
+    async updateGroup(id, patch) {
+      if (Object.keys(patch).length === 0) {
+        const [row] = await query<GroupRow>("updateGroup", "SELECT * FROM tracker_groups WHERE id = $1", [id]);
+        return row ?? null;
+      }
+
+      const { text, values } = updateByIdSql("tracker_groups", id, patch);
+      const [row] = await query<GroupRow>("updateGroup", `${text} RETURNING *`, values);
+      return row ?? null;
+    },
+
+    async deleteGroup(id) {
+      await query("deleteGroup", "DELETE FROM tracker_group_members WHERE group_id = $1", [id]);
+      const rows = await query("deleteGroup", "DELETE FROM tracker_groups WHERE id = $1 RETURNING id", [id]);
+      return rows.length > 0;
+    },
+
+    async listGroupMembers(groupIds) {
+      if (groupIds.length === 0) return [];
+      return query<GroupMemberRow>("listGroupMembers",
+        "SELECT * FROM tracker_group_members WHERE group_id = ANY($1) ORDER BY group_id ASC, imei ASC", [groupIds]);
+    },
+
+    async addGroupMembers(groupId, imeis) {
+      if (imeis.length === 0) return;
+      const { text, values } = insertSql("tracker_group_members", imeis.map((imei) => ({ group_id: groupId, imei })));
+      await query("addGroupMembers", `${text} ON CONFLICT (group_id, imei) DO NOTHING`, values);
+    },
+
+    async removeGroupMember(groupId, imei) {
+      const rows = await query("removeGroupMember",
+        "DELETE FROM tracker_group_members WHERE group_id = $1 AND imei = $2 RETURNING imei", [groupId, imei]);
+      return rows.length > 0;
+    },
+
+    async insertSession(input) {
+      const { text, values } = insertSql("tracker_sessions", [input]);
+      const [row] = await query<{ id: number }>("insertSession", `${text} RETURNING id`, values);
+      return row.id;
+    },
+
+    async updateSession(id, patch) {
+      if (Object.keys(patch).length === 0) return;
+      const { text, values } = updateByIdSql("tracker_sessions", id, patch);
+      await query("updateSession", text, values);
+    },
+
+    async listSessions(imei, range, limit) {
+      const values: unknown[] = [imei];
+      let sql = "SELECT * FROM tracker_sessions WHERE imei = $1";
+      if (range.from) {
+        values.push(range.from);
+        sql += ` AND connected_at >= $${values.length}`;
+      }
+      if (range.to) {
+        values.push(range.to);
+        sql += ` AND connected_at <= $${values.length}`;
+      }
+      sql += " ORDER BY connected_at DESC";
+      if (limit !== null) {
+        values.push(limit);
+        sql += ` LIMIT $${values.length}`;
+      }
+      return query<SessionRow>("listSessions", sql, values);
+    },
+  };
+}
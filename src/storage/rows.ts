@@ -0,0 +1,49 @@
+import { PROMOTED_FIELDS } from "../avlDictionary.js";
+import { extractCodecId, type AvlRecord } from "../teltonika.js";
+import type { RawPacketIntegrity } from "./types.js";
+
+/** Insert payload for tracker_positions, shared by every backend. */
+export function buildPositionRows(imei: string, records: AvlRecord[], rawPacketId: number) {
+  return records.map((r) => {
+    const promoted: Record<string, unknown> = {};
+    for (const { key, column } of PROMOTED_FIELDS) {
+      if (key in r.ioData) promoted[column] = r.ioData[key];
+    }
+
+    return {
+      imei,
+      codec: r.codecId,
+      gps_time: r.timestamp.toISOString(),
+      latitude: r.latitude,
+      longitude: r.longitude,
+      speed: r.speed,
+      angle: r.angle,
+      satellites: r.satellites,
+      altitude: r.altitude,
+      priority: r.priority,
+      raw_packet_id: rawPacketId,
+      event_io_id: r.eventIoId,
+      generation_type: r.generationType,
+      io_data: r.ioData,
+      ...promoted,
+    };
+  });
+}
+
+/** Insert payload for tracker_packets_raw, shared by every backend. */
+export function buildRawPacketRow(
+  imei: string,
+  remoteIp: string | undefined,
+  buf: Buffer,
+  integrity: RawPacketIntegrity = { crcValid: true, parseError: null }
+) {
+  return {
+    imei,
+    remote_ip: remoteIp ?? null,
+    packet_hex: buf.toString("hex"),
+    packet_len: buf.length,
+    codec: extractCodecId(buf),
+    crc_valid: integrity.crcValid,
+    parse_error: integrity.parseError,
+  };
+}
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createSupabaseStorage } from "./supabase.js";
+
+// PostgREST's default max-rows: no response is longer, whatever the limit
+const MAX_ROWS = 1000;
+
+type Row = { id: number; imei: string; gps_time: string; external_voltage_v: number };
+
+/**
+ * Stands in for PostgREST: answers tracker_positions selects ordered by
+ * (gps_time, id), honouring limit and the keyset `or` filter, capped at
+ * MAX_ROWS per response.
+ */
+function fakePostgrest(rows: Row[]): typeof fetch {
+  return async (input) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const limit = Number(url.searchParams.get("limit") ?? Infinity);
+
+    let result = rows.filter((r) => url.searchParams.get("imei") === `eq.${r.imei}`);
+    const after = url.searchParams.get("or")?.match(/^\(gps_time\.gt\."([^"]+)",and\(gps_time\.eq\."[^"]+",id\.gt\.(\d+)\)\)$/);
+    if (after) {
+      const [, time, id] = after;
+      result = result.filter((r) => r.gps_time > time || (r.gps_time === time && r.id > Number(id)));
+    }
+    result = result.slice(0, Math.min(limit, MAX_ROWS));
+
+    return new Response(JSON.stringify(result), { status: 200, headers: { "Content-Type": "application/json" } });
+  };
+}
+
+function positions(count: number): Row[] {
+  const start = Date.parse("2025-01-01T00:00:00Z");
+  return Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    imei: "356307046452013",
+    // Pairs of records share a timestamp, so paging has to break ties on id
+    gps_time: new Date(start + Math.floor(i / 2) * 1000).toISOString(),
+    external_voltage_v: 12 + (i % 10) / 10,
+  }));
+}
+
+test("trackPages reads past PostgREST's row cap", async (t) => {
+  const rows = positions(2500);
+  t.mock.method(globalThis, "fetch", fakePostgrest(rows));
+  const storage = createSupabaseStorage("http://supabase.test", "service-key");
+
+  const seen: number[] = [];
+  for await (const page of storage.trackPages("356307046452013", {}, 2000)) {
+    seen.push(...page.map((p) => p.id));
+  }
+
+  assert.deepEqual(seen, rows.map((r) => r.id));
+});
+
+test("sensorPages reads past PostgREST's row cap", async (t) => {
+  const rows = positions(2500);
+  t.mock.method(globalThis, "fetch", fakePostgrest(rows));
+  const storage = createSupabaseStorage("http://supabase.test", "service-key");
+
+  let count = 0;
+  for await (const page of storage.sensorPages("356307046452013", { column: "external_voltage_v" }, {}, 5000)) {
+    count += page.length;
+  }
+
+  assert.equal(count, rows.length);
+});
@@ -0,0 +1,966 @@
+import { createClient } from "@supabase/supabase-js";
+import type { IoData } from "../teltonika.js";
+import { buildPositionRows, buildRawPacketRow } from "./rows.js";
+import type {
+  CommandRow, DeviceRow, GeofenceEventRow, GeofenceRow, GeofenceStateRow, PositionRow, RawPacketRow,
+  SensorPoint, Storage, TripRow, AlertRuleRow, AlertRow,
+  WebhookRow, WebhookDeliveryRow, ApiKeyRow, AuditLogRow, OrganisationRow, GroupRow, GroupMemberRow,
+  SessionRow, TimeRange,
+} from "./types.js";
+
+// A sensorPages row: `value` for a promoted column, io_data otherwise
+type SensorPageRow = { gps_time: string; value?: unknown; io_data?: IoData | null };
+
+const DEVICE_COLUMNS =
+  "imei, label, status, approval_status, model, organisation_id, last_seen_at, last_data_at, report_interval_s, created_at";
+
+export function createSupabaseStorage(url: string, serviceKey: string): Storage {
+  const supabase = createClient(url, serviceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  /**
+   * A device's positions in `range`, oldest first, with keyset pagination on
+   * (gps_time, id). Only an empty page ends the scan: PostgREST caps every
+   * response (1000 rows by default), so a page may come back shorter than
+   * `pageSize` with more rows behind it.
+   */
+  async function* positionPages(
+    fn: string, columns: string, imei: string, range: TimeRange, pageSize: number
+  ): AsyncIterable<Record<string, unknown>[]> {
+    let after: { gps_time: string; id: number } | null = null;
+    for (;;) {
+      let query = supabase
+        .from("tracker_positions")
+        .select(columns)
+        .eq("imei", imei)
+        .order("gps_time", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(pageSize);
+
+      if (range.from) query = query.gte("gps_time", range.from);
+      if (range.to)   query = query.lte("gps_time", range.to);
+      if (after) {
+        query = query.or(
+          `gps_time.gt."${after.gps_time}",and(gps_time.eq."${after.gps_time}",id.gt.${after.id})`
+        );
+      }
+
+      const { data, error } = await query;
+      if (error) throw new Error(`${fn}: ${error.message}`);
+      const rows = (data ?? []) as unknown as Record<string, unknown>[];
+      if (rows.length === 0) return;
+
+      yield rows;
+      const last = rows[rows.length - 1];
+      after = { gps_time: last.gps_time as string, id: last.id as number };
+    }
+  }
+
+  return {
+    async upsertDevice(imei, approval = "approved") {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .upsert({ imei, approval_status: approval }, { onConflict: "imei", ignoreDuplicates: true });
+
+      if (error) throw new Error(`upsertDevice: ${error.message}`);
+    },
+
+    async updateDeviceStatus(imei, status, seen = true) {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .update(seen ? { status, last_seen_at: new Date().toISOString() } : { status })
+        .eq("imei", imei);
+
+      if (error) throw new Error(`updateDeviceStatus: ${error.message}`);
+    },
+
+    async updateDeviceLastData(imei, receivedAt) {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .update({ last_data_at: receivedAt })
+        .eq("imei", imei)
+        .or(`last_data_at.is.null,last_data_at.lt."${receivedAt}"`);
+
+      if (error) throw new Error(`updateDeviceLastData: ${error.message}`);
+    },
+
+    async saveRawPacket(imei, remoteIp, buf, integrity) {
+      const { data, error } = await supabase
+        .from("tracker_packets_raw")
+        .insert(buildRawPacketRow(imei, remoteIp, buf, integrity))
+        .select("id")
+        .single();
+
+      if (error) throw new Error(`saveRawPacket: ${error.message}`);
+      return data.id as number;
+    },
+
+    async deletePositionsForRaw(rawPacketId) {
+      const { error } = await supabase
+        .from("tracker_positions")
+        .delete()
+        .eq("raw_packet_id", rawPacketId);
+      if (error) throw new Error(`deletePositionsForRaw: ${error.message}`);
+    },
+
+    async savePositions(imei, records, rawPacketId) {
+      if (records.length === 0) return;
+
+      const rows = buildPositionRows(imei, records, rawPacketId);
+      const { error: posError } = await supabase.from("tracker_positions").insert(rows);
+      if (posError) throw new Error(`savePositions: ${posError.message}`);
+
+      // Mark the raw packet as successfully parsed
+      const { error: markError } = await supabase
+        .from("tracker_packets_raw")
+        .update({ parsed: true })
+        .eq("id", rawPacketId);
+
+      if (markError) throw new Error(`markParsed: ${markError.message}`);
+    },
+
+    async listRawPackets({ onlyUnparsed }) {
+      let query = supabase
+        .from("tracker_packets_raw")
+        .select("id, imei, packet_hex")
+        .order("id", { ascending: true });
+
+      if (onlyUnparsed) query = query.eq("parsed", false);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listRawPackets: ${error.message}`);
+      return (data ?? []) as RawPacketRow[];
+    },
+
+    async listDevices() {
+      const { data, error } = await supabase
+        .from("tracker_devices")
+        .select(DEVICE_COLUMNS)
+        .order("last_seen_at", { ascending: false });
+
+      if (error) throw new Error(`listDevices: ${error.message}`);
+      return (data ?? []) as DeviceRow[];
+    },
+
+    async getDevice(imei) {
+      const { data, error } = await supabase
+        .from("tracker_devices")
+        .select(DEVICE_COLUMNS)
+        .eq("imei", imei)
+        .maybeSingle();
+
+      if (error) throw new Error(`getDevice: ${error.message}`);
+      return (data as DeviceRow | null) ?? null;
+    },
+
+    async updateDeviceLabel(imei, label) {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .update({ label })
+        .eq("imei", imei);
+
+      if (error) throw new Error(`updateDeviceLabel: ${error.message}`);
+    },
+
+    async updateDeviceModel(imei, model) {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .update({ model })
+        .eq("imei", imei);
+
+      if (error) throw new Error(`updateDeviceModel: ${error.message}`);
+    },
+
+    async updateDeviceReportInterval(imei, seconds) {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .update({ report_interval_s: seconds })
+        .eq("imei", imei);
+
+      if (error) throw new Error(`updateDeviceReportInterval: ${error.message}`);
+    },
+
+    async setDeviceOrganisation(imei, organisationId) {
+      const { error: membersError } = await supabase
+        .from("tracker_group_members")
+        .delete()
+        .eq("imei", imei);
+      if (membersError) throw new Error(`setDeviceOrganisation: ${membersError.message}`);
+
+      const { error } = await supabase
+        .from("tracker_devices")
+        .update({ organisation_id: organisationId })
+        .eq("imei", imei);
+
+      if (error) throw new Error(`setDeviceOrganisation: ${error.message}`);
+    },
+
+    async setDeviceApproval(imei, approval) {
+      const { error } = await supabase
+        .from("tracker_devices")
+        .upsert({ imei, approval_status: approval }, { onConflict: "imei" });
+
+      if (error) throw new Error(`setDeviceApproval: ${error.message}`);
+    },
+
+    async latestPosition(imei) {
+      const { data, error } = await supabase
+        .from("tracker_positions")
+        .select("*")
+        .eq("imei", imei)
+        .order("gps_time", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw new Error(`latestPosition: ${error.message}`);
+      return (data as PositionRow | null) ?? null;
+    },
+
+    async listPositions(imei, range, limit) {
+      let query = supabase
+        .from("tracker_positions")
+        .select("*")
+        .eq("imei", imei)
+        .order("gps_time", { ascending: false });
+
+      if (limit !== null) query = query.limit(limit);
+      if (range.from) query = query.gte("gps_time", range.from);
+      if (range.to) query = query.lte("gps_time", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listPositions: ${error.message}`);
+      return (data ?? []) as PositionRow[];
+    },
+
+    async sensorSeries(imei, source, range, limit) {
+      const selector = "column" in source ? `gps_time, value:${source.column}` : "gps_time, io_data";
+
+      let query = supabase
+        .from("tracker_positions")
+        .select(selector)
+        .eq("imei", imei)
+        .order("gps_time", { ascending: false })
+        .limit(limit);
+
+      if (range.from) query = query.gte("gps_time", range.from);
+      if (range.to)   query = query.lte("gps_time", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`sensorSeries: ${error.message}`);
+
+      if ("column" in source) return (data ?? []) as unknown as SensorPoint[];
+
+      return (data ?? [])
+        .map((row: any) => ({
+          gps_time: row.gps_time as string,
+          value: row.io_data?.[source.ioKey] ?? null,
+        }))
+        .filter((row) => row.value !== null);
+    },
+
+    async *sensorPages(imei, source, range, pageSize) {
+      const selector = "column" in source ? `id, gps_time, value:${source.column}` : "id, gps_time, io_data";
+
+      for await (const rows of positionPages("sensorPages", selector, imei, range, pageSize)) {
+        yield (rows as SensorPageRow[])
+          .map((row) => ({
+            gps_time: row.gps_time,
+            value: "column" in source ? row.value : row.io_data?.[source.ioKey] ?? null,
+          }))
+          .filter((row) => "column" in source || row.value !== null);
+      }
+    },
+
+    async *trackPages(imei, range, pageSize) {
+      for await (const rows of positionPages("trackPages", "*", imei, range, pageSize)) yield rows as PositionRow[];
+    },
+
+    async recentIoData(imei, limit) {
+      const { data, error } = await supabase
+        .from("tracker_positions")
+        .select("io_data")
+        .eq("imei", imei)
+        .order("gps_time", { ascending: false })
+        .limit(limit);
+
+      if (error) throw new Error(`recentIoData: ${error.message}`);
+      return (data ?? [])
+        .map((row) => (row as { io_data: IoData | null }).io_data)
+        .filter((io): io is IoData => io !== null);
+    },
+
+    async insertCommand(imei, command) {
+      const { data, error } = await supabase
+        .from("tracker_commands")
+        .insert({ imei, command, status: "queued" })
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`insertCommand: ${error.message}`);
+      return data as CommandRow;
+    },
+
+    async nextQueuedCommand(imei) {
+      const { data, error } = await supabase
+        .from("tracker_commands")
+        .select("*")
+        .eq("imei", imei)
+        .eq("status", "queued")
+        .order("id", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw new Error(`nextQueuedCommand: ${error.message}`);
+      return (data as CommandRow | null) ?? null;
+    },
+
+    async updateCommand(id, patch) {
+      const { error } = await supabase
+        .from("tracker_commands")
+        .update(patch)
+        .eq("id", id);
+
+      if (error) throw new Error(`updateCommand: ${error.message}`);
+    },
+
+    async listCommands(imei, { status, limit }) {
+      let query = supabase
+        .from("tracker_commands")
+        .select("*")
+        .eq("imei", imei)
+        .order("id", { ascending: false })
+        .limit(limit);
+
+      if (status) query = query.eq("status", status);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listCommands: ${error.message}`);
+      return (data ?? []) as CommandRow[];
+    },
+
+    async listGeofences() {
+      const { data, error } = await supabase
+        .from("tracker_geofences")
+        .select("*")
+        .order("id", { ascending: true });
+
+      if (error) throw new Error(`listGeofences: ${error.message}`);
+      return (data ?? []) as GeofenceRow[];
+    },
+
+    async getGeofence(id) {
+      const { data, error } = await supabase
+        .from("tracker_geofences")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getGeofence: ${error.message}`);
+      return (data as GeofenceRow | null) ?? null;
+    },
+
+    async createGeofence(input) {
+      const { data, error } = await supabase
+        .from("tracker_geofences")
+        .insert(input)
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`createGeofence: ${error.message}`);
+      return data as GeofenceRow;
+    },
+
+    async updateGeofence(id, patch) {
+      const { data, error } = await supabase
+        .from("tracker_geofences")
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateGeofence: ${error.message}`);
+      return (data as GeofenceRow | null) ?? null;
+    },
+
+    async deleteGeofence(id) {
+      for (const table of ["tracker_geofence_events", "tracker_geofence_state"]) {
+        const { error } = await supabase.from(table).delete().eq("geofence_id", id);
+        if (error) throw new Error(`deleteGeofence: ${error.message}`);
+      }
+
+      const { data, error } = await supabase
+        .from("tracker_geofences")
+        .delete()
+        .eq("id", id)
+        .select("id");
+
+      if (error) throw new Error(`deleteGeofence: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    async insertGeofenceEvents(events) {
+      if (events.length === 0) return;
+      const { error } = await supabase.from("tracker_geofence_events").insert(events);
+      if (error) throw new Error(`insertGeofenceEvents: ${error.message}`);
+    },
+
+    async listGeofenceEvents(filter, range, limit) {
+      let query = supabase
+        .from("tracker_geofence_events")
+        .select("*")
+        .order("gps_time", { ascending: false })
+        .limit(limit);
+
+      if (filter.imei) query = query.eq("imei", filter.imei);
+      if (filter.imeis) query = query.in("imei", filter.imeis);
+      if (filter.geofenceId !== undefined) query = query.eq("geofence_id", filter.geofenceId);
+      if (range.from) query = query.gte("gps_time", range.from);
+      if (range.to)   query = query.lte("gps_time", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listGeofenceEvents: ${error.message}`);
+      return (data ?? []) as GeofenceEventRow[];
+    },
+
+    async loadGeofenceStates(imei) {
+      const { data, error } = await supabase
+        .from("tracker_geofence_state")
+        .select("*")
+        .eq("imei", imei);
+
+      if (error) throw new Error(`loadGeofenceStates: ${error.message}`);
+      return (data ?? []) as GeofenceStateRow[];
+    },
+
+    async saveGeofenceStates(states) {
+      if (states.length === 0) return;
+      const { error } = await supabase
+        .from("tracker_geofence_state")
+        .upsert(states, { onConflict: "imei,geofence_id" });
+
+      if (error) throw new Error(`saveGeofenceStates: ${error.message}`);
+    },
+
+    async listTrips(imei, range, limit) {
+      let query = supabase
+        .from("tracker_trips")
+        .select("*")
+        .eq("imei", imei)
+        .order("start_time", { ascending: false })
+        .limit(limit);
+
+      if (range.from) query = query.gte("start_time", range.from);
+      if (range.to)   query = query.lte("start_time", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listTrips: ${error.message}`);
+      return (data ?? []) as TripRow[];
+    },
+
+    async getTrip(id) {
+      const { data, error } = await supabase
+        .from("tracker_trips")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getTrip: ${error.message}`);
+      return (data as TripRow | null) ?? null;
+    },
+
+    async upsertTrips(trips) {
+      if (trips.length === 0) return;
+      const updated_at = new Date().toISOString();
+      const { error } = await supabase
+        .from("tracker_trips")
+        .upsert(trips.map((t) => ({ ...t, updated_at })), { onConflict: "imei,start_time" });
+
+      if (error) throw new Error(`upsertTrips: ${error.message}`);
+    },
+
+    async deleteTripsSince(imei, from) {
+      let query = supabase.from("tracker_trips").delete().eq("imei", imei);
+      if (from) query = query.gte("start_time", from);
+
+      const { error } = await query;
+      if (error) throw new Error(`deleteTripsSince: ${error.message}`);
+    },
+
+    async listAlertRules() {
+      const { data, error } = await supabase
+        .from("tracker_alert_rules")
+        .select("*")
+        .order("id", { ascending: true });
+
+      if (error) throw new Error(`listAlertRules: ${error.message}`);
+      return (data ?? []) as AlertRuleRow[];
+    },
+
+    async getAlertRule(id) {
+      const { data, error } = await supabase
+        .from("tracker_alert_rules")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getAlertRule: ${error.message}`);
+      return (data as AlertRuleRow | null) ?? null;
+    },
+
+    async createAlertRule(input) {
+      const { data, error } = await supabase
+        .from("tracker_alert_rules")
+        .insert(input)
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`createAlertRule: ${error.message}`);
+      return data as AlertRuleRow;
+    },
+
+    async updateAlertRule(id, patch) {
+      const { data, error } = await supabase
+        .from("tracker_alert_rules")
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateAlertRule: ${error.message}`);
+      return (data as AlertRuleRow | null) ?? null;
+    },
+
+    async deleteAlertRule(id) {
+      const { error: alertsError } = await supabase.from("tracker_alerts").delete().eq("rule_id", id);
+      if (alertsError) throw new Error(`deleteAlertRule: ${alertsError.message}`);
+
+      const { data, error } = await supabase
+        .from("tracker_alert_rules")
+        .delete()
+        .eq("id", id)
+        .select("id");
+
+      if (error) throw new Error(`deleteAlertRule: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    async insertAlert(input) {
+      const { data, error } = await supabase
+        .from("tracker_alerts")
+        .insert(input)
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`insertAlert: ${error.message}`);
+      return data as AlertRow;
+    },
+
+    async getAlert(id) {
+      const { data, error } = await supabase
+        .from("tracker_alerts")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getAlert: ${error.message}`);
+      return (data as AlertRow | null) ?? null;
+    },
+
+    async updateAlert(id, patch) {
+      const { data, error } = await supabase
+        .from("tracker_alerts")
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateAlert: ${error.message}`);
+      return (data as AlertRow | null) ?? null;
+    },
+
+    async listAlerts(filter, range, limit) {
+      let query = supabase
+        .from("tracker_alerts")
+        .select("*")
+        .order("opened_at", { ascending: false })
+        .limit(limit);
+
+      if (filter.imei) query = query.eq("imei", filter.imei);
+      if (filter.imeis) query = query.in("imei", filter.imeis);
+      if (filter.ruleId !== undefined) query = query.eq("rule_id", filter.ruleId);
+      if (filter.statuses) query = query.in("status", filter.statuses);
+      if (range.from) query = query.gte("opened_at", range.from);
+      if (range.to)   query = query.lte("opened_at", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listAlerts: ${error.message}`);
+      return (data ?? []) as AlertRow[];
+    },
+
+    async listWebhooks() {
+      const { data, error } = await supabase
+        .from("tracker_webhooks")
+        .select("*")
+        .order("id", { ascending: true });
+
+      if (error) throw new Error(`listWebhooks: ${error.message}`);
+      return (data ?? []) as WebhookRow[];
+    },
+
+    async getWebhook(id) {
+      const { data, error } = await supabase
+        .from("tracker_webhooks")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getWebhook: ${error.message}`);
+      return (data as WebhookRow | null) ?? null;
+    },
+
+    async createWebhook(input) {
+      const { data, error } = await supabase
+        .from("tracker_webhooks")
+        .insert(input)
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`createWebhook: ${error.message}`);
+      return data as WebhookRow;
+    },
+
+    async updateWebhook(id, patch) {
+      const { data, error } = await supabase
+        .from("tracker_webhooks")
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateWebhook: ${error.message}`);
+      return (data as WebhookRow | null) ?? null;
+    },
+
+    async deleteWebhook(id) {
+      const { error: deliveriesError } = await supabase
+        .from("tracker_webhook_deliveries")
+        .delete()
+        .eq("webhook_id", id);
+      if (deliveriesError) throw new Error(`deleteWebhook: ${deliveriesError.message}`);
+
+      const { data, error } = await supabase
+        .from("tracker_webhooks")
+        .delete()
+        .eq("id", id)
+        .select("id");
+
+      if (error) throw new Error(`deleteWebhook: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    async insertWebhookDeliveries(deliveries) {
+      if (deliveries.length === 0) return;
+      const next_attempt_at = new Date().toISOString();
+      const { error } = await supabase
+        .from("tracker_webhook_deliveries")
+        .insert(deliveries.map((d) => ({ ...d, status: "pending", attempts: 0, next_attempt_at })));
+
+      if (error) throw new Error(`insertWebhookDeliveries: ${error.message}`);
+    },
+
+    async dueWebhookDeliveries(now, limit) {
+      const { data, error } = await supabase
+        .from("tracker_webhook_deliveries")
+        .select("*")
+        .eq("status", "pending")
+        .lte("next_attempt_at", now)
+        .order("id", { ascending: true })
+        .limit(limit);
+
+      if (error) throw new Error(`dueWebhookDeliveries: ${error.message}`);
+      return (data ?? []) as WebhookDeliveryRow[];
+    },
+
+    async updateWebhookDelivery(id, patch) {
+      const { error } = await supabase
+        .from("tracker_webhook_deliveries")
+        .update(patch)
+        .eq("id", id);
+
+      if (error) throw new Error(`updateWebhookDelivery: ${error.message}`);
+    },
+
+    async listWebhookDeliveries(filter, limit) {
+      let query = supabase
+        .from("tracker_webhook_deliveries")
+        .select("*")
+        .order("id", { ascending: false })
+        .limit(limit);
+
+      if (filter.webhookId !== undefined) query = query.eq("webhook_id", filter.webhookId);
+      if (filter.status) query = query.eq("status", filter.status);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listWebhookDeliveries: ${error.message}`);
+      return (data ?? []) as WebhookDeliveryRow[];
+    },
+
+    async listApiKeys() {
+      const { data, error } = await supabase
+        .from("tracker_api_keys")
+        .select("*")
+        .order("id", { ascending: true });
+
+      if (error) throw new Error(`listApiKeys: ${error.message}`);
+      return (data ?? []) as ApiKeyRow[];
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const { data, error } = await supabase
+        .from("tracker_api_keys")
+        .select("*")
+        .eq("key_hash", keyHash)
+        .maybeSingle();
+
+      if (error) throw new Error(`getApiKeyByHash: ${error.message}`);
+      return (data as ApiKeyRow | null) ?? null;
+    },
+
+    async createApiKey(input) {
+      const { data, error } = await supabase
+        .from("tracker_api_keys")
+        .insert(input)
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`createApiKey: ${error.message}`);
+      return data as ApiKeyRow;
+    },
+
+    async updateApiKey(id, patch) {
+      const { data, error } = await supabase
+        .from("tracker_api_keys")
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateApiKey: ${error.message}`);
+      return (data as ApiKeyRow | null) ?? null;
+    },
+
+    async insertAuditLog(entry) {
+      const { error } = await supabase.from("tracker_audit_log").insert(entry);
+      if (error) throw new Error(`insertAuditLog: ${error.message}`);
+    },
+
+    async listAuditLog(filter, range, limit) {
+      let query = supabase
+        .from("tracker_audit_log")
+        .select("*")
+        .order("id", { ascending: false })
+        .limit(limit);
+
+      if (filter.apiKeyId !== undefined) query = query.eq("api_key_id", filter.apiKeyId);
+      if (filter.imei) query = query.eq("imei", filter.imei);
+      if (range.from) query = query.gte("created_at", range.from);
+      if (range.to) query = query.lte("created_at", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listAuditLog: ${error.message}`);
+      return (data ?? []) as AuditLogRow[];
+    },
+
+    async listOrganisations() {
+      const { data, error } = await supabase
+        .from("tracker_organisations")
+        .select("*")
+        .order("id", { ascending: true });
+
+      if (error) throw new Error(`listOrganisations: ${error.message}`);
+      return (data ?? []) as OrganisationRow[];
+    },
+
+    async getOrganisation(id) {
+      const { data, error } = await supabase
+        .from("tracker_organisations")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getOrganisation: ${error.message}`);
+      return (data as OrganisationRow | null) ?? null;
+    },
+
+    async createOrganisation(name) {
+      const { data, error } = await supabase
+        .from("tracker_organisations")
+        .insert({ name })
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`createOrganisation: ${error.message}`);
+      return data as OrganisationRow;
+    },
+
+    async updateOrganisation(id, name) {
+      const { data, error } = await supabase
+        .from("tracker_organisations")
+        .update({ name })
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateOrganisation: ${error.message}`);
+      return (data as OrganisationRow | null) ?? null;
+    },
+
+    async deleteOrganisation(id) {
+      const { data, error } = await supabase
+        .from("tracker_organisations")
+        .delete()
+        .eq("id", id)
+        .select("id");
+
+      if (error) throw new Error(`deleteOrganisation: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    async listGroups(organisationId) {
+      let query = supabase.from("tracker_groups").select("*");
+      if (organisationId !== undefined) query = query.eq("organisation_id", organisationId);
+
+      const { data, error } = await query.order("id", { ascending: true });
+      if (error) throw new Error(`listGroups: ${error.message}`);
+      return (data ?? []) as GroupRow[];
+    },
+
+    async getGroup(id) {
+      const { data, error } = await supabase
+        .from("tracker_groups")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(`getGroup: ${error.message}`);
+      return (data as GroupRow | null) ?? null;
+    },
+
+    async createGroup(input) {
+      const { data, error } = await supabase
+        .from("tracker_groups")
+        .insert(input)
+        .select("*")
+        .single();
+
+      if (error) throw new Error(`createGroup: ${error.message}`);
+      return data as GroupRow;
+    },
+
+    async updateGroup(id, patch) {
+      const { data, error } = await supabase
+        .from("tracker_groups")
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw new Error(`updateGroup: ${error.message}`);
+      return (data as GroupRow | null) ?? null;
+    },
+
+    async deleteGroup(id) {
+      const { error: membersError } = await supabase
+        .from("tracker_group_members")
+        .delete()
+        .eq("group_id", id);
+      if (membersError) throw new Error(`deleteGroup: ${membersError.message}`);
+
+      const { data, error } = await supabase
+        .from("tracker_groups")
+        .delete()
+        .eq("id", id)
+        .select("id");
+
+      if (error) throw new Error(`deleteGroup: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    async listGroupMembers(groupIds) {
+      if (groupIds.length === 0) return [];
+      const { data, error } = await supabase
+        .from("tracker_group_members")
+        .select("*")
+        .in("group_id", groupIds)
+        .order("group_id", { ascending: true })
+        .order("imei", { ascending: true });
+
+      if (error) throw new Error(`listGroupMembers: ${error.message}`);
+      return (data ?? []) as GroupMemberRow[];
+    },
+
+    async addGroupMembers(groupId, imeis) {
+      if (imeis.length === 0) return;
+      const { error } = await supabase
+        .from("tracker_group_members")
+        .upsert(imeis.map((imei) => ({ group_id: groupId, imei })), {
+          onConflict: "group_id,imei",
+          ignoreDuplicates: true,
+        });
+
+      if (error) throw new Error(`addGroupMembers: ${error.message}`);
+    },
+
+    async removeGroupMember(groupId, imei) {
+      const { data, error } = await supabase
+        .from("tracker_group_members")
+        .delete()
+        .eq("group_id", groupId)
+        .eq("imei", imei)
+        .select("imei");
+
+      if (error) throw new Error(`removeGroupMember: ${error.message}`);
+      return (data ?? []).length > 0;
+    },
+
+    async insertSession(input) {
+      const { data, error } = await supabase
+        .from("tracker_sessions")
+        .insert(input)
+        .select("id")
+        .single();
+
+      if (error) throw new Error(`insertSession: ${error.message}`);
+      return (data as { id: number }).id;
+    },
+
+    async updateSession(id, patch) {
+      const { error } = await supabase
+        .from("tracker_sessions")
+        .update(patch)
+        .eq("id", id);
+
+      if (error) throw new Error(`updateSession: ${error.message}`);
+    },
+
+    async listSessions(imei, range, limit) {
+      let query = supabase
+        .from("tracker_sessions")
+        .select("*")
+        .eq("imei", imei)
+        .order("connected_at", { ascending: false });
+
+      if (limit !== null) query = query.limit(limit);
+      if (range.from) query = query.gte("connected_at", range.from);
+      if (range.to) query = query.lte("connected_at", range.to);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`listSessions: ${error.message}`);
+      return (data ?? []) as SessionRow[];
+    },
+  };
+}
@@ -0,0 +1,559 @@
+/**
+ * Storage interface shared by every backend (Supabase, plain Postgres,
+ * in-memory). Row shapes mirror the database tables (migrations/) column for
+ * column so the HTTP API returns the same JSON regardless of backend.
+ *
+ * Implementations are plain objects built by factory functions; methods must
+ * not rely on `this`, because db.ts re-exports them as standalone functions.
+ *
+ * Tables:
+ *   tracker_devices      — one row per IMEI
+ *   tracker_packets_raw  — every AVL packet as received (hex)
+ *   tracker_positions    — one row per parsed AVL record
+ *   tracker_commands     — Codec 12 command queue / history
+ *   tracker_geofences         — named circles / polygons
+ *   tracker_geofence_events   — enter / exit / dwell transitions
+ *   tracker_geofence_state    — per device × fence inside/outside state
+ *   tracker_trips        — trips segmented from positions (see trips.ts)
+ *   tracker_alert_rules  — user-defined thresholds on record fields
+ *   tracker_alerts       — rule matches, open → acknowledged → resolved
+ *   tracker_webhooks            — outbound webhook subscriptions
+ *   tracker_webhook_deliveries  — delivery queue and log (see webhooks.ts)
+ *   tracker_api_keys     — hashed API keys with scopes (see auth.ts)
+ *   tracker_organisations — customers; each device belongs to at most one
+ *   tracker_groups        — nested device groups within an organisation
+ *   tracker_group_members — device × group membership
+ *   tracker_audit_log    — write requests made through the API
+ *   tracker_sessions     — TCP connection history (see sessionHistory.ts)
+ */
+
+import type { AvlRecord, IoData } from "../teltonika.js";
+
+/**
+ * Derived by the watchdog (see watchdog.ts) from how long ago the device last
+ * sent anything, measured against its reporting interval.
+ */
+export type DeviceStatus = "online" | "stale" | "sleeping" | "offline";
+
+/**
+ * Whether a device may connect (see handshake.ts). "pending" rows are created
+ * by the auto-provision policy and wait for an operator to approve them.
+ */
+export type ApprovalStatus = "approved" | "pending" | "blocked";
+
+export type DeviceRow = {
+  imei: string;
+  label: string | null;
+  status: DeviceStatus | null;
+  approval_status: ApprovalStatus;
+  /** AVL dictionary the device's packets are parsed with; null = AVL_DEFAULT_MODEL. */
+  model: string | null;
+  /** Owning customer; null until assigned (visible to platform keys only). */
+  organisation_id: number | null;
+  /** Last handshake or UDP datagram. */
+  last_seen_at: string | null;
+  /** Receive time of the newest AVL packet stored for the device. */
+  last_data_at: string | null;
+  /** Expected seconds between reports; null = DEVICE_REPORT_INTERVAL_S. */
+  report_interval_s: number | null;
+  created_at: string;
+};
+
+export type PositionRow = {
+  id: number;
+  imei: string;
+  codec: number | null;
+  gps_time: string;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  angle: number;
+  satellites: number;
+  altitude: number;
+  priority: number;
+  raw_packet_id: number;
+  event_io_id: number;
+  generation_type: number | null;
+  io_data: IoData;
+  // Promoted IO columns (see PROMOTED_FIELDS)
+  [column: string]: unknown;
+};
+
+export type RawPacketRow = {
+  id: number;
+  imei: string;
+  packet_hex: string;
+};
+
+/**
+ * Integrity outcome stored alongside a raw packet. Corrupted packets are kept
+ * (crc_valid = false / parse_error set) so link problems can be diagnosed,
+ * but they are never parsed into positions.
+ */
+export type RawPacketIntegrity = {
+  crcValid: boolean;
+  parseError: string | null;
+};
+
+export type CommandStatus = "queued" | "sent" | "answered" | "timed_out";
+
+export type CommandRow = {
+  id: number;
+  imei: string;
+  command: string;
+  status: CommandStatus;
+  response: string | null;
+  created_at: string;
+  sent_at: string | null;
+  answered_at: string | null;
+};
+
+export type CommandPatch = Partial<Pick<CommandRow, "status" | "response" | "sent_at" | "answered_at">>;
+
+export type GeofenceKind = "circle" | "polygon";
+
+export type GeofenceRow = {
+  id: number;
+  name: string;
+  kind: GeofenceKind;
+  /** Circle centre; null for polygons. */
+  latitude: number | null;
+  longitude: number | null;
+  radius_m: number | null;
+  /** Polygon vertices; null for circles. */
+  polygon: Array<{ latitude: number; longitude: number }> | null;
+  /** Emit a "dwell" event after this many seconds inside; null disables it. */
+  dwell_s: number | null;
+  /** Devices the fence applies to; null means the whole fleet. */
+  imeis: string[] | null;
+  created_at: string;
+};
+
+export type GeofenceInput = Omit<GeofenceRow, "id" | "created_at">;
+
+export type GeofenceEventType = "enter" | "exit" | "dwell";
+
+export type GeofenceEventRow = {
+  id: number;
+  geofence_id: number;
+  imei: string;
+  event: GeofenceEventType;
+  gps_time: string;
+  latitude: number;
+  longitude: number;
+  created_at: string;
+};
+
+export type GeofenceEventInput = Omit<GeofenceEventRow, "id" | "created_at">;
+
+export type GeofenceStateRow = {
+  imei: string;
+  geofence_id: number;
+  inside: boolean;
+  /** gps_time of the last transition. */
+  since: string;
+  /** gps_time of the last position evaluated against this fence. */
+  last_gps_time: string;
+  dwell_reported: boolean;
+};
+
+export type TripStatus = "open" | "closed";
+
+export type TripRow = {
+  id: number;
+  imei: string;
+  /** "open" while the trip may still be extended by incoming data. */
+  status: TripStatus;
+  start_time: string;
+  end_time: string;
+  start_latitude: number;
+  start_longitude: number;
+  end_latitude: number;
+  end_longitude: number;
+  distance_m: number;
+  max_speed_kmh: number;
+  avg_speed_kmh: number;
+  duration_s: number;
+  idle_s: number;
+  point_count: number;
+  updated_at: string;
+};
+
+export type TripInput = Omit<TripRow, "id" | "updated_at">;
+
+/** lt/lte/gt/gte/eq/neq against a numeric threshold (booleans compare as 0 / 1). */
+export type AlertOperator = "lt" | "lte" | "gt" | "gte" | "eq" | "neq";
+
+export type AlertRuleRow = {
+  id: number;
+  name: string;
+  /** Record field (speed, altitude, …), AVL dictionary name or promoted column. */
+  field: string;
+  operator: AlertOperator;
+  threshold: number;
+  /** The condition must hold this long before an alert opens; 0 opens at once. */
+  duration_s: number;
+  /** How far the value must move back past the threshold to resolve the alert. */
+  hysteresis: number;
+  /** Minimum time between a resolved alert and the next one for the same device. */
+  cooldown_s: number;
+  /** Devices the rule applies to; null means the whole fleet. */
+  imeis: string[] | null;
+  enabled: boolean;
+  created_at: string;
+};
+
+export type AlertRuleInput = Omit<AlertRuleRow, "id" | "created_at">;
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+export type AlertRow = {
+  id: number;
+  rule_id: number;
+  imei: string;
+  status: AlertStatus;
+  /** Value of the rule's field on the record that opened the alert. */
+  value: number;
+  /** gps_time of the record that opened the alert. */
+  opened_at: string;
+  latitude: number;
+  longitude: number;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+};
+
+export type AlertInput = Omit<AlertRow, "id" | "created_at">;
+
+export type AlertPatch = Partial<Pick<AlertRow, "status" | "acknowledged_at" | "resolved_at">>;
+
+/**
+ * position — every batch of stored positions
+ * status   — device online / offline transitions
+ * io_event — records whose event IO id is in the subscription's event_io_ids
+ */
+export type WebhookEvent = "position" | "status" | "io_event";
+
+export type WebhookRow = {
+  id: number;
+  url: string;
+  /** HMAC-SHA256 key for the X-Webhook-Signature header. */
+  secret: string;
+  events: WebhookEvent[];
+  /** Event IO ids that trigger "io_event"; null matches none. */
+  event_io_ids: number[] | null;
+  /** Devices the subscription applies to; null means the whole fleet. */
+  imeis: string[] | null;
+  enabled: boolean;
+  created_at: string;
+};
+
+export type WebhookInput = Omit<WebhookRow, "id" | "created_at">;
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDeliveryRow = {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent;
+  imei: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  /** HTTP status of the last attempt; null if it never got a response. */
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+};
+
+export type WebhookDeliveryInput = Pick<WebhookDeliveryRow, "webhook_id" | "event" | "imei" | "payload">;
+
+export type WebhookDeliveryPatch = Partial<
+  Pick<WebhookDeliveryRow, "status" | "attempts" | "next_attempt_at" | "last_status_code" | "last_error" | "delivered_at">
+>;
+
+/** Permission granted to an API key (see auth.ts for what each one covers). */
+export type ApiScope =
+  | "devices:read" | "devices:write"
+  | "positions:read"
+  | "commands:read" | "commands:send"
+  | "geofences:read" | "geofences:write"
+  | "alerts:read" | "alerts:write"
+  | "webhooks:read" | "webhooks:write"
+  | "groups:read" | "groups:write"
+  | "metrics:read"
+  | "admin";
+
+export type ApiKeyRow = {
+  id: number;
+  name: string;
+  /** First characters of the key, to tell keys apart without storing them. */
+  key_prefix: string;
+  /** SHA-256 hex of the full key; the key itself is never stored. */
+  key_hash: string;
+  scopes: ApiScope[];
+  /** Devices the key may see; null means the whole fleet. */
+  imeis: string[] | null;
+  /** Organisation the key acts for; null means every organisation (platform key). */
+  organisation_id: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type ApiKeyInput = Pick<ApiKeyRow, "name" | "key_prefix" | "key_hash" | "scopes" | "imeis" | "organisation_id">;
+
+export type ApiKeyPatch = Partial<Pick<ApiKeyRow, "last_used_at" | "revoked_at">>;
+
+export type AuditLogRow = {
+  id: number;
+  /** Null for the bootstrap admin key and for requests with auth disabled. */
+  api_key_id: number | null;
+  actor: string;
+  method: string;
+  path: string;
+  status: number;
+  imei: string | null;
+  remote_ip: string | null;
+  /** JSON request body with secrets redacted; null if there was none. */
+  body: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export type AuditLogInput = Omit<AuditLogRow, "id" | "created_at">;
+
+export type OrganisationRow = {
+  id: number;
+  name: string;
+  created_at: string;
+};
+
+export type GroupRow = {
+  id: number;
+  organisation_id: number;
+  /** Enclosing group; members of a group count as members of its ancestors. */
+  parent_id: number | null;
+  name: string;
+  created_at: string;
+};
+
+export type GroupInput = Pick<GroupRow, "organisation_id" | "parent_id" | "name">;
+
+export type GroupMemberRow = {
+  group_id: number;
+  imei: string;
+  created_at: string;
+};
+
+/**
+ * Why a TCP session ended:
+ *   end      — the device closed the connection
+ *   error    — socket error (reset, broken pipe, …)
+ *   timeout  — idle for TCP_IDLE_TIMEOUT_S
+ *   replaced — the device opened a new session before this one died
+ *   closed   — closed by the server (protocol error, device blocked)
+ *   shutdown — the server stopped
+ */
+export type SessionEndReason = "end" | "error" | "timeout" | "replaced" | "closed" | "shutdown";
+
+export type SessionRow = {
+  id: number;
+  imei: string;
+  remote_ip: string;
+  connected_at: string;
+  /** Null while connected, or if the server crashed during the session. */
+  disconnected_at: string | null;
+  disconnect_reason: SessionEndReason | null;
+  bytes_in: number;
+  bytes_out: number;
+  /** AVL data packets received. */
+  packets: number;
+  /** AVL records acknowledged. */
+  records: number;
+};
+
+export type SessionInput = Omit<SessionRow, "id">;
+
+export type SessionPatch = Partial<
+  Pick<SessionRow, "disconnected_at" | "disconnect_reason" | "bytes_in" | "bytes_out" | "packets" | "records">
+>;
+
+/** gps_time range filter; both bounds inclusive ISO 8601 timestamps. */
+export type TimeRange = { from?: string; to?: string };
+
+/** Where a sensor series is read from: a promoted column or an io_data key. */
+export type SensorSource = { column: string } | { ioKey: string };
+
+export type SensorPoint = { gps_time: string; value: unknown };
+
+export interface Storage {
+  // ── Ingestion ──────────────────────────────────────────────────────────────
+  /** Creates the device if unknown; an existing row is left untouched. */
+  upsertDevice(imei: string, approval?: ApprovalStatus): Promise<void>;
+  /** Also advances last_seen_at, unless `seen` is false (status changes made by the watchdog). */
+  updateDeviceStatus(imei: string, status: DeviceStatus, seen?: boolean): Promise<void>;
+  /** Advances last_data_at to `receivedAt`; an older time leaves it unchanged. */
+  updateDeviceLastData(imei: string, receivedAt: string): Promise<void>;
+  saveRawPacket(
+    imei: string,
+    remoteIp: string | undefined,
+    buf: Buffer,
+    integrity?: RawPacketIntegrity
+  ): Promise<number>;
+  /** Inserts positions and marks the raw packet as parsed. */
+  savePositions(imei: string, records: AvlRecord[], rawPacketId: number): Promise<void>;
+  deletePositionsForRaw(rawPacketId: number): Promise<void>;
+  /** Raw packets in id order; all of them, or only those not yet parsed. */
+  listRawPackets(opts: { onlyUnparsed: boolean }): Promise<RawPacketRow[]>;
+
+  // ── Devices ────────────────────────────────────────────────────────────────
+  /** Most recently seen first. */
+  listDevices(): Promise<DeviceRow[]>;
+  getDevice(imei: string): Promise<DeviceRow | null>;
+  updateDeviceLabel(imei: string, label: string | null): Promise<void>;
+  updateDeviceModel(imei: string, model: string | null): Promise<void>;
+  updateDeviceReportInterval(imei: string, seconds: number | null): Promise<void>;
+  /** Also removes the device from every group (groups belong to one organisation). */
+  setDeviceOrganisation(imei: string, organisationId: number | null): Promise<void>;
+  /** Sets the approval status, creating the device if it does not exist yet. */
+  setDeviceApproval(imei: string, approval: ApprovalStatus): Promise<void>;
+
+  // ── Positions ──────────────────────────────────────────────────────────────
+  latestPosition(imei: string): Promise<PositionRow | null>;
+  /** Newest first. `limit` null means no limit. */
+  listPositions(imei: string, range: TimeRange, limit: number | null): Promise<PositionRow[]>;
+  /**
+   * Newest first. Column series include null values; io_data series only
+   * contain rows where the key is present.
+   */
+  sensorSeries(imei: string, source: SensorSource, range: TimeRange, limit: number): Promise<SensorPoint[]>;
+  /** The same series, oldest first, page by page over the whole range. */
+  sensorPages(imei: string, source: SensorSource, range: TimeRange, pageSize: number): AsyncIterable<SensorPoint[]>;
+  /**
+   * Every position in the range, oldest first, fetched page by page so long
+   * ranges never have to fit in one response.
+   */
+  trackPages(imei: string, range: TimeRange, pageSize: number): AsyncIterable<PositionRow[]>;
+  /** io_data of the device's most recent records, newest first. */
+  recentIoData(imei: string, limit: number): Promise<IoData[]>;
+
+  // ── Commands (Codec 12) ────────────────────────────────────────────────────
+  insertCommand(imei: string, command: string): Promise<CommandRow>;
+  /** Oldest command still waiting to be written to the device, if any. */
+  nextQueuedCommand(imei: string): Promise<CommandRow | null>;
+  updateCommand(id: number, patch: CommandPatch): Promise<void>;
+  /** Newest first. */
+  listCommands(imei: string, opts: { status?: string; limit: number }): Promise<CommandRow[]>;
+
+  // ── Geofences ──────────────────────────────────────────────────────────────
+  listGeofences(): Promise<GeofenceRow[]>;
+  getGeofence(id: number): Promise<GeofenceRow | null>;
+  createGeofence(input: GeofenceInput): Promise<GeofenceRow>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateGeofence(id: number, patch: Partial<GeofenceInput>): Promise<GeofenceRow | null>;
+  /** Also removes the fence's events and device state. Returns whether it existed. */
+  deleteGeofence(id: number): Promise<boolean>;
+  insertGeofenceEvents(events: GeofenceEventInput[]): Promise<void>;
+  /** Newest first. */
+  listGeofenceEvents(
+    filter: { imei?: string; imeis?: string[]; geofenceId?: number },
+    range: TimeRange,
+    limit: number
+  ): Promise<GeofenceEventRow[]>;
+  loadGeofenceStates(imei: string): Promise<GeofenceStateRow[]>;
+  /** Upserts on (imei, geofence_id). */
+  saveGeofenceStates(states: GeofenceStateRow[]): Promise<void>;
+
+  // ── Trips ──────────────────────────────────────────────────────────────────
+  /** Newest first; the range applies to start_time. */
+  listTrips(imei: string, range: TimeRange, limit: number): Promise<TripRow[]>;
+  getTrip(id: number): Promise<TripRow | null>;
+  /** Upserts on (imei, start_time). */
+  upsertTrips(trips: TripInput[]): Promise<void>;
+  /** Deletes the device's trips starting at or after `from` (all of them if null). */
+  deleteTripsSince(imei: string, from: string | null): Promise<void>;
+
+  // ── Alerts ─────────────────────────────────────────────────────────────────
+  listAlertRules(): Promise<AlertRuleRow[]>;
+  getAlertRule(id: number): Promise<AlertRuleRow | null>;
+  createAlertRule(input: AlertRuleInput): Promise<AlertRuleRow>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateAlertRule(id: number, patch: Partial<AlertRuleInput>): Promise<AlertRuleRow | null>;
+  /** Also removes the rule's alerts. Returns whether it existed. */
+  deleteAlertRule(id: number): Promise<boolean>;
+  insertAlert(input: AlertInput): Promise<AlertRow>;
+  getAlert(id: number): Promise<AlertRow | null>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateAlert(id: number, patch: AlertPatch): Promise<AlertRow | null>;
+  /** Newest first; the range applies to opened_at. */
+  listAlerts(
+    filter: { imei?: string; imeis?: string[]; ruleId?: number; statuses?: AlertStatus[] },
+    range: TimeRange,
+    limit: number
+  ): Promise<AlertRow[]>;
+
+  // ── Webhooks ───────────────────────────────────────────────────────────────
+  listWebhooks(): Promise<WebhookRow[]>;
+  getWebhook(id: number): Promise<WebhookRow | null>;
+  createWebhook(input: WebhookInput): Promise<WebhookRow>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateWebhook(id: number, patch: Partial<WebhookInput>): Promise<WebhookRow | null>;
+  /** Also removes the subscription's deliveries. Returns whether it existed. */
+  deleteWebhook(id: number): Promise<boolean>;
+  /** Queues deliveries as pending, due immediately. */
+  insertWebhookDeliveries(deliveries: WebhookDeliveryInput[]): Promise<void>;
+  /** Pending deliveries with next_attempt_at ≤ `now`, oldest first. */
+  dueWebhookDeliveries(now: string, limit: number): Promise<WebhookDeliveryRow[]>;
+  updateWebhookDelivery(id: number, patch: WebhookDeliveryPatch): Promise<void>;
+  /** Newest first. */
+  listWebhookDeliveries(
+    filter: { webhookId?: number; status?: WebhookDeliveryStatus },
+    limit: number
+  ): Promise<WebhookDeliveryRow[]>;
+
+  // ── API keys / audit ───────────────────────────────────────────────────────
+  /** Oldest first, revoked keys included. */
+  listApiKeys(): Promise<ApiKeyRow[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | null>;
+  createApiKey(input: ApiKeyInput): Promise<ApiKeyRow>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateApiKey(id: number, patch: ApiKeyPatch): Promise<ApiKeyRow | null>;
+  insertAuditLog(entry: AuditLogInput): Promise<void>;
+  /** Newest first; `range` applies to created_at. */
+  listAuditLog(
+    filter: { apiKeyId?: number; imei?: string },
+    range: TimeRange,
+    limit: number
+  ): Promise<AuditLogRow[]>;
+
+  // ── Organisations / groups ─────────────────────────────────────────────────
+  listOrganisations(): Promise<OrganisationRow[]>;
+  getOrganisation(id: number): Promise<OrganisationRow | null>;
+  createOrganisation(name: string): Promise<OrganisationRow>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateOrganisation(id: number, name: string): Promise<OrganisationRow | null>;
+  /** Returns whether it existed. Callers check it has no devices or groups first. */
+  deleteOrganisation(id: number): Promise<boolean>;
+  /** Oldest first; organisationId narrows to one organisation. */
+  listGroups(organisationId?: number): Promise<GroupRow[]>;
+  getGroup(id: number): Promise<GroupRow | null>;
+  createGroup(input: GroupInput): Promise<GroupRow>;
+  /** Returns the updated row, or null if it does not exist. */
+  updateGroup(id: number, patch: Partial<Pick<GroupRow, "parent_id" | "name">>): Promise<GroupRow | null>;
+  /** Also removes the group's memberships. Returns whether it existed. */
+  deleteGroup(id: number): Promise<boolean>;
+  listGroupMembers(groupIds: number[]): Promise<GroupMemberRow[]>;
+  /** Devices already in the group are left as they are. */
+  addGroupMembers(groupId: number, imeis: string[]): Promise<void>;
+  /** Returns whether the device was a member. */
+  removeGroupMember(groupId: number, imei: string): Promise<boolean>;
+
+  // ── Sessions ───────────────────────────────────────────────────────────────
+  /** Returns the new session id. */
+  insertSession(input: SessionInput): Promise<number>;
+  updateSession(id: number, patch: SessionPatch): Promise<void>;
+  /** Newest first; `range` applies to connected_at; null limit = all. */
+  listSessions(imei: string, range: TimeRange, limit: number | null): Promise<SessionRow[]>;
+}
@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildCodec12Command, buildUdpAck, crc16Ibm, parseAvlPacket, parseCodec12Response, parseUdpPacket, validateAvlPacket,
+} from "./teltonika.js";
+
+// Codec 8 example from the Teltonika protocol documentation: one record
+const SAMPLE = Buffer.from(
+  "000000000000003608010000016B40D8EA30010000000000000000000000000000000105021503010101425E0F01F10000601A014E0000000000000000010000C7CF",
+  "hex"
+);
+
+// Codec 8 Extended and Codec 16 examples from the same documentation
+const SAMPLE_8E = Buffer.from(
+  "000000000000004A8E010000016B412CEE000100000000000000000000000000000000010005000100010100010011001D00010010015E2C880002000B000000003544C87A000E000000001DD7E06A00000100002994",
+  "hex"
+);
+const SAMPLE_16 = Buffer.from(
+  "000000000000005F10020000016BDBC7833000000000000000000000000000000000000B05040200010000030002000B00270042563A00000000016BDBC7871800000000000000000000000000000000000B05040200010000030002000B00260042563A00000200005FB3",
+  "hex"
+);
+
+/** Wraps a data field in preamble, length and a correct CRC. */
+function packet(data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 4);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc16Ibm(data), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+const dataField = (buf: Buffer) => Buffer.from(buf.subarray(8, buf.length - 4));
+
+test("crc16Ibm matches the documented trailer", () => {
+  assert.equal(crc16Ibm(dataField(SAMPLE)), 0xc7cf);
+  // CRC-16/ARC check value
+  assert.equal(crc16Ibm(Buffer.from("123456789", "ascii")), 0xbb3d);
+});
+
+test("accepts an intact packet", () => {
+  assert.deepEqual(validateAvlPacket(SAMPLE), { ok: true });
+});
+
+test("rejects a corrupted byte as a CRC mismatch", () => {
+  const corrupted = Buffer.from(SAMPLE);
+  corrupted[20] ^= 0xff;
+  const result = validateAvlPacket(corrupted);
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.crcValid, false);
+  assert.match(!result.ok ? result.reason : "", /CRC mismatch/);
+});
+
+test("rejects disagreeing record counts even with a valid CRC", () => {
+  const data = dataField(SAMPLE);
+  data[data.length - 1] = 2;
+  const result = validateAvlPacket(packet(data));
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.crcValid, true);
+  assert.match(!result.ok ? result.reason : "", /record count mismatch: header 1, trailer 2/);
+});
+
+test("rejects records that do not end at the record count trailer", () => {
+  const data = dataField(SAMPLE);
+  // A stray byte between the last record and the trailer
+  const padded = Buffer.concat([data.subarray(0, -1), Buffer.from([0x00]), data.subarray(-1)]);
+  const result = validateAvlPacket(packet(padded));
+  assert.equal(!result.ok && result.code, "malformed_records");
+  assert.equal(!result.ok && result.crcValid, true);
+
+  // The 8-byte IO count (before its one id + value and the trailer) claiming nine elements
+  const overrun = Buffer.from(data);
+  overrun[overrun.length - 1 - 8 - 1 - 1] = 9;
+  assert.match(JSON.stringify(validateAvlPacket(packet(overrun))), /IO block runs past the end/);
+});
+
+test("rejects truncated packets and length mismatches", () => {
+  assert.match(JSON.stringify(validateAvlPacket(SAMPLE.subarray(0, 10))), /too short/);
+  assert.match(JSON.stringify(validateAvlPacket(SAMPLE.subarray(0, SAMPLE.length - 1))), /length mismatch/);
+});
+
+test("buildCodec12Command matches the documented getinfo frame", () => {
+  assert.equal(
+    buildCodec12Command("getinfo").toString("hex"),
+    "000000000000000f0c010500000007676574696e666f0100004312"
+  );
+});
+
+test("parseCodec12Response reads a response and ignores commands", () => {
+  const text = Buffer.from("DOUT1:1 Timeout:INFINITY", "ascii");
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(text.length, 0);
+  const response = packet(Buffer.concat([Buffer.from([0x0c, 0x01, 0x06]), len, text, Buffer.from([0x01])]));
+
+  assert.equal(parseCodec12Response(response), "DOUT1:1 Timeout:INFINITY");
+  assert.equal(parseCodec12Response(buildCodec12Command("getinfo")), null);
+  assert.equal(parseCodec12Response(response.subarray(0, 18)), null);
+});
+
+test("parses a Codec 8 record with scaled and boolean IO", () => {
+  const [record, ...rest] = parseAvlPacket(SAMPLE);
+  assert.equal(rest.length, 0);
+  assert.equal(record.codecId, 0x08);
+  assert.equal(record.timestamp.toISOString(), "2019-06-10T10:04:46.000Z");
+  assert.equal(record.priority, 1);
+  assert.equal(record.eventIoId, 1);
+  assert.equal(record.generationType, null);
+  assert.equal(record.ioData.din1, true);
+  assert.equal(record.ioData.external_voltage, 24.079);
+});
+
+test("parses Codec 8 Extended two-byte IO ids and counts", () => {
+  assert.deepEqual(validateAvlPacket(SAMPLE_8E), { ok: true });
+  const [record] = parseAvlPacket(SAMPLE_8E);
+  assert.equal(record.codecId, 0x8e);
+  assert.equal(record.eventIoId, 1);
+  assert.equal(record.ioData.total_odometer, 22949000);
+  assert.equal(Object.keys(record.ioData).length, 5);
+});
+
+test("parses Codec 16 records with their generation type", () => {
+  assert.deepEqual(validateAvlPacket(SAMPLE_16), { ok: true });
+  const records = parseAvlPacket(SAMPLE_16);
+  assert.deepEqual(records.map((r) => r.timestamp.toISOString()), ["2019-07-10T12:06:54.000Z", "2019-07-10T12:06:55.000Z"]);
+  assert.deepEqual(records.map((r) => [r.codecId, r.eventIoId, r.generationType]), [[0x10, 11, 5], [0x10, 11, 5]]);
+  assert.equal(records[1].ioData.external_voltage, 22.074);
+});
+
+// UDP channel example from the documentation, and the ACK it expects
+const UDP_SAMPLE = Buffer.from(
+  "003DCAFE0105000F33353230393330383634303336353508010000016B4F815B30010000000000000000000000000000000103021503010101425DBC000001",
+  "hex"
+);
+
+test("parses a UDP datagram and re-wraps its AVL data for validation", () => {
+  const packet = parseUdpPacket(UDP_SAMPLE);
+  assert.ok(packet);
+  assert.equal(packet.packetId, 0xcafe);
+  assert.equal(packet.avlPacketId, 0x05);
+  assert.equal(packet.imei, "352093086403655");
+  assert.deepEqual(validateAvlPacket(packet.avl), { ok: true });
+  assert.equal(parseAvlPacket(packet.avl).length, 1);
+});
+
+test("rejects UDP datagrams whose length field does not match", () => {
+  assert.equal(parseUdpPacket(UDP_SAMPLE.subarray(0, UDP_SAMPLE.length - 1)), null);
+  assert.equal(parseUdpPacket(UDP_SAMPLE.subarray(0, 6)), null);
+});
+
+test("buildUdpAck echoes the packet ids with the accepted count", () => {
+  assert.equal(buildUdpAck(0xcafe, 0x05, 1).toString("hex"), "0005cafe010501");
+  assert.equal(buildUdpAck(0xcafe, 0x05, 0).toString("hex"), "0005cafe010500");
+});
@@ -8,11 +8,12 @@
  * AVL data packet (device → server):
  *   [4 bytes] preamble (0x00000000)
  *   [4 bytes] data field length (big-endian uint32)
- *   [1 byte]  codec ID (0x08 = Codec8, 0x8E = Codec8 Extended)
+ *   [1 byte]  codec ID (0x08 = Codec8, 0x8E = Codec8 Extended, 0x10 = Codec16)
  *   [1 byte]  number of data (record count)
  *   [...    ] AVL records
  *   [1 byte]  number of data (same as above, repeated)
- *   [4 bytes] CRC-16 checksum
+ *   [4 bytes] CRC-16/IBM of the data field (codec ID … second record count),
+ *             stored in the low 2 bytes; the high 2 bytes are zero
  *
  * AVL record (Codec 8):
  *   [8 bytes] timestamp     uint64 BE, milliseconds since epoch
@@ -43,16 +44,63 @@
  *   [2 bytes] N of 8-byte IOs  → [id(2) + value(8)] × N
  *   [2 bytes] N of X-byte IOs  → [id(2) + len(2) + value(len)] × N
  *
+ * IO element block (Codec 16 — 0x10):
+ *   GPS record fields are identical to Codec 8; IO IDs widen to 2 bytes while
+ *   counts stay 1 byte, and a generation type byte follows the event IO ID:
+ *   [2 bytes] event IO ID
+ *   [1 byte]  generation type (0 on exit, 1 on entrance, 2 on both,
+ *             4 hysteresis, 5 on change, 6 eventual, 7 periodical)
+ *   [1 byte]  total IO count
+ *   [1 byte]  N of 1-byte IOs  → [id(2) + value(1)] × N
+ *   [1 byte]  N of 2-byte IOs  → [id(2) + value(2)] × N
+ *   [1 byte]  N of 4-byte IOs  → [id(2) + value(4)] × N
+ *   [1 byte]  N of 8-byte IOs  → [id(2) + value(8)] × N
+ *
  * Server ACK after IMEI:    0x01 (1 byte, accept) or 0x00 (reject)
- * Server ACK after AVL data: record count as big-endian uint32 (4 bytes)
+ * Server ACK after AVL data: record count as big-endian uint32 (4 bytes).
+ *   An ACK of 0 tells the device nothing was accepted, so it resends.
+ *
+ * Codec 12 (0x0C) GPRS command / response — same envelope as AVL data:
+ *   [4 bytes] preamble (0x00000000)
+ *   [4 bytes] data field length
+ *   [1 byte]  codec ID 0x0C
+ *   [1 byte]  quantity 1 (always 0x01)
+ *   [1 byte]  type (0x05 = command server → device, 0x06 = response)
+ *   [4 bytes] command / response length
+ *   [N bytes] command / response text (ASCII)
+ *   [1 byte]  quantity 2 (always 0x01)
+ *   [4 bytes] CRC-16/IBM of the data field
+ *   Responses are not ACKed.
+ *
+ * UDP channel datagram (device → server):
+ *   [2 bytes] length of everything that follows
+ *   [2 bytes] packet ID
+ *   [1 byte]  not usable byte (0x01)
+ *   [1 byte]  AVL packet ID
+ *   [2 bytes] IMEI length
+ *   [N bytes] IMEI (ASCII digits)
+ *   [...    ] AVL data array: codec ID … second record count (no CRC —
+ *             UDP carries its own checksum)
+ *
+ * UDP ACK (server → device):
+ *   [2 bytes] length (0x0005) · [2 bytes] packet ID · [1 byte] 0x01
+ *   · [1 byte] AVL packet ID · [1 byte] number of accepted records
  */
 
-import { metaFor } from "./avlDictionary.js";
+import { AVL_DICT, metaFor, type AvlDictionary, type AvlMeta } from "./avlDictionary.js";
+import { decoderFor } from "./ioDecoders.js";
 
-export type IoValue = number | boolean | string;
+/** Structured values produced by the IO decoders (see ioDecoders.ts). */
+export type IoStruct = { [key: string]: IoValue | null } | IoValue[];
+export type IoValue = number | boolean | string | IoStruct;
 export type IoData = Record<string, IoValue>;
 
+export const CODEC_8 = 0x08;
+export const CODEC_8E = 0x8e;
+export const CODEC_16 = 0x10;
+
 export interface AvlRecord {
+  codecId: number;
   timestamp: Date;
   priority: number;
   longitude: number;
@@ -62,6 +110,8 @@ export interface AvlRecord {
   satellites: number;
   speed: number;
   eventIoId: number;
+  /** Codec 16 only — why the record was generated; null for other codecs. */
+  generationType: number | null;
   ioData: IoData;
 }
 
@@ -79,21 +129,142 @@ export function parseImeiPacket(buf: Buffer): string | null {
   return imei;
 }
 
+export const CODEC_12 = 0x0c;
+
+/** Codec ID byte of an AVL-framed packet, or null if the frame is too short. */
+export function extractCodecId(buf: Buffer): number | null {
+  if (buf.length < 9) return null;
+  return buf.readUInt8(8);
+}
+
 export function extractAvlRecordCount(buf: Buffer): number {
   // preamble (4) + data length (4) + codec (1) + numberOfData (1) = byte index 9
   if (buf.length < 10) return 0;
   return buf.readUInt8(9);
 }
 
-export function parseAvlPacket(buf: Buffer): AvlRecord[] {
+/**
+ * CRC-16/IBM (a.k.a. CRC-16/ARC): polynomial 0x8005 reflected (0xA001),
+ * initial value 0, no final XOR. This is the variant Teltonika uses for the
+ * AVL packet trailer.
+ */
+export function crc16Ibm(buf: Buffer): number {
+  let crc = 0;
+  for (const byte of buf) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+export type AvlValidation =
+  | { ok: true }
+  | {
+      ok: false;
+      crcValid: boolean;
+      /** Short machine-readable kind of failure, for metrics. */
+      code: "too_short" | "length_mismatch" | "crc_mismatch" | "record_count_mismatch" | "malformed_records";
+      reason: string;
+    };
+
+/**
+ * Structural integrity check for an AVL packet, run before anything is
+ * ACKed: length field, CRC over the data field, agreement between the two
+ * record-count bytes, and — for codecs we parse — records and IO blocks that
+ * end exactly at the trailing record count. A packet that fails must not be
+ * acknowledged — the device deletes whatever it sees ACKed.
+ *
+ * The record walk matters for UDP, whose CRC is computed here rather than
+ * sent by the device (see parseUdpPacket): without it any datagram body
+ * would pass.
+ */
+export function validateAvlPacket(buf: Buffer): AvlValidation {
+  if (buf.length < 8 + 3 + 4) {
+    return { ok: false, crcValid: false, code: "too_short", reason: `packet too short (${buf.length} bytes)` };
+  }
+
+  const dataLen = buf.readUInt32BE(4);
+  if (buf.length !== 8 + dataLen + 4) {
+    return {
+      ok: false,
+      crcValid: false,
+      code: "length_mismatch",
+      reason: `length mismatch: header says ${dataLen} data bytes, packet has ${buf.length - 12}`,
+    };
+  }
+
+  const data = buf.subarray(8, 8 + dataLen);
+  const expected = buf.readUInt32BE(8 + dataLen);
+  const actual = crc16Ibm(data);
+  if (expected !== actual) {
+    return {
+      ok: false,
+      crcValid: false,
+      code: "crc_mismatch",
+      reason: `CRC mismatch: packet 0x${expected.toString(16).padStart(4, "0")}, computed 0x${actual.toString(16).padStart(4, "0")}`,
+    };
+  }
+
+  const countHead = data.readUInt8(1);
+  const countTail = data.readUInt8(data.length - 1);
+  if (countHead !== countTail) {
+    return {
+      ok: false,
+      crcValid: true,
+      code: "record_count_mismatch",
+      reason: `record count mismatch: header ${countHead}, trailer ${countTail}`,
+    };
+  }
+
+  if (IO_PARSERS[data.readUInt8(0)]) {
+    let end: number;
+    try {
+      end = parseRecords(buf, AVL_DICT).end;
+    } catch {
+      end = -1;
+    }
+    const trailer = 8 + dataLen - 1;
+    if (end !== trailer) {
+      return {
+        ok: false,
+        crcValid: true,
+        code: "malformed_records",
+        reason: end < 0
+          ? "malformed records: IO block runs past the end of the packet"
+          : `malformed records: records end at byte ${end}, record count trailer is at ${trailer}`,
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Parses every record of a validated AVL packet. IO values are decoded with
+ * `dictionary` — the sending device's model (see avlDictionary.ts).
+ */
+export function parseAvlPacket(buf: Buffer, dictionary: AvlDictionary = AVL_DICT): AvlRecord[] {
   if (buf.length < 10) return [];
 
   const codecId = buf.readUInt8(8);
-  if (codecId !== 0x08 && codecId !== 0x8e) {
+  if (!IO_PARSERS[codecId]) {
     console.warn(`[!] Unsupported codec ID: 0x${codecId.toString(16).padStart(2, "0")} — skipping parse`);
     return [];
   }
 
+  return parseRecords(buf, dictionary).records;
+}
+
+/**
+ * Walks the records of a packet in a supported codec. `end` is the offset
+ * just past the last record; throws (RangeError) when an IO block runs past
+ * the end of the buffer.
+ */
+function parseRecords(buf: Buffer, dictionary: AvlDictionary): { records: AvlRecord[]; end: number } {
+  const codecId = buf.readUInt8(8);
+  const parseIo = IO_PARSERS[codecId];
   const numRecords = buf.readUInt8(9);
   let offset = 10;
   const records: AvlRecord[] = [];
@@ -127,23 +298,27 @@ export function parseAvlPacket(buf: Buffer): AvlRecord[] {
     const speed = buf.readUInt16BE(offset);
     offset += 2;
 
-    const io = codecId === 0x8e
-      ? parseCodec8ExtendedIo(buf, offset)
-      : parseCodec8Io(buf, offset);
+    const io = parseIo(buf, offset, dictionary);
 
     records.push({
-      timestamp, priority, longitude, latitude, altitude, angle, satellites, speed,
+      codecId, timestamp, priority, longitude, latitude, altitude, angle, satellites, speed,
       eventIoId: io.eventIoId,
+      generationType: io.generationType ?? null,
       ioData: io.ioData,
     });
 
     offset = io.nextOffset;
   }
 
-  return records;
+  return { records, end: offset };
 }
 
-type IoBlock = { eventIoId: number; ioData: IoData; nextOffset: number };
+type IoBlock = {
+  eventIoId: number;
+  generationType?: number;
+  ioData: IoData;
+  nextOffset: number;
+};
 
 function readSized(buf: Buffer, offset: number, size: 1 | 2 | 4 | 8, signed: boolean): number {
   switch (size) {
@@ -157,15 +332,31 @@ function readSized(buf: Buffer, offset: number, size: 1 | 2 | 4 | 8, signed: boo
   }
 }
 
-function applyMeta(id: number, raw: number): { name: string; value: IoValue } {
-  const meta = metaFor(id);
+/** Reads one fixed-size IO value and stores it in `ioData` under its dictionary name. */
+function readIo(
+  ioData: IoData, buf: Buffer, offset: number, size: 1 | 2 | 4 | 8, id: number, dictionary: AvlDictionary
+): void {
+  const meta = metaFor(id, dictionary);
+  const raw = readSized(buf, offset, size, meta.signed === true);
+  applyMeta(ioData, id, meta, raw);
+}
+
+function applyMeta(ioData: IoData, id: number, meta: AvlMeta, raw: number): void {
+  const decoder = decoderFor(id, meta.name, "fixed");
+  if (decoder) {
+    const decoded = decoder.decode(raw);
+    if ("value" in decoded) ioData[meta.name] = decoded.value;
+    else ioData[`${meta.name}_error`] = decoded.error;
+    return;
+  }
+
   let value: IoValue = raw;
   if (meta.boolean) value = raw !== 0;
   else if (meta.scale !== undefined) value = raw * meta.scale;
-  return { name: meta.name, value };
+  ioData[meta.name] = value;
 }
 
-function parseCodec8Io(buf: Buffer, offset: number): IoBlock {
+function parseCodec8Io(buf: Buffer, offset: number, dictionary: AvlDictionary): IoBlock {
   const ioData: IoData = {};
   const eventIoId = buf.readUInt8(offset); offset += 1;
   offset += 1; // N of Total IO (1 byte) — derivable from sums below
@@ -174,18 +365,15 @@ function parseCodec8Io(buf: Buffer, offset: number): IoBlock {
     const n = buf.readUInt8(offset); offset += 1;
     for (let i = 0; i < n; i++) {
       const id = buf.readUInt8(offset); offset += 1;
-      const meta = metaFor(id);
-      const raw = readSized(buf, offset, size, meta.signed === true);
+      readIo(ioData, buf, offset, size, id, dictionary);
       offset += size;
-      const { name, value } = applyMeta(id, raw);
-      ioData[name] = value;
     }
   }
 
   return { eventIoId, ioData, nextOffset: offset };
 }
 
-function parseCodec8ExtendedIo(buf: Buffer, offset: number): IoBlock {
+function parseCodec8ExtendedIo(buf: Buffer, offset: number, dictionary: AvlDictionary): IoBlock {
   const ioData: IoData = {};
   const eventIoId = buf.readUInt16BE(offset); offset += 2;
   offset += 2; // N of Total IO (2 bytes)
@@ -194,29 +382,141 @@ function parseCodec8ExtendedIo(buf: Buffer, offset: number): IoBlock {
     const n = buf.readUInt16BE(offset); offset += 2;
     for (let i = 0; i < n; i++) {
       const id = buf.readUInt16BE(offset); offset += 2;
-      const meta = metaFor(id);
-      const raw = readSized(buf, offset, size, meta.signed === true);
+      readIo(ioData, buf, offset, size, id, dictionary);
       offset += size;
-      const { name, value } = applyMeta(id, raw);
-      ioData[name] = value;
     }
   }
 
-  // Variable-length IOs — Codec 8 Extended only. Stored as hex strings.
+  // Variable-length IOs — Codec 8 Extended only. Always stored as hex
+  // strings; IOs with a decoder also get the decoded value (or an error)
   const nx = buf.readUInt16BE(offset); offset += 2;
   for (let i = 0; i < nx; i++) {
     const id = buf.readUInt16BE(offset); offset += 2;
     const len = buf.readUInt16BE(offset); offset += 2;
-    const hex = buf.subarray(offset, offset + len).toString("hex");
+    const bytes = buf.subarray(offset, offset + len);
     offset += len;
-    ioData[`${metaFor(id).name}_hex`] = hex;
+
+    const { name } = metaFor(id, dictionary);
+    ioData[`${name}_hex`] = bytes.toString("hex");
+    const decoder = decoderFor(id, name, "variable");
+    if (decoder) {
+      const decoded = decoder.decode(bytes);
+      if ("value" in decoded) ioData[name] = decoded.value;
+      else ioData[`${name}_error`] = decoded.error;
+    }
   }
 
   return { eventIoId, ioData, nextOffset: offset };
 }
 
+function parseCodec16Io(buf: Buffer, offset: number, dictionary: AvlDictionary): IoBlock {
+  const ioData: IoData = {};
+  const eventIoId = buf.readUInt16BE(offset); offset += 2;
+  const generationType = buf.readUInt8(offset); offset += 1;
+  offset += 1; // N of Total IO (1 byte)
+
+  for (const size of [1, 2, 4, 8] as const) {
+    const n = buf.readUInt8(offset); offset += 1;
+    for (let i = 0; i < n; i++) {
+      const id = buf.readUInt16BE(offset); offset += 2;
+      readIo(ioData, buf, offset, size, id, dictionary);
+      offset += size;
+    }
+  }
+
+  return { eventIoId, generationType, ioData, nextOffset: offset };
+}
+
+const IO_PARSERS: Record<number, (buf: Buffer, offset: number, dictionary: AvlDictionary) => IoBlock> = {
+  [CODEC_8]: parseCodec8Io,
+  [CODEC_8E]: parseCodec8ExtendedIo,
+  [CODEC_16]: parseCodec16Io,
+};
+
 export function buildAck(recordCount: number): Buffer {
   const ack = Buffer.alloc(4);
   ack.writeUInt32BE(recordCount, 0);
   return ack;
 }
+
+/** Encodes a text command (e.g. "getinfo", "setdigout 1") as a Codec 12 frame. */
+export function buildCodec12Command(command: string): Buffer {
+  const text = Buffer.from(command, "ascii");
+
+  const data = Buffer.alloc(3 + 4 + text.length + 1);
+  let o = 0;
+  data.writeUInt8(CODEC_12, o); o += 1;
+  data.writeUInt8(0x01, o); o += 1; // quantity 1
+  data.writeUInt8(0x05, o); o += 1; // type: command
+  data.writeUInt32BE(text.length, o); o += 4;
+  text.copy(data, o); o += text.length;
+  data.writeUInt8(0x01, o); // quantity 2
+
+  return wrapDataField(data);
+}
+
+/**
+ * Decodes a Codec 12 response frame into its ASCII text. Returns null for
+ * anything that is not a well-formed response (type 0x06).
+ */
+export function parseCodec12Response(buf: Buffer): string | null {
+  if (buf.length < 8 + 8 + 4) return null;
+  if (buf.readUInt8(8) !== CODEC_12) return null;
+  if (buf.readUInt8(10) !== 0x06) return null;
+
+  const len = buf.readUInt32BE(11);
+  if (15 + len > buf.length - 5) return null;
+
+  return buf.subarray(15, 15 + len).toString("ascii");
+}
+
+export type UdpPacket = {
+  packetId: number;
+  avlPacketId: number;
+  imei: string;
+  /**
+   * AVL data array re-wrapped in the TCP envelope (preamble, length, CRC) so
+   * it flows through validateAvlPacket/parseAvlPacket and is stored in the
+   * same shape as TCP packets.
+   */
+  avl: Buffer;
+};
+
+/** Parses a UDP channel datagram. Returns null if the header is malformed. */
+export function parseUdpPacket(buf: Buffer): UdpPacket | null {
+  if (buf.length < 8) return null;
+
+  const length = buf.readUInt16BE(0);
+  if (buf.length !== 2 + length) return null;
+
+  const packetId = buf.readUInt16BE(2);
+  const avlPacketId = buf.readUInt8(5);
+  const imeiLen = buf.readUInt16BE(6);
+  if (buf.length < 8 + imeiLen + 3) return null;
+
+  const imei = parseImeiPacket(buf.subarray(6, 8 + imeiLen));
+  if (!imei) return null;
+
+  return { packetId, avlPacketId, imei, avl: wrapDataField(buf.subarray(8 + imeiLen)) };
+}
+
+/** Wraps a bare data field (codec ID … quantity 2) in the TCP envelope with its CRC. */
+export function wrapDataField(data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 4);
+
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc16Ibm(data), 0);
+
+  return Buffer.concat([header, data, crc]);
+}
+
+export function buildUdpAck(packetId: number, avlPacketId: number, accepted: number): Buffer {
+  const ack = Buffer.alloc(7);
+  ack.writeUInt16BE(5, 0);
+  ack.writeUInt16BE(packetId, 2);
+  ack.writeUInt8(0x01, 4);
+  ack.writeUInt8(avlPacketId, 5);
+  ack.writeUInt8(accepted, 6);
+  return ack;
+}
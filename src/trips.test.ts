@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { listTrips, saveRawPacket, savePositions } from "./db.js";
+import { rebuildTrips, updateTrips } from "./trips.js";
+import type { AvlRecord, IoData } from "./teltonika.js";
+
+const START = Date.parse("2025-01-01T08:00:00Z");
+
+/** A point `minute` minutes after START, `north` × ~111 m north of the origin. */
+function record(minute: number, north: number, speed: number, ioData: IoData = {}): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date(START + minute * 60_000), priority: 0,
+    latitude: 54.68 + north * 0.001, longitude: 25.28, altitude: 0, angle: 0, satellites: 8,
+    speed, eventIoId: 0, generationType: null, ioData,
+  };
+}
+
+const summary = async (imei: string) =>
+  (await listTrips(imei, {}, 10)).reverse().map((t) => ({
+    status: t.status,
+    start: t.start_time.slice(11, 16),
+    end: t.end_time.slice(11, 16),
+    km: Math.round(t.distance_m / 100) / 10,
+  }));
+
+test("ignition on keeps a trip open; ignition off closes it", async () => {
+  const imei = "356307046452001";
+  await updateTrips(imei, [0, 1, 2, 3].map((m) => record(m, m * 3, 40, { ignition: true })));
+  assert.deepEqual(await summary(imei), [{ status: "open", start: "08:00", end: "08:03", km: 1 }]);
+
+  // Idling with the ignition on stays inside the trip
+  await updateTrips(imei, [
+    record(4, 9, 0, { ignition: true }),
+    record(10, 9, 0, { ignition: true }),
+    record(11, 12, 40, { ignition: true }),
+    record(12, 12, 0, { ignition: false }),
+  ]);
+  const [trip] = await listTrips(imei, {}, 10);
+  assert.equal(trip.status, "closed");
+  assert.equal(trip.end_time, "2025-01-01T08:12:00.000Z");
+  assert.equal(trip.idle_s, 7 * 60);
+});
+
+test("without ignition, a stop longer than TRIP_STOP_GAP_S ends the trip", async () => {
+  const imei = "356307046452002";
+  await updateTrips(imei, [
+    record(0, 0, 40), record(1, 3, 40), record(2, 6, 40),
+    // Stopped for 10 minutes, then moving again: a second trip
+    record(4, 6, 0), record(12, 6, 0),
+    record(13, 9, 40), record(14, 12, 40),
+  ]);
+
+  assert.deepEqual(await summary(imei), [
+    { status: "closed", start: "08:00", end: "08:02", km: 0.7 },
+    { status: "open", start: "08:13", end: "08:14", km: 0.3 },
+  ]);
+});
+
+test("short trips are discarded and data gaps split trips", async () => {
+  const imei = "356307046452003";
+  await updateTrips(imei, [
+    // Drift of ~11 m: noise
+    record(0, 0, 10), record(1, 0.1, 10), record(8, 0.1, 0),
+    // 40 minutes without data ends this trip regardless of movement
+    record(10, 1, 40), record(11, 4, 40), record(51, 7, 40), record(52, 10, 40),
+  ]);
+
+  assert.deepEqual(await summary(imei), [
+    { status: "closed", start: "08:10", end: "08:11", km: 0.3 },
+    { status: "open", start: "08:51", end: "08:52", km: 0.3 },
+  ]);
+});
+
+test("rebuildTrips re-segments stored positions, also after out-of-order data", async () => {
+  const imei = "356307046452004";
+  const records = [0, 1, 2, 3].map((m) => record(m, m * 3, 40, { ignition: m < 3 }));
+  const rawId = await saveRawPacket(imei, undefined, Buffer.alloc(12));
+  await savePositions(imei, records, rawId);
+  await updateTrips(imei, records);
+  const live = await summary(imei);
+
+  await rebuildTrips(imei, null);
+  assert.deepEqual(await summary(imei), live);
+
+  // A position older than the watermark triggers a rebuild from storage
+  const late = record(-5, -3, 40, { ignition: true });
+  await savePositions(imei, [late], rawId);
+  await updateTrips(imei, [late]);
+  assert.deepEqual((await summary(imei)).map((t) => t.start), ["07:55"]);
+});
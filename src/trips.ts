@@ -0,0 +1,267 @@
+/**
+ * Trip segmentation.
+ *
+ * A device's positions are split into trips using, in order of preference:
+ *
+ *   ignition (IO 239) — on keeps the trip going (idling included), off ends it
+ *   movement (IO 240) — on keeps it going, off counts as stopped
+ *   speed             — at least MOVING_SPEED_KMH counts as moving
+ *
+ * Without an ignition signal a trip ends once the device has been stopped for
+ * TRIP_STOP_GAP_S; shorter stops stay inside the trip as idle time. A gap in
+ * the data longer than TRIP_MAX_GAP_S always ends the trip, and trips shorter
+ * than TRIP_MIN_DISTANCE_M are discarded as GPS noise.
+ *
+ * Trips are kept up to date as positions are flushed: the trip in progress is
+ * stored with status "open" and rewritten on every batch. Each device's
+ * segmenter state lives in memory; after a restart it is rebuilt from the
+ * start of the device's latest open trip. Positions older than the last one
+ * segmented (replayed history) trigger a rebuild from the trip they fall in.
+ */
+
+import {
+  listTrips, upsertTrips, deleteTripsSince, trackPages,
+  type PositionRow, type TripInput,
+} from "./db.js";
+import { haversineM, hasFix, type LatLng } from "./geo.js";
+import type { AvlRecord } from "./teltonika.js";
+
+const MOVING_SPEED_KMH = Number(process.env.TRIP_MOVING_SPEED_KMH || 5);
+const STOP_GAP_MS = Number(process.env.TRIP_STOP_GAP_S || 300) * 1000;
+const MAX_GAP_MS = Number(process.env.TRIP_MAX_GAP_S || 1800) * 1000;
+const MIN_DISTANCE_M = Number(process.env.TRIP_MIN_DISTANCE_M || 100);
+
+const PAGE_SIZE = 1000;
+
+type TripPoint = LatLng & {
+  time: number;
+  speed: number;
+  ignition: boolean | null;
+  movement: boolean | null;
+};
+
+type Segmenter = {
+  trip: TripInput | null;
+  /** Last point segmented, inside or outside a trip. */
+  last: TripPoint | null;
+  /** Last point with a GNSS fix inside the current trip, for distance. */
+  lastFix: LatLng | null;
+  /** Points are only accepted after this time (ms). */
+  watermark: number;
+  /** Accumulated since the trip's last active point; kept only if it resumes. */
+  pending: { distance: number; idle: number; points: number };
+};
+
+// imei → segmenter state, built on first use per device
+const segmenters = new Map<string, Segmenter>();
+
+const asBool = (v: unknown): boolean | null => (typeof v === "boolean" ? v : null);
+
+function fromRecord(r: AvlRecord): TripPoint {
+  return {
+    time: r.timestamp.getTime(),
+    latitude: r.latitude,
+    longitude: r.longitude,
+    speed: r.speed,
+    ignition: asBool(r.ioData.ignition),
+    movement: asBool(r.ioData.movement),
+  };
+}
+
+function fromRow(row: PositionRow): TripPoint {
+  return {
+    time: Date.parse(row.gps_time),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    speed: row.speed,
+    ignition: asBool(row.ignition ?? row.io_data.ignition),
+    movement: asBool(row.movement ?? row.io_data.movement),
+  };
+}
+
+function emptySegmenter(watermark: number): Segmenter {
+  return { trip: null, last: null, lastFix: null, watermark, pending: { distance: 0, idle: 0, points: 0 } };
+}
+
+function cloneSegmenter(s: Segmenter): Segmenter {
+  return { ...s, trip: s.trip && { ...s.trip }, pending: { ...s.pending } };
+}
+
+function isActive(p: TripPoint): boolean {
+  return p.ignition ?? p.movement ?? p.speed >= MOVING_SPEED_KMH;
+}
+
+function startTrip(imei: string, p: TripPoint): TripInput {
+  const time = new Date(p.time).toISOString();
+  return {
+    imei,
+    status: "open",
+    start_time: time,
+    end_time: time,
+    start_latitude: p.latitude,
+    start_longitude: p.longitude,
+    end_latitude: p.latitude,
+    end_longitude: p.longitude,
+    distance_m: 0,
+    max_speed_kmh: p.speed,
+    avg_speed_kmh: 0,
+    duration_s: 0,
+    idle_s: 0,
+    point_count: 1,
+  };
+}
+
+/** Moves the trip's end to `p`, committing anything pending since the last active point. */
+function extendTrip(s: Segmenter, trip: TripInput, p: TripPoint): void {
+  trip.distance_m += s.pending.distance;
+  trip.idle_s += s.pending.idle;
+  trip.point_count += s.pending.points + 1;
+  s.pending = { distance: 0, idle: 0, points: 0 };
+
+  trip.end_time = new Date(p.time).toISOString();
+  if (hasFix(p)) {
+    trip.end_latitude = p.latitude;
+    trip.end_longitude = p.longitude;
+    // The trip may have started before the first fix
+    if (!hasFix({ latitude: trip.start_latitude, longitude: trip.start_longitude })) {
+      trip.start_latitude = p.latitude;
+      trip.start_longitude = p.longitude;
+    }
+  }
+  trip.max_speed_kmh = Math.max(trip.max_speed_kmh, p.speed);
+  trip.duration_s = Math.round((p.time - Date.parse(trip.start_time)) / 1000);
+  trip.avg_speed_kmh = trip.duration_s > 0
+    ? Math.round((trip.distance_m / trip.duration_s) * 3.6 * 10) / 10
+    : 0;
+}
+
+/** Feeds one point (in time order) to the segmenter; returns trips it closed. */
+function step(imei: string, s: Segmenter, p: TripPoint): TripInput[] {
+  if (p.time <= s.watermark) return [];
+  const closed: TripInput[] = [];
+  const close = () => {
+    closed.push({ ...s.trip!, status: "closed" });
+    s.trip = null;
+    s.lastFix = null;
+    s.pending = { distance: 0, idle: 0, points: 0 };
+  };
+
+  const last = s.last;
+  if (s.trip && last && p.time - last.time > MAX_GAP_MS) close();
+
+  const active = isActive(p);
+
+  if (s.trip && last) {
+    const trip = s.trip;
+    let distance = 0;
+    if (hasFix(p)) {
+      if (s.lastFix) distance = haversineM(s.lastFix, p);
+      s.lastFix = p;
+    }
+    const idle = last.speed < MOVING_SPEED_KMH ? (p.time - last.time) / 1000 : 0;
+
+    s.pending.distance += distance;
+    s.pending.idle += idle;
+
+    if (active) {
+      extendTrip(s, trip, p);
+    } else if (p.ignition === false) {
+      extendTrip(s, trip, p);
+      close();
+    } else {
+      s.pending.points++;
+      if (p.time - Date.parse(trip.end_time) >= STOP_GAP_MS) close();
+    }
+  } else if (active) {
+    s.trip = startTrip(imei, p);
+    s.lastFix = hasFix(p) ? p : null;
+  }
+
+  s.last = p;
+  s.watermark = p.time;
+  return closed;
+}
+
+/**
+ * Writes the outcome of a segmenter run. Closed trips under the minimum
+ * distance are dropped (deleting the row if it was stored while still open);
+ * the trip in progress is stored as "open".
+ */
+async function persist(imei: string, s: Segmenter, closed: TripInput[]): Promise<void> {
+  const kept = closed.filter((t) => t.distance_m >= MIN_DISTANCE_M);
+  const discarded = closed.filter((t) => t.distance_m < MIN_DISTANCE_M);
+
+  // Discarded trips are older than anything written below
+  if (discarded.length > 0) await deleteTripsSince(imei, discarded[0].start_time);
+
+  const rows = s.trip ? [...kept, s.trip] : kept;
+  await upsertTrips(rows.map(roundTrip));
+}
+
+function roundTrip(t: TripInput): TripInput {
+  return { ...t, distance_m: Math.round(t.distance_m), idle_s: Math.round(t.idle_s) };
+}
+
+/**
+ * Re-segments a device's trips from stored positions, starting at the trip
+ * that contains `from` (or the whole history when `from` is null).
+ */
+export async function rebuildTrips(imei: string, from: string | null): Promise<void> {
+  let start = from;
+  if (from) {
+    const [previous] = await listTrips(imei, { to: from }, 1);
+    if (previous) start = previous.start_time;
+  }
+
+  await deleteTripsSince(imei, start);
+
+  const s = emptySegmenter(0);
+  for await (const page of trackPages(imei, start ? { from: start } : {}, PAGE_SIZE)) {
+    const closed = page.flatMap((row) => step(imei, s, fromRow(row)));
+    const kept = closed.filter((t) => t.distance_m >= MIN_DISTANCE_M);
+    await upsertTrips(kept.map(roundTrip));
+  }
+  if (s.trip) await upsertTrips([roundTrip(s.trip)]);
+
+  segmenters.set(imei, s);
+}
+
+/**
+ * Segments a batch of freshly stored records. State is only committed to the
+ * in-memory cache after the database writes succeed, so a failed attempt can
+ * be retried safely.
+ */
+export async function updateTrips(imei: string, records: AvlRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const points = records.map(fromRecord).sort((a, b) => a.time - b.time);
+
+  let current = segmenters.get(imei);
+  if (!current) {
+    const [latest] = await listTrips(imei, {}, 1);
+    if (latest?.status === "open") {
+      // Replays the open trip from storage, which already includes this batch
+      await rebuildTrips(imei, latest.start_time);
+      return;
+    }
+    current = emptySegmenter(latest ? Date.parse(latest.end_time) : 0);
+  }
+
+  if (points[0].time < current.watermark) {
+    console.log(`[*] IMEI: ${imei} — out-of-order positions, rebuilding trips`);
+    await rebuildTrips(imei, new Date(points[0].time).toISOString());
+    return;
+  }
+
+  const s = cloneSegmenter(current);
+  const closed = points.flatMap((p) => step(imei, s, p));
+  await persist(imei, s, closed);
+  segmenters.set(imei, s);
+
+  for (const t of closed) {
+    if (t.distance_m < MIN_DISTANCE_M) continue;
+    console.log(
+      `[→] IMEI: ${imei} — trip ${t.start_time} → ${t.end_time}, ${(t.distance_m / 1000).toFixed(1)} km`
+    );
+  }
+}
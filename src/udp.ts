@@ -0,0 +1,96 @@
+/**
+ * Teltonika UDP channel listener.
+ *
+ * Each datagram is self-contained: it carries the IMEI in its header, so
+ * there is no handshake. The AVL payload goes through the same ingestion
+ * pipeline as TCP, and the device gets a UDP-format ACK echoing its packet ID
+ * and AVL packet ID with the number of accepted records.
+ *
+ * UDP has no connection to close. The first datagram marks the device
+ * online, as a TCP handshake would; later ones only do so again once the
+ * watchdog (see watchdog.ts) has moved it to another status, so a steady
+ * stream of datagrams costs no status writes. The watchdog notices when
+ * they stop.
+ */
+
+import dgram from "node:dgram";
+import { parseUdpPacket, buildUdpAck } from "./teltonika.js";
+import { ingestAvlPacket, markDeviceOnline } from "./ingest.js";
+import { authorizeImei, isRateLimited, recordRejection } from "./handshake.js";
+import { handshakes, parseFailures } from "./metrics.js";
+import { isAnnouncedOnline } from "./watchdog.js";
+
+const UDP_PORT = Number(process.env.UDP_PORT || 5100);
+
+// Per-IMEI processing chains, so one device's datagrams are handled in order
+const queues = new Map<string, Promise<void>>();
+
+// Set at shutdown: datagrams arriving after that are left unACKed and resent
+let stopping = false;
+
+const udp = dgram.createSocket("udp4");
+
+udp.on("message", (msg, rinfo) => {
+  if (stopping) return;
+  const remote = rinfo.address;
+  if (isRateLimited(remote)) {
+    handshakes.inc({ transport: "udp", result: "rate_limited" });
+    return;
+  }
+
+  const packet = parseUdpPacket(msg);
+  if (!packet) {
+    parseFailures.inc({ reason: "bad_udp_packet" });
+    recordRejection(remote, null, `bad UDP packet (${msg.length} bytes)`);
+    return;
+  }
+
+  const { imei } = packet;
+  const tail = queues.get(imei) ?? Promise.resolve();
+  const next = tail.then(async () => {
+    try {
+      // UDP has no handshake, so the policy is applied to every datagram.
+      // No ACK on rejection — the device's data stays on the device.
+      const decision = await authorizeImei(imei);
+      if (!decision.ok) {
+        handshakes.inc({ transport: "udp", result: "rejected" });
+        recordRejection(remote, imei, decision.reason);
+        return;
+      }
+      handshakes.inc({ transport: "udp", result: "accepted" });
+
+      if (!isAnnouncedOnline(imei)) markDeviceOnline(imei);
+
+      await ingestAvlPacket(imei, remote, packet.avl, (accepted) => {
+        udp.send(buildUdpAck(packet.packetId, packet.avlPacketId, accepted), rinfo.port, rinfo.address);
+      });
+    } catch (err) {
+      // No ACK — the device retransmits the datagram
+      console.error(`[✗] Error handling UDP data from ${imei} (${remote}):`, err);
+    }
+  });
+
+  queues.set(imei, next);
+  next.then(() => {
+    if (queues.get(imei) === next) queues.delete(imei);
+  });
+});
+
+udp.on("error", (err) => {
+  console.error("[✗] UDP server error:", err);
+  process.exit(1);
+});
+
+udp.bind(UDP_PORT, "0.0.0.0", () => {
+  console.log(`[*] Teltonika UDP server listening on port ${UDP_PORT}`);
+});
+
+/**
+ * Ignores further datagrams, waits until those already received are ACKed
+ * (the socket stays open for the ACKs), then closes the socket.
+ */
+export async function stopUdp(): Promise<void> {
+  stopping = true;
+  await Promise.all(queues.values());
+  await new Promise<void>((resolve) => udp.close(() => resolve()));
+}
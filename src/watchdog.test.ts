@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getDevice, saveRawPacket, savePositions, upsertDevice, type DeviceRow } from "./db.js";
+import { openEventStream } from "./events.js";
+import {
+  checkDeviceStatus, deriveStatus, isAnnouncedOnline, setDeviceDisconnected, setDeviceStatus, watchdogStatus,
+} from "./watchdog.js";
+import type { AvlRecord } from "./teltonika.js";
+
+const NOW = Date.parse("2025-01-01T12:00:00Z");
+
+/** A device last heard from `ageS` seconds before NOW (defaults: 300 s interval, 2 / 6 intervals). */
+function device(ageS: number | null, extra: Partial<DeviceRow> = {}): DeviceRow {
+  return {
+    imei: "356307046452001", label: null, status: "online", approval_status: "approved", model: null,
+    organisation_id: null, last_seen_at: ageS === null ? null : new Date(NOW - ageS * 1000).toISOString(),
+    last_data_at: null, report_interval_s: null, created_at: "2025-01-01T00:00:00Z", ...extra,
+  };
+}
+
+test("status follows the time since the device was last heard from", async () => {
+  assert.equal(await deriveStatus(device(null), NOW), null);
+  assert.equal(await deriveStatus(device(600), NOW), "online");
+  assert.equal(await deriveStatus(device(601), NOW), "stale");
+  assert.equal(await deriveStatus(device(1800), NOW), "stale");
+  assert.equal(await deriveStatus(device(1801), NOW), "offline");
+
+  // Thresholds scale with the device's own interval; data counts as activity too
+  assert.equal(await deriveStatus(device(1801, { report_interval_s: 3600 }), NOW), "online");
+  const dataOnly = device(5000, { last_data_at: new Date(NOW - 60_000).toISOString() });
+  assert.equal(await deriveStatus(dataOnly, NOW), "online");
+});
+
+test("a device whose last record reported sleep mode sleeps instead of going stale", async () => {
+  const imei = "356307046452002";
+  const record: AvlRecord = {
+    codecId: 0x08, timestamp: new Date(NOW - 1000_000), priority: 0,
+    latitude: 54.6872, longitude: 25.2797, altitude: 0, angle: 0, satellites: 8,
+    speed: 0, eventIoId: 0, generationType: null, ioData: { sleep_mode: 2 },
+  };
+  await savePositions(imei, [record], await saveRawPacket(imei, undefined, Buffer.alloc(12)));
+
+  assert.equal(await deriveStatus(device(1000, { imei }), NOW), "sleeping");
+  assert.equal(await deriveStatus(device(5000, { imei, status: "sleeping" }), NOW), "sleeping");
+  // DEVICE_SLEEP_MAX_S (a day) later it is offline after all
+  assert.equal(await deriveStatus(device(86_401, { imei, status: "sleeping" }), NOW), "offline");
+});
+
+test("the loop only demotes; promotion back to online needs new data", async () => {
+  assert.equal(await watchdogStatus(device(1000), NOW), "stale");
+  assert.equal(await watchdogStatus(device(2000, { status: "stale" }), NOW), "offline");
+  assert.equal(await watchdogStatus(device(60, { status: "offline" }), NOW), "offline");
+  assert.equal(await watchdogStatus(device(60, { status: "offline" }), NOW, true), "online");
+});
+
+test("a session end marks the device offline until data received after it arrives", async () => {
+  const imei = "356307046452003";
+  await upsertDevice(imei);
+  const stream = openEventStream(undefined, new Set([imei]));
+
+  assert.equal(isAnnouncedOnline(imei), false);
+  await setDeviceStatus(imei, "online");
+  await setDeviceStatus(imei, "online");
+  assert.equal((await getDevice(imei))?.status, "online");
+  assert.equal(isAnnouncedOnline(imei), true);
+
+  const before = new Date().toISOString();
+  await setDeviceDisconnected(imei);
+  assert.equal((await getDevice(imei))?.status, "offline");
+  assert.equal(isAnnouncedOnline(imei), false);
+
+  // A backlog received before the disconnect leaves it offline
+  await checkDeviceStatus(imei, before);
+  assert.equal((await getDevice(imei))?.status, "offline");
+  await checkDeviceStatus(imei, new Date(Date.now() + 1000).toISOString());
+  assert.equal((await getDevice(imei))?.status, "online");
+
+  await setDeviceDisconnected(imei);
+  const statuses: string[] = [];
+  while (statuses[statuses.length - 1] !== "offline" || statuses.length < 3) {
+    const e = await stream.next();
+    if (!e) break;
+    if (e.type === "status") statuses.push(e.data.status);
+  }
+  stream.close();
+  // Each transition is announced once
+  assert.deepEqual(statuses, ["online", "offline", "online", "offline"]);
+});
@@ -0,0 +1,210 @@
+/**
+ * Device status watchdog.
+ *
+ * Socket events alone cannot tell when a device is gone: a GSM link that dies
+ * silently leaves a half-open connection, and devices in a sleep mode hang up
+ * on purpose. Status is therefore derived from how long ago the device was
+ * last heard from (the newer of last_seen_at and last_data_at), measured in
+ * its expected reporting interval (report_interval_s, or
+ * DEVICE_REPORT_INTERVAL_S):
+ *
+ *   online    within DEVICE_STALE_INTERVALS intervals
+ *   sleeping  quiet, but its last record reported a sleep mode (IO 200), for
+ *             at most DEVICE_SLEEP_MAX_S
+ *   stale     within DEVICE_OFFLINE_INTERVALS intervals
+ *   offline   anything older
+ *
+ * A background loop re-derives every device's status each
+ * WATCHDOG_INTERVAL_MS. It only ever demotes (online → stale / sleeping →
+ * offline): a device comes back online through a handshake, a UDP datagram,
+ * or data received after its last disconnect, as soon as that is stored.
+ * A TCP session ending marks its device offline — or sleeping, if its last
+ * record reported a sleep mode — and the loop leaves that in place. Only
+ * changes are written, and each transition is announced once to webhooks and
+ * live streams.
+ */
+
+import { getDevice, latestPosition, listDevices, updateDeviceStatus, type DeviceRow, type DeviceStatus } from "./db.js";
+import { queueStatusWebhooks } from "./webhooks.js";
+import { publishStatus } from "./events.js";
+
+const INTERVAL_MS = Number(process.env.WATCHDOG_INTERVAL_MS || 60_000);
+const DEFAULT_REPORT_INTERVAL_S = Number(process.env.DEVICE_REPORT_INTERVAL_S || 300);
+const STALE_INTERVALS = Number(process.env.DEVICE_STALE_INTERVALS || 2);
+const OFFLINE_INTERVALS = Number(process.env.DEVICE_OFFLINE_INTERVALS || 6);
+const SLEEP_MAX_S = Number(process.env.DEVICE_SLEEP_MAX_S || 86_400);
+
+// Last status announced per device, so repeated writes (a device
+// reconnecting while online) reach webhooks and live streams only once
+const announcedStatus = new Map<string, DeviceStatus>();
+
+// Demotions only go right: the loop never moves a device to a lower rank
+const RANK: Record<DeviceStatus, number> = { online: 0, stale: 1, sleeping: 1, offline: 2 };
+
+// When each device's TCP session last ended. Data received before then —
+// a spool backlog flushed late — must not bring it back online. Entries
+// spooled by an earlier process predate its shutdown, which marked them off.
+const STARTED_AT = Date.now();
+const disconnectedAt = new Map<string, number>();
+
+// Per-device tail of status writes: the transports, the spool worker and the
+// watchdog loop all change status, and a transition must be announced once
+const statusChains = new Map<string, Promise<void>>();
+
+function enqueue(imei: string, task: () => Promise<void>): Promise<void> {
+  const next = (statusChains.get(imei) ?? Promise.resolve()).then(task);
+  // The chain itself never rejects, so one failed write does not block the next
+  const tail = next.catch(() => {});
+  statusChains.set(imei, tail);
+  tail.then(() => {
+    if (statusChains.get(imei) === tail) statusChains.delete(imei);
+  });
+  return next;
+}
+
+async function writeStatus(imei: string, status: DeviceStatus, seen: boolean): Promise<void> {
+  await updateDeviceStatus(imei, status, seen);
+  if (announcedStatus.get(imei) === status) return;
+
+  await queueStatusWebhooks(imei, status);
+  announcedStatus.set(imei, status);
+  publishStatus(imei, status);
+}
+
+/** Whether the last status announced for a device, by this process, is online. */
+export function isAnnouncedOnline(imei: string): boolean {
+  return announcedStatus.get(imei) === "online";
+}
+
+/** Stores a status for a device that was just heard from, and announces it if it changed. */
+export function setDeviceStatus(imei: string, status: DeviceStatus): Promise<void> {
+  return enqueue(imei, () => writeStatus(imei, status, true));
+}
+
+/**
+ * Stores "offline" for a device whose TCP session ended, or "sleeping" if
+ * its last record reported a sleep mode (it hung up to sleep).
+ */
+export function setDeviceDisconnected(imei: string): Promise<void> {
+  disconnectedAt.set(imei, Date.now());
+  return enqueue(imei, async () => {
+    const latest = await latestPosition(imei);
+    await writeStatus(imei, Number(latest?.sleep_mode ?? 0) > 0 ? "sleeping" : "offline", true);
+  });
+}
+
+export type StatusThresholds = {
+  report_interval_s: number;
+  stale_after_s: number;
+  offline_after_s: number;
+  sleep_max_s: number;
+};
+
+export function statusThresholds(device: DeviceRow): StatusThresholds {
+  const interval = device.report_interval_s ?? DEFAULT_REPORT_INTERVAL_S;
+  return {
+    report_interval_s: interval,
+    stale_after_s: interval * STALE_INTERVALS,
+    offline_after_s: interval * OFFLINE_INTERVALS,
+    sleep_max_s: SLEEP_MAX_S,
+  };
+}
+
+/** When the device was last heard from, in ms since the epoch; null if never. */
+export function lastActivity(device: DeviceRow): number | null {
+  const times = [device.last_seen_at, device.last_data_at].filter((t): t is string => t !== null).map(Date.parse);
+  return times.length ? Math.max(...times) : null;
+}
+
+/** The status `device` should have at `now`; null for a device never heard from. */
+export async function deriveStatus(device: DeviceRow, now = Date.now()): Promise<DeviceStatus | null> {
+  const last = lastActivity(device);
+  if (last === null) return null;
+
+  const ageS = (now - last) / 1000;
+  const limits = statusThresholds(device);
+  if (ageS <= limits.stale_after_s) return "online";
+
+  // Sleep mode only changes with new data, which makes the device online
+  // again, so the last record is only read when it has just gone quiet
+  if (device.status === "sleeping") return ageS <= limits.sleep_max_s ? "sleeping" : "offline";
+  if (device.status === "online" || device.status === null) {
+    const latest = await latestPosition(device.imei);
+    if (Number(latest?.sleep_mode ?? 0) > 0 && ageS <= limits.sleep_max_s) return "sleeping";
+  }
+
+  return ageS <= limits.offline_after_s ? "stale" : "offline";
+}
+
+/**
+ * The status the watchdog sets for `device` at `now`: the derived one if it
+ * is a demotion, otherwise the stored one. `promote` allows moving back to
+ * online (new data arrived).
+ */
+export async function watchdogStatus(device: DeviceRow, now = Date.now(), promote = false): Promise<DeviceStatus | null> {
+  const derived = await deriveStatus(device, now);
+  if (derived === null || device.status === null) return derived;
+  if (RANK[derived] > RANK[device.status] || (promote && derived === "online")) return derived;
+  return device.status;
+}
+
+/**
+ * Re-derives the status of a device (as listed in `snapshot`) and stores it
+ * if it changed. A change is confirmed against a fresh read, in the device's
+ * status chain, so a packet that arrived in the meantime wins.
+ */
+async function applyStatus(snapshot: DeviceRow, promote = false): Promise<void> {
+  const { imei } = snapshot;
+  const status = await watchdogStatus(snapshot, Date.now(), promote);
+  if (status === null) return;
+  if (status === snapshot.status) {
+    // Already stored, by this process or an earlier one
+    if (!announcedStatus.has(imei)) announcedStatus.set(imei, status);
+    return;
+  }
+
+  await enqueue(imei, async () => {
+    const device = await getDevice(imei);
+    if (!device) return;
+    const confirmed = await watchdogStatus(device, Date.now(), promote);
+    if (confirmed === null || confirmed === device.status) return;
+    console.log(`[*] IMEI: ${imei} — ${device.status ?? "unknown"} → ${confirmed}`);
+    // Not heard from: last_seen_at stays where it is
+    await writeStatus(imei, confirmed, false);
+  });
+}
+
+/**
+ * Called after a packet is stored: brings a stale, sleeping or offline device
+ * back online, unless the data was received before its session ended.
+ */
+export async function checkDeviceStatus(imei: string, receivedAt: string): Promise<void> {
+  if (announcedStatus.get(imei) === "online") return;
+  const device = await getDevice(imei);
+  if (device) await applyStatus(device, Date.parse(receivedAt) > (disconnectedAt.get(imei) ?? STARTED_AT));
+}
+
+async function runOnce(): Promise<void> {
+  for (const device of await listDevices()) {
+    try {
+      await applyStatus(device);
+    } catch (err) {
+      console.error(`[✗] Watchdog failed for ${device.imei}:`, (err as Error).message);
+    }
+  }
+}
+
+let watchdogStarted = false;
+
+/** Starts re-deriving every device's status each WATCHDOG_INTERVAL_MS. */
+export function startWatchdog(): void {
+  if (watchdogStarted) return;
+  watchdogStarted = true;
+
+  const tick = () => {
+    runOnce()
+      .catch((err) => console.error("[✗] Watchdog error:", err.message))
+      .finally(() => setTimeout(tick, INTERVAL_MS).unref());
+  };
+  tick();
+}
@@ -0,0 +1,113 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { WebhookInput } from "./db.js";
+import type { AvlRecord } from "./teltonika.js";
+
+// Settings are read when the module loads: poll quickly, give up after two tries
+process.env.WEBHOOK_POLL_MS = "50";
+process.env.WEBHOOK_MAX_ATTEMPTS = "2";
+
+const IMEI = "356307046452013";
+
+type Received = { path: string; headers: http.IncomingHttpHeaders; body: string };
+const received: Received[] = [];
+
+// /ok accepts every delivery, anything else answers 500
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    received.push({ path: req.url ?? "", headers: req.headers, body });
+    res.statusCode = req.url === "/ok" ? 204 : 500;
+    res.end();
+  });
+});
+
+let db: typeof import("./db.js");
+let webhooks: typeof import("./webhooks.js");
+let baseUrl: string;
+
+before(async () => {
+  db = await import("./db.js");
+  webhooks = await import("./webhooks.js");
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+async function until(done: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 100 && !(await done()); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+function record(eventIoId: number): AvlRecord {
+  return {
+    codecId: 0x08, timestamp: new Date("2025-01-01T08:00:00Z"), priority: 0,
+    latitude: 54.6872, longitude: 25.2797, altitude: 0, angle: 0, satellites: 8,
+    speed: 30, eventIoId, generationType: null, ioData: {},
+  };
+}
+
+const subscribe = (path: string, input: Partial<WebhookInput> = {}) =>
+  db.createWebhook({
+    url: baseUrl + path, secret: "s3cret", events: ["position"], event_io_ids: null, imeis: [IMEI], enabled: true,
+    ...input,
+  });
+
+test("queues position batches, listed IO events and status changes", async () => {
+  const hook = await subscribe("/queue", { events: ["position", "io_event", "status"], event_io_ids: [247] });
+  await subscribe("/other", { imeis: ["356307046452099"] });
+  webhooks.invalidateWebhooks();
+
+  await webhooks.queueRecordWebhooks(IMEI, [record(0), record(247), record(252)]);
+  await webhooks.queueStatusWebhooks(IMEI, "online");
+
+  const queued = (await db.listWebhookDeliveries({}, 100)).reverse();
+  assert.ok(queued.every((d) => d.webhook_id === hook.id));
+  assert.deepEqual(queued.map((d) => d.event), ["position", "io_event", "status"]);
+  assert.equal((queued[0].payload.positions as unknown[]).length, 3);
+  assert.equal(queued[1].payload.event_io_id, 247);
+
+  // Keep them away from the worker started below
+  for (const d of queued) await db.updateWebhookDelivery(d.id, { status: "failed" });
+});
+
+test("signs deliveries and backs off failed ones until WEBHOOK_MAX_ATTEMPTS", async () => {
+  const ok = await subscribe("/ok");
+  const failing = await subscribe("/fail");
+  webhooks.invalidateWebhooks();
+  await webhooks.queueRecordWebhooks(IMEI, [record(0)]);
+
+  const delivery = async (webhookId: number) => (await db.listWebhookDeliveries({ webhookId }, 1))[0];
+  const startedAt = Date.now();
+  webhooks.startWebhookWorker();
+
+  await until(async () => (await delivery(ok.id)).status === "delivered" && (await delivery(failing.id)).attempts > 0);
+
+  const sent = received.find((r) => r.path === "/ok")!;
+  const timestamp = Number(sent.headers["x-webhook-timestamp"]);
+  const expected = "sha256=" + crypto.createHmac("sha256", "s3cret").update(`${timestamp}.${sent.body}`).digest("hex");
+  assert.equal(sent.headers["x-webhook-signature"], expected);
+  assert.equal(webhooks.signWebhook("s3cret", timestamp, sent.body), expected);
+  assert.equal(sent.headers["x-webhook-event"], "position");
+  assert.equal(JSON.parse(sent.body).data.imei, IMEI);
+
+  // First failure: retried after 5 s
+  const retry = await delivery(failing.id);
+  assert.equal(retry.status, "pending");
+  assert.equal(retry.last_status_code, 500);
+  assert.equal(retry.last_error, "HTTP 500");
+  const delay = Date.parse(retry.next_attempt_at) - startedAt;
+  assert.ok(delay >= 5_000 && delay < 6_000, `retry in ${delay} ms`);
+
+  // Due again: the second failure is the last attempt
+  await db.updateWebhookDelivery(retry.id, { next_attempt_at: new Date(0).toISOString() });
+  await until(async () => (await delivery(failing.id)).status !== "pending");
+  assert.equal((await delivery(failing.id)).status, "failed");
+  assert.equal((await delivery(failing.id)).attempts, 2);
+});
@@ -0,0 +1,210 @@
+/**
+ * Outbound webhooks.
+ *
+ * Subscriptions (tracker_webhooks) choose which events they receive:
+ *
+ *   position — one delivery per stored batch, with every position in it
+ *   status   — device status changed (online / stale / sleeping /
+ *              offline, see watchdog.ts)
+ *   io_event — one delivery per record whose event IO id is listed in the
+ *              subscription's event_io_ids (e.g. 247 crash, 252 jamming)
+ *
+ * Events are written to tracker_webhook_deliveries as "pending" and sent by a
+ * background worker, so a slow or unreachable receiver never holds up
+ * ingestion. Failed attempts (non-2xx, timeout, network error) are retried
+ * with exponential backoff until WEBHOOK_MAX_ATTEMPTS, then marked "failed".
+ * Delivery is at-least-once and not ordered across retries — receivers should
+ * de-duplicate on the X-Webhook-Delivery id.
+ *
+ * Each request is a JSON POST signed with the subscription's secret:
+ *
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Event / X-Webhook-Delivery: event type and delivery id
+ */
+
+import crypto from "node:crypto";
+import {
+  listWebhooks, insertWebhookDeliveries, dueWebhookDeliveries, updateWebhookDelivery,
+  type DeviceStatus, type WebhookDeliveryInput, type WebhookDeliveryRow, type WebhookRow,
+} from "./db.js";
+import { positionEventData } from "./events.js";
+import type { AvlRecord } from "./teltonika.js";
+
+const POLL_MS = Number(process.env.WEBHOOK_POLL_MS || 2000);
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10_000);
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 10);
+
+// Backoff between attempts: 5 s, 10 s, 20 s, … capped at one hour
+const RETRY_MIN_MS = 5_000;
+const RETRY_MAX_MS = 3_600_000;
+
+const BATCH_SIZE = 20;
+
+// Subscriptions change rarely; the API invalidates the cache on every write
+const WEBHOOK_CACHE_MS = 60_000;
+
+let webhookCache: { webhooks: WebhookRow[]; expires: number } | null = null;
+
+/** Forces the next event to reload subscriptions (call after any change). */
+export function invalidateWebhooks(): void {
+  webhookCache = null;
+}
+
+async function subscriptions(): Promise<WebhookRow[]> {
+  if (!webhookCache || webhookCache.expires <= Date.now()) {
+    webhookCache = { webhooks: await listWebhooks(), expires: Date.now() + WEBHOOK_CACHE_MS };
+  }
+  return webhookCache.webhooks;
+}
+
+async function subscribersFor(imei: string): Promise<WebhookRow[]> {
+  return (await subscriptions()).filter((w) => w.enabled && (w.imeis === null || w.imeis.includes(imei)));
+}
+
+// ── Event sources ─────────────────────────────────────────────────────────────
+
+/** Queues "position" and "io_event" deliveries for a batch of stored records. */
+export async function queueRecordWebhooks(imei: string, records: AvlRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const deliveries: WebhookDeliveryInput[] = [];
+
+  for (const webhook of await subscribersFor(imei)) {
+    if (webhook.events.includes("position")) {
+      deliveries.push({
+        webhook_id: webhook.id,
+        event: "position",
+        imei,
+        payload: { imei, positions: records.map(positionEventData) },
+      });
+    }
+    if (webhook.events.includes("io_event") && webhook.event_io_ids) {
+      for (const r of records) {
+        if (r.eventIoId === 0 || !webhook.event_io_ids.includes(r.eventIoId)) continue;
+        deliveries.push({
+          webhook_id: webhook.id,
+          event: "io_event",
+          imei,
+          payload: { imei, event_io_id: r.eventIoId, position: positionEventData(r) },
+        });
+      }
+    }
+  }
+
+  await insertWebhookDeliveries(deliveries);
+}
+
+/** Queues "status" deliveries for a device status change. */
+export async function queueStatusWebhooks(imei: string, status: DeviceStatus): Promise<void> {
+  const deliveries: WebhookDeliveryInput[] = (await subscribersFor(imei))
+    .filter((w) => w.events.includes("status"))
+    .map((w) => ({
+      webhook_id: w.id,
+      event: "status",
+      imei,
+      payload: { imei, status, at: new Date().toISOString() },
+    }));
+
+  await insertWebhookDeliveries(deliveries);
+}
+
+// ── Delivery worker ───────────────────────────────────────────────────────────
+
+/** Signature header value for a request body sent at `timestamp` (unix seconds). */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function attempt(webhook: WebhookRow, delivery: WebhookDeliveryRow): Promise<void> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhook(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    statusCode = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+    await res.body?.cancel();
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  if (error === null) {
+    await updateWebhookDelivery(delivery.id, {
+      status: "delivered",
+      attempts,
+      last_status_code: statusCode,
+      last_error: null,
+      delivered_at: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const giveUp = attempts >= MAX_ATTEMPTS;
+  const delay = Math.min(RETRY_MIN_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  await updateWebhookDelivery(delivery.id, {
+    status: giveUp ? "failed" : "pending",
+    attempts,
+    next_attempt_at: new Date(Date.now() + delay).toISOString(),
+    last_status_code: statusCode,
+    last_error: error,
+  });
+
+  console.warn(
+    giveUp
+      ? `[✗] Webhook ${webhook.id}: delivery ${delivery.id} failed after ${attempts} attempts: ${error}`
+      : `[!] Webhook ${webhook.id}: delivery ${delivery.id} attempt ${attempts} failed (${error}), retrying in ${delay} ms`
+  );
+}
+
+async function runOnce(): Promise<void> {
+  const due = await dueWebhookDeliveries(new Date().toISOString(), BATCH_SIZE);
+  if (due.length === 0) return;
+
+  const byId = new Map((await subscriptions()).map((w) => [w.id, w]));
+
+  await Promise.all(due.map(async (delivery) => {
+    const webhook = byId.get(delivery.webhook_id);
+    if (!webhook || !webhook.enabled) {
+      await updateWebhookDelivery(delivery.id, { status: "failed", last_error: "subscription disabled" });
+      return;
+    }
+    await attempt(webhook, delivery);
+  }));
+
+  // A full batch means more may be due right away
+  if (due.length === BATCH_SIZE) await runOnce();
+}
+
+let workerStarted = false;
+
+/** Starts polling tracker_webhook_deliveries for due deliveries. */
+export function startWebhookWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  const tick = () => {
+    runOnce()
+      .catch((err) => console.error("[✗] Webhook worker error:", err.message))
+      .finally(() => setTimeout(tick, POLL_MS).unref());
+  };
+  tick();
+}